@@ -0,0 +1,167 @@
+import type {
+  AdminOperations,
+  ApiClientRequestOptions,
+  ReturnData,
+} from "@shopify/admin-api-client";
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+
+// Query results are typed by the operations that `npm run graphql-codegen`
+// generates from the `#graphql` documents in app/ (see .graphqlrc.ts).
+export type AdminResult<Operation extends keyof AdminOperations> = ReturnData<
+  Operation,
+  AdminOperations
+>;
+
+export type AdminVariables<Operation extends keyof AdminOperations> =
+  ApiClientRequestOptions<Operation, AdminOperations>["variables"];
+
+type AdminClient = Pick<AdminApiContext, "graphql">;
+
+type Connection<Node> = {
+  nodes: Node[];
+  pageInfo: { hasNextPage: boolean; endCursor?: string | null };
+};
+
+type QueryCost = {
+  requestedQueryCost?: number;
+  throttleStatus?: {
+    currentlyAvailable: number;
+    restoreRate: number;
+  };
+};
+
+// The shape of the errors thrown by the Shopify API library: GraphQL errors
+// carry the response body, HTTP errors carry the status code.
+type ClientError = {
+  body?: {
+    errors?: {
+      graphQLErrors?: Array<{ extensions?: { code?: string } }>;
+    };
+    extensions?: { cost?: QueryCost };
+  };
+  response?: { code?: number; retryAfter?: number };
+};
+
+const MAX_ATTEMPTS = 5;
+const RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30 * 1000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Time until the cost bucket has room for another request of the same cost,
+ * based on the throttle status Shopify returns with every response.
+ */
+const throttleDelay = (cost: QueryCost | undefined) => {
+  const status = cost?.throttleStatus;
+  if (!cost?.requestedQueryCost || !status?.restoreRate) return 0;
+
+  const deficit = cost.requestedQueryCost - status.currentlyAvailable;
+  return deficit > 0 ? Math.ceil((deficit / status.restoreRate) * 1000) : 0;
+};
+
+/**
+ * How long to wait before trying a failed request again, or null when the
+ * failure will not go away by itself.
+ */
+const retryDelay = (error: unknown, attempt: number) => {
+  // Expired sessions surface as redirect responses for the framework.
+  if (error instanceof Response) return null;
+
+  const backoff = Math.min(
+    RETRY_DELAY_MS * 2 ** (attempt - 1),
+    MAX_RETRY_DELAY_MS,
+  );
+  const { body, response } = (error || {}) as ClientError;
+
+  const graphQLErrors = body?.errors?.graphQLErrors;
+  if (graphQLErrors) {
+    const throttled = graphQLErrors.some(
+      (graphQLError) => graphQLError.extensions?.code === "THROTTLED",
+    );
+    return throttled
+      ? Math.max(throttleDelay(body?.extensions?.cost), backoff)
+      : null;
+  }
+
+  if (response?.code === 429) {
+    return response.retryAfter ? response.retryAfter * 1000 : backoff;
+  }
+  if (response?.code !== undefined) {
+    return response.code >= 500 ? backoff : null;
+  }
+
+  // No response at all: the request failed on the network.
+  return backoff;
+};
+
+/**
+ * Runs an Admin API operation and returns its data. Throttled requests wait
+ * for the cost bucket to refill, and network failures and 5xx responses are
+ * retried with exponential backoff. When the bucket runs low after a request,
+ * the call waits before returning so the next request is not throttled.
+ */
+export const adminGraphql = async <Operation extends keyof AdminOperations>(
+  admin: AdminClient,
+  operation: Operation,
+  variables?: AdminVariables<Operation>,
+): Promise<AdminResult<Operation>> => {
+  for (let attempt = 1; ; attempt += 1) {
+    try {
+      const response = await admin.graphql(operation, { variables });
+      const body = await response.json();
+      await sleep(throttleDelay(body.extensions?.cost as QueryCost));
+      return body.data as AdminResult<Operation>;
+    } catch (error) {
+      const delay = attempt < MAX_ATTEMPTS ? retryDelay(error, attempt) : null;
+      if (delay === null) throw error;
+      await sleep(delay);
+    }
+  }
+};
+
+/**
+ * Follows a connection's cursor and yields its nodes a page at a time. The
+ * operation takes the cursor as `$after`; `connection` picks the connection
+ * out of each result, returning nothing when its parent no longer exists.
+ */
+export async function* adminPages<
+  Operation extends keyof AdminOperations,
+  Node,
+>(
+  admin: AdminClient,
+  operation: Operation,
+  variables: Omit<NonNullable<AdminVariables<Operation>>, "after">,
+  connection: (
+    data: AdminResult<Operation>,
+  ) => Connection<Node> | null | undefined,
+) {
+  let after: string | null = null;
+
+  do {
+    const data = await adminGraphql(admin, operation, {
+      ...variables,
+      after,
+    } as AdminVariables<Operation>);
+    const page = connection(data);
+    if (!page) return;
+    yield page.nodes;
+    after = page.pageInfo.hasNextPage ? page.pageInfo.endCursor || null : null;
+  } while (after);
+}
+
+/**
+ * Reads every page of a connection. See `adminPages`. Returns null when the
+ * connection's parent does not exist.
+ */
+export const adminNodes = async <Operation extends keyof AdminOperations, Node>(
+  ...args: Parameters<typeof adminPages<Operation, Node>>
+) => {
+  const nodes: Node[] = [];
+  let found = false;
+  for await (const page of adminPages(...args)) {
+    found = true;
+    nodes.push(...page);
+  }
+  return found ? nodes : null;
+};
@@ -0,0 +1,59 @@
+import nodemailer from "nodemailer";
+import type { Transporter } from "nodemailer";
+
+declare global {
+  // eslint-disable-next-line no-var
+  var mailerGlobal: Transporter | undefined;
+}
+
+export type MailAttachment = {
+  filename: string;
+  content: string;
+  contentType: string;
+};
+
+/**
+ * SMTP is configured through the environment. Point SMTP_HOST and SMTP_PORT
+ * at a local catcher such as Mailpit (localhost:1025) to test deliveries.
+ */
+const getTransport = () => {
+  if (!process.env.SMTP_HOST) {
+    throw new Error("Email delivery is not configured (SMTP_HOST is unset).");
+  }
+
+  if (!global.mailerGlobal) {
+    global.mailerGlobal = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: Number(process.env.SMTP_PORT || 587),
+      secure: process.env.SMTP_SECURE === "true",
+      auth: process.env.SMTP_USER
+        ? {
+            user: process.env.SMTP_USER,
+            pass: process.env.SMTP_PASSWORD || "",
+          }
+        : undefined,
+    });
+  }
+
+  return global.mailerGlobal;
+};
+
+export const sendMail = async ({
+  to,
+  subject,
+  text,
+  attachments = [],
+}: {
+  to: string[];
+  subject: string;
+  text: string;
+  attachments?: MailAttachment[];
+}) => {
+  await getTransport().sendMail({
+    from: process.env.SMTP_FROM || "reports@localhost",
+    to,
+    subject,
+    text,
+    attachments,
+  });
+};
@@ -0,0 +1,81 @@
+import prisma from "../db.server";
+import type { AttributionDimension } from "./attribution";
+import { attributionGroup, parseStoredVisit } from "./attribution";
+import { netRevenue } from "./revenue.server";
+
+export type AttributionRow = {
+  group: string;
+  customers: number;
+  repeatCustomers: number;
+  totalClv: number;
+  averageClv: number;
+  repeatRate: number;
+};
+
+/**
+ * Groups the customers whose first order falls in the range by where their
+ * first visit came from. CLV is lifetime spend after the revenue basis
+ * deductions; a customer counts as repeat once they have more than one order.
+ */
+export const buildAttributionReport = async (
+  shop: string,
+  {
+    start,
+    end,
+    dimension,
+    deductions,
+  }: {
+    start: Date;
+    end: Date;
+    dimension: AttributionDimension;
+    deductions: Map<string, number>;
+  },
+) => {
+  const customers = await prisma.customer.findMany({
+    where: {
+      shop,
+      firstOrderAt: { gte: start, lte: end },
+      amountSpentShop: { not: null },
+    },
+    select: {
+      id: true,
+      numberOfOrders: true,
+      amountSpentShop: true,
+      firstVisit: true,
+    },
+  });
+
+  const groups = new Map<string, AttributionRow>();
+  for (const customer of customers) {
+    const group = attributionGroup(
+      parseStoredVisit(customer.firstVisit),
+      dimension,
+    );
+    const row = groups.get(group) || {
+      group,
+      customers: 0,
+      repeatCustomers: 0,
+      totalClv: 0,
+      averageClv: 0,
+      repeatRate: 0,
+    };
+    row.customers += 1;
+    row.repeatCustomers += customer.numberOfOrders > 1 ? 1 : 0;
+    row.totalClv += netRevenue(
+      customer.amountSpentShop as number,
+      customer.id,
+      deductions,
+    );
+    groups.set(group, row);
+  }
+
+  const rows = Array.from(groups.values()).map((row) => ({
+    ...row,
+    averageClv: row.totalClv / row.customers,
+    repeatRate: row.repeatCustomers / row.customers,
+  }));
+
+  return rows.sort(
+    (a, b) => b.totalClv - a.totalClv || a.group.localeCompare(b.group),
+  );
+};
@@ -0,0 +1,123 @@
+export type UtmParameters = {
+  source?: string | null;
+  medium?: string | null;
+  campaign?: string | null;
+  term?: string | null;
+  content?: string | null;
+};
+
+export type FirstVisit = {
+  source?: string | null;
+  sourceType?: string | null;
+  sourceDescription?: string | null;
+  referrerUrl?: string | null;
+  landingPage?: string | null;
+  utmParameters?: UtmParameters | null;
+};
+
+export type AttributionDimension =
+  | "source"
+  | "source_type"
+  | "referrer_host"
+  | "utm_source"
+  | "utm_medium"
+  | "utm_campaign";
+
+export const ATTRIBUTION_DIMENSIONS: Array<{
+  key: AttributionDimension;
+  label: string;
+}> = [
+  { key: "source", label: "First-visit source" },
+  { key: "source_type", label: "Source type" },
+  { key: "referrer_host", label: "Referrer host" },
+  { key: "utm_source", label: "UTM source" },
+  { key: "utm_medium", label: "UTM medium" },
+  { key: "utm_campaign", label: "UTM campaign" },
+];
+
+export const UNATTRIBUTED = "Unknown";
+
+export const parseAttributionDimension = (
+  value: string | null,
+): AttributionDimension =>
+  ATTRIBUTION_DIMENSIONS.find((dimension) => dimension.key === value)?.key ||
+  "source";
+
+export const formatUtm = (utm?: UtmParameters | null) => {
+  if (!utm) return null;
+  const parts = [
+    utm.source ? `source=${utm.source}` : null,
+    utm.medium ? `medium=${utm.medium}` : null,
+    utm.campaign ? `campaign=${utm.campaign}` : null,
+    utm.term ? `term=${utm.term}` : null,
+    utm.content ? `content=${utm.content}` : null,
+  ].filter(Boolean);
+
+  return parts.length ? parts.join(", ") : null;
+};
+
+export const referrerHost = (visit?: FirstVisit | null) => {
+  if (!visit?.referrerUrl) return null;
+  try {
+    return new URL(visit.referrerUrl).hostname;
+  } catch {
+    return visit.referrerUrl;
+  }
+};
+
+export const formatReferrerChannel = (visit?: FirstVisit | null) => {
+  if (!visit) return UNATTRIBUTED;
+
+  if (visit.utmParameters?.source || visit.utmParameters?.medium) {
+    const utm = formatUtm(visit.utmParameters);
+    return utm ? `UTM (${utm})` : "UTM";
+  }
+
+  if (visit.source) {
+    const description = visit.sourceDescription
+      ? ` - ${visit.sourceDescription}`
+      : "";
+    return `${visit.source}${description}`;
+  }
+
+  return referrerHost(visit) || UNATTRIBUTED;
+};
+
+/**
+ * Returns the group a first visit falls into for a dimension. Visits without
+ * a value for the dimension share the Unknown group.
+ */
+export const attributionGroup = (
+  visit: FirstVisit | null,
+  dimension: AttributionDimension,
+) => {
+  if (!visit) return UNATTRIBUTED;
+
+  const value = (() => {
+    switch (dimension) {
+      case "source":
+        return visit.source;
+      case "source_type":
+        return visit.sourceType;
+      case "referrer_host":
+        return referrerHost(visit);
+      case "utm_source":
+        return visit.utmParameters?.source;
+      case "utm_medium":
+        return visit.utmParameters?.medium;
+      case "utm_campaign":
+        return visit.utmParameters?.campaign;
+    }
+  })();
+
+  return value?.trim() || UNATTRIBUTED;
+};
+
+export const parseStoredVisit = (value: string | null) => {
+  if (!value) return null;
+  try {
+    return JSON.parse(value) as FirstVisit;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,239 @@
+import type { Bundle, BundleItem } from "@prisma/client";
+import prisma from "../db.server";
+import { findFirstOrders } from "./first-orders.server";
+import type { RevenueBasis } from "./revenue";
+import { loadRevenueDeductions, netRevenue } from "./revenue.server";
+
+export type BundleItemInput = {
+  productId: string;
+  variantId: string | null;
+  title: string;
+};
+
+export type BundleWithItems = Bundle & { items: BundleItem[] };
+
+type CustomerGroup = {
+  customers: number;
+  averageClv: number | null;
+  // Customers whose spend is not in the shop currency, left out of the average.
+  notConverted: number;
+};
+
+export type BundlePerformance = {
+  bundleId: string;
+  // Orders containing every item of the bundle, and at least one of them.
+  orders: number;
+  ordersWithAnyItem: number;
+  attachRate: number | null;
+  revenue: number;
+  firstOrderWithBundle: CustomerGroup;
+  firstOrderWithoutBundle: CustomerGroup;
+};
+
+type OrderLine = {
+  productId: string | null;
+  variantId: string | null;
+  discountedTotal: number;
+};
+
+const PRODUCT_GID = /^gid:\/\/shopify\/Product\/\d+$/;
+const VARIANT_GID = /^gid:\/\/shopify\/ProductVariant\/\d+$/;
+
+/**
+ * Reads the items posted by the bundle form, dropping malformed entries and
+ * repeats. A variant item needs its product so product-level matching works.
+ */
+export const parseBundleItems = (value: string): BundleItemInput[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value || "[]");
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(parsed)) return [];
+
+  const items = new Map<string, BundleItemInput>();
+  for (const entry of parsed) {
+    const { productId, variantId, title } = (entry || {}) as Record<
+      string,
+      unknown
+    >;
+    if (typeof productId !== "string" || !PRODUCT_GID.test(productId)) continue;
+    if (
+      variantId !== null &&
+      variantId !== undefined &&
+      (typeof variantId !== "string" || !VARIANT_GID.test(variantId))
+    ) {
+      continue;
+    }
+    const item = {
+      productId,
+      variantId: (variantId as string | null | undefined) || null,
+      title:
+        typeof title === "string" && title.trim() ? title.trim() : productId,
+    };
+    items.set(`${item.productId}|${item.variantId}`, item);
+  }
+
+  return Array.from(items.values());
+};
+
+export const listBundles = (shop: string): Promise<BundleWithItems[]> =>
+  prisma.bundle.findMany({
+    where: { shop },
+    include: { items: true },
+    orderBy: { name: "asc" },
+  });
+
+export const createBundle = (
+  shop: string,
+  {
+    name,
+    discountCode,
+    items,
+  }: { name: string; discountCode: string | null; items: BundleItemInput[] },
+) =>
+  prisma.bundle.create({
+    data: { shop, name, discountCode, items: { create: items } },
+  });
+
+export const updateBundle = async (
+  shop: string,
+  id: string,
+  { name, discountCode }: { name: string; discountCode: string | null },
+) => {
+  const updated = await prisma.bundle.updateMany({
+    where: { id, shop },
+    data: { name, discountCode },
+  });
+  return updated.count > 0;
+};
+
+export const deleteBundle = async (shop: string, id: string) => {
+  const deleted = await prisma.bundle.deleteMany({ where: { id, shop } });
+  return deleted.count > 0;
+};
+
+const lineMatches = (line: OrderLine, item: BundleItem) =>
+  item.variantId
+    ? line.variantId === item.variantId
+    : line.productId === item.productId;
+
+const summarizeCustomers = (
+  customerClvs: Array<number | null>,
+): CustomerGroup => {
+  const clvs = customerClvs.filter((clv): clv is number => clv !== null);
+  return {
+    customers: clvs.length,
+    averageClv: clvs.length
+      ? clvs.reduce((sum, clv) => sum + clv, 0) / clvs.length
+      : null,
+    notConverted: customerClvs.length - clvs.length,
+  };
+};
+
+/**
+ * Measures each bundle over the orders placed in the range. Cancelled orders
+ * do not count as bundle orders. Bundle revenue is what the bundle's line
+ * items brought in, after discounts, in orders containing the full bundle.
+ * Customers whose first order falls in the range are split by whether that
+ * first order contained the full bundle, and their lifetime spend compared.
+ */
+export const getBundlePerformance = async (
+  shop: string,
+  bundles: BundleWithItems[],
+  { start, end, basis }: { start: Date; end: Date; basis: RevenueBasis },
+): Promise<BundlePerformance[]> => {
+  if (!bundles.length) return [];
+
+  const [orders, customers, deductions] = await Promise.all([
+    prisma.order.findMany({
+      where: { shop, createdAt: { gte: start, lte: end } },
+      select: {
+        id: true,
+        customerId: true,
+        createdAt: true,
+        cancelledAt: true,
+      },
+      orderBy: { createdAt: "asc" },
+    }),
+    prisma.customer.findMany({
+      where: { shop, firstOrderAt: { gte: start, lte: end } },
+      select: { id: true, firstOrderAt: true, amountSpentShop: true },
+    }),
+    loadRevenueDeductions(shop, basis),
+  ]);
+  const lineItems = await prisma.lineItem.findMany({
+    where: { shop, orderId: { in: orders.map((order) => order.id) } },
+    select: {
+      orderId: true,
+      productId: true,
+      variantId: true,
+      discountedTotal: true,
+    },
+  });
+
+  const linesByOrder = new Map<string, OrderLine[]>();
+  for (const lineItem of lineItems) {
+    const lines = linesByOrder.get(lineItem.orderId) || [];
+    lines.push(lineItem);
+    linesByOrder.set(lineItem.orderId, lines);
+  }
+  const firstOrders = Array.from(
+    findFirstOrders(
+      orders,
+      new Map(customers.map((customer) => [customer.id, customer])),
+      start,
+      end,
+    ).values(),
+  );
+
+  const containsBundle = (orderId: string, bundle: BundleWithItems) => {
+    const lines = linesByOrder.get(orderId) || [];
+    return bundle.items.every((item) =>
+      lines.some((line) => lineMatches(line, item)),
+    );
+  };
+
+  return bundles.map((bundle) => {
+    let bundleOrders = 0;
+    let ordersWithAnyItem = 0;
+    let revenue = 0;
+
+    for (const order of orders) {
+      if (order.cancelledAt) continue;
+      const lines = linesByOrder.get(order.id) || [];
+      const bundleLines = lines.filter((line) =>
+        bundle.items.some((item) => lineMatches(line, item)),
+      );
+      if (!bundleLines.length) continue;
+      ordersWithAnyItem += 1;
+      if (!containsBundle(order.id, bundle)) continue;
+      bundleOrders += 1;
+      revenue += bundleLines.reduce(
+        (sum, line) => sum + line.discountedTotal,
+        0,
+      );
+    }
+
+    const withBundle: Array<number | null> = [];
+    const withoutBundle: Array<number | null> = [];
+    for (const { customer, order } of firstOrders) {
+      const clv =
+        customer.amountSpentShop === null
+          ? null
+          : netRevenue(customer.amountSpentShop, customer.id, deductions);
+      (containsBundle(order.id, bundle) ? withBundle : withoutBundle).push(clv);
+    }
+
+    return {
+      bundleId: bundle.id,
+      orders: bundleOrders,
+      ordersWithAnyItem,
+      attachRate: ordersWithAnyItem ? bundleOrders / ordersWithAnyItem : null,
+      revenue,
+      firstOrderWithBundle: summarizeCustomers(withBundle),
+      firstOrderWithoutBundle: summarizeCustomers(withoutBundle),
+    };
+  });
+};
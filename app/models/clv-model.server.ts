@@ -0,0 +1,159 @@
+import prisma from "../db.server";
+import type { PurchaseSummary } from "./clv-model";
+import {
+  expectedOrderValue,
+  expectedPurchases,
+  fitBgNbd,
+  fitGammaGamma,
+  probabilityAlive,
+} from "./clv-model";
+
+export type ClvPrediction = {
+  expectedPurchases: number;
+  expectedOrderValue: number;
+  predictedClv: number;
+  probabilityAlive: number;
+};
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+const PREDICTION_WEEKS = 52;
+const MODEL_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const MIN_CUSTOMERS = 20;
+const MIN_REPEAT_CUSTOMERS = 5;
+
+const buildSummaries = async (shop: string, now: Date) => {
+  const orders = await prisma.order.findMany({
+    where: { shop, cancelledAt: null, customerId: { not: null } },
+    select: { customerId: true, createdAt: true, totalPrice: true },
+  });
+
+  const days = new Map<string, Map<number, number>>();
+  for (const order of orders) {
+    const customerId = order.customerId as string;
+    const day = Math.floor(order.createdAt.getTime() / (WEEK_MS / 7));
+    const customerDays = days.get(customerId) || new Map<number, number>();
+    customerDays.set(day, (customerDays.get(day) || 0) + order.totalPrice);
+    days.set(customerId, customerDays);
+  }
+
+  const nowDay = now.getTime() / (WEEK_MS / 7);
+  const summaries: PurchaseSummary[] = [];
+  const firstPurchaseValues: number[] = [];
+
+  for (const [id, customerDays] of days) {
+    const sortedDays = Array.from(customerDays.keys()).sort((a, b) => a - b);
+    const first = sortedDays[0];
+    const last = sortedDays[sortedDays.length - 1];
+    const repeatValues = sortedDays
+      .slice(1)
+      .map((day) => customerDays.get(day) as number);
+    firstPurchaseValues.push(customerDays.get(first) as number);
+
+    summaries.push({
+      id,
+      frequency: repeatValues.length,
+      recency: (last - first) / 7,
+      age: Math.max((nowDay - first) / 7, (last - first) / 7),
+      monetary: repeatValues.length
+        ? repeatValues.reduce((sum, value) => sum + value, 0) /
+          repeatValues.length
+        : 0,
+    });
+  }
+
+  const averageOrderValue = firstPurchaseValues.length
+    ? firstPurchaseValues.reduce((sum, value) => sum + value, 0) /
+      firstPurchaseValues.length
+    : 0;
+
+  return { summaries, averageOrderValue };
+};
+
+/**
+ * Fits the shop's BG/NBD and Gamma-Gamma parameters and stores them. Fitting
+ * walks every customer many times, so it runs from the scheduler rather than
+ * in a request. A shop with too little history keeps no model.
+ */
+export const refitClvModel = async (shop: string, now = new Date()) => {
+  const { summaries } = await buildSummaries(shop, now);
+  const repeaters = summaries.filter(
+    (summary) => summary.frequency > 0 && summary.monetary > 0,
+  );
+  if (
+    summaries.length < MIN_CUSTOMERS ||
+    repeaters.length < MIN_REPEAT_CUSTOMERS
+  ) {
+    await prisma.clvModel.deleteMany({ where: { shop } });
+    return;
+  }
+
+  const bgNbd = fitBgNbd(summaries);
+  const gammaGamma = fitGammaGamma(repeaters);
+  const data = {
+    ...bgNbd,
+    ...gammaGamma,
+    customers: summaries.length,
+    fittedAt: now,
+  };
+  await prisma.clvModel.upsert({
+    where: { shop },
+    create: { shop, ...data },
+    update: data,
+  });
+};
+
+/**
+ * Refits the models of synced shops that have none yet, whose model is a day
+ * old or that finished a sync since it was fitted.
+ */
+export const refitStaleClvModels = async (now = new Date()) => {
+  const [syncs, models] = await Promise.all([
+    prisma.syncState.findMany({
+      where: { status: "idle", lastSyncedAt: { not: null } },
+      select: { shop: true, lastSyncedAt: true },
+    }),
+    prisma.clvModel.findMany({ select: { shop: true, fittedAt: true } }),
+  ]);
+  const fittedAt = new Map(models.map((model) => [model.shop, model.fittedAt]));
+
+  for (const sync of syncs) {
+    const fitted = fittedAt.get(sync.shop);
+    const stale =
+      !fitted ||
+      now.getTime() - fitted.getTime() >= MODEL_MAX_AGE_MS ||
+      (sync.lastSyncedAt !== null && sync.lastSyncedAt > fitted);
+    if (stale) await refitClvModel(sync.shop, now);
+  }
+};
+
+/**
+ * Predicts 12-month CLV and the probability that each customer is still
+ * active, using a BG/NBD model for purchase frequency and a Gamma-Gamma model
+ * for spend. Only reads the parameters refitStaleClvModels stored. Returns no
+ * predictions until the shop has a fitted model.
+ */
+export const getClvPredictions = async (shop: string) => {
+  const now = new Date();
+  const [{ summaries, averageOrderValue }, model] = await Promise.all([
+    buildSummaries(shop, now),
+    prisma.clvModel.findUnique({ where: { shop } }),
+  ]);
+  const predictions = new Map<string, ClvPrediction>();
+
+  if (!model) {
+    return { predictions, fittedAt: null };
+  }
+
+  for (const summary of summaries) {
+    const purchases = expectedPurchases(model, summary, PREDICTION_WEEKS);
+    const orderValue = expectedOrderValue(model, summary, averageOrderValue);
+    predictions.set(summary.id, {
+      expectedPurchases: purchases,
+      expectedOrderValue: orderValue,
+      predictedClv: purchases * orderValue,
+      probabilityAlive: probabilityAlive(model, summary),
+    });
+  }
+
+  return { predictions, fittedAt: model.fittedAt.toISOString() };
+};
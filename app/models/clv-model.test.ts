@@ -0,0 +1,155 @@
+import { describe, expect, it } from "vitest";
+import {
+  bgNbdLogLikelihood,
+  expectedOrderValue,
+  expectedPurchases,
+  gammaGammaLogLikelihood,
+  hyp2f1,
+  lnGamma,
+  nelderMead,
+  probabilityAlive,
+} from "./clv-model";
+
+// BG/NBD parameters fitted to the CDNOW sample, as published by Fader, Hardie
+// and Lee and reproduced by lifetimes' BetaGeoFitter.
+const CDNOW_BG_NBD = { r: 0.243, alpha: 4.414, a: 0.793, b: 2.426 };
+
+// Gamma-Gamma parameters fitted to the CDNOW sample by Fader and Hardie.
+const CDNOW_GAMMA_GAMMA = { p: 6.25, q: 3.74, gamma: 15.44 };
+
+const summary = (
+  frequency: number,
+  recency: number,
+  age: number,
+  monetary = 0,
+) => ({
+  id: "gid://shopify/Customer/1",
+  frequency,
+  recency,
+  age,
+  monetary,
+});
+
+describe("lnGamma", () => {
+  it("matches known values", () => {
+    expect(lnGamma(1)).toBeCloseTo(0, 12);
+    expect(lnGamma(2)).toBeCloseTo(0, 12);
+    expect(lnGamma(0.5)).toBeCloseTo(Math.log(Math.sqrt(Math.PI)), 12);
+    expect(lnGamma(10)).toBeCloseTo(Math.log(362880), 10);
+    expect(lnGamma(0.1)).toBeCloseTo(2.252712651734206, 10);
+  });
+
+  it("satisfies the recurrence", () => {
+    for (const value of [0.3, 1.7, 4.2, 25]) {
+      expect(lnGamma(value + 1) - lnGamma(value)).toBeCloseTo(
+        Math.log(value),
+        10,
+      );
+    }
+  });
+});
+
+describe("hyp2f1", () => {
+  it("matches closed forms", () => {
+    expect(hyp2f1(1, 1, 2, 0.5)).toBeCloseTo(-Math.log(0.5) / 0.5, 10);
+    expect(hyp2f1(2.5, 3, 3, 0.4)).toBeCloseTo(Math.pow(1 - 0.4, -2.5), 10);
+  });
+
+  it("is 1 at zero", () => {
+    expect(hyp2f1(3, 4, 5, 0)).toBe(1);
+  });
+});
+
+describe("bgNbdLogLikelihood", () => {
+  const params = { r: 1, alpha: 1, a: 1, b: 1 };
+
+  it("matches the likelihood of a customer without repeat purchases", () => {
+    // With r = alpha = a = b = 1 the likelihood reduces to 1 / (1 + T).
+    expect(bgNbdLogLikelihood(params, summary(0, 0, 3))).toBeCloseTo(
+      -Math.log(4),
+      12,
+    );
+  });
+
+  it("matches the likelihood of a repeat customer", () => {
+    // ... and to ((1 + T)^-2 + (1 + t_x)^-2) / 2 for a single repeat purchase.
+    expect(bgNbdLogLikelihood(params, summary(1, 1, 3))).toBeCloseTo(
+      Math.log(0.5 * (1 / 16 + 1 / 4)),
+      12,
+    );
+  });
+});
+
+describe("gammaGammaLogLikelihood", () => {
+  it("matches the density of the average spend", () => {
+    // With p = q = gamma = x = m = 1 the density is 1 / (1 + 1)^2.
+    expect(
+      gammaGammaLogLikelihood({ p: 1, q: 1, gamma: 1 }, summary(1, 1, 1, 1)),
+    ).toBeCloseTo(Math.log(0.25), 12);
+  });
+});
+
+describe("expectedPurchases", () => {
+  it("matches the conditional expectation in Hardie's CDNOW spreadsheet", () => {
+    // lifetimes checks the same value: x = 2, t_x = 30.43, T = 38.86 and
+    // t = 39 weeks give 1.226 expected purchases.
+    expect(
+      expectedPurchases(CDNOW_BG_NBD, summary(2, 30.43, 38.86), 39),
+    ).toBeCloseTo(1.226, 3);
+  });
+
+  it("grows with the horizon", () => {
+    const customer = summary(2, 30.43, 38.86);
+    expect(expectedPurchases(CDNOW_BG_NBD, customer, 52)).toBeGreaterThan(
+      expectedPurchases(CDNOW_BG_NBD, customer, 26),
+    );
+  });
+});
+
+describe("probabilityAlive", () => {
+  it("is 1 for customers without repeat purchases", () => {
+    expect(probabilityAlive(CDNOW_BG_NBD, summary(0, 0, 30))).toBe(1);
+  });
+
+  it("falls the longer a repeat customer has been quiet", () => {
+    const recent = probabilityAlive(CDNOW_BG_NBD, summary(3, 30, 32));
+    const quiet = probabilityAlive(CDNOW_BG_NBD, summary(3, 10, 32));
+    expect(recent).toBeGreaterThan(quiet);
+    expect(quiet).toBeGreaterThan(0);
+    expect(recent).toBeLessThan(1);
+  });
+});
+
+describe("expectedOrderValue", () => {
+  const { p, q, gamma } = CDNOW_GAMMA_GAMMA;
+  const populationMean = (p * gamma) / (q - 1);
+
+  it("weights the customer's average against the population mean", () => {
+    const x = 2;
+    const m = 50;
+    const weight = (p * x) / (p * x + q - 1);
+    expect(
+      expectedOrderValue(CDNOW_GAMMA_GAMMA, summary(x, 10, 20, m), 0),
+    ).toBeCloseTo(weight * m + (1 - weight) * populationMean, 10);
+  });
+
+  it("approaches the customer's own average with many purchases", () => {
+    expect(
+      expectedOrderValue(CDNOW_GAMMA_GAMMA, summary(1000, 10, 20, 50), 0),
+    ).toBeCloseTo(50, 0);
+  });
+
+  it("falls back for customers without repeat purchases", () => {
+    expect(expectedOrderValue(CDNOW_GAMMA_GAMMA, summary(0, 0, 20), 42)).toBe(
+      42,
+    );
+  });
+});
+
+describe("nelderMead", () => {
+  it("finds the minimum of a quadratic", () => {
+    const [x, y] = nelderMead(([a, b]) => (a - 1) ** 2 + (b + 2) ** 2, [0, 0]);
+    expect(x).toBeCloseTo(1, 3);
+    expect(y).toBeCloseTo(-2, 3);
+  });
+});
@@ -0,0 +1,247 @@
+/*
+ * The BG/NBD model of purchase frequency and the Gamma-Gamma model of spend,
+ * as in the lifetimes library. Time is measured in weeks.
+ */
+
+export type PurchaseSummary = {
+  id: string;
+  // Repeat purchases: distinct purchase days after the first one.
+  frequency: number;
+  // Weeks between the first and the last purchase.
+  recency: number;
+  // Weeks between the first purchase and now.
+  age: number;
+  // Mean value of the repeat purchase days.
+  monetary: number;
+};
+
+export type BgNbdParams = { r: number; alpha: number; a: number; b: number };
+export type GammaGammaParams = { p: number; q: number; gamma: number };
+
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028,
+  771.32342877765313, -176.61502916214059, 12.507343278686905,
+  -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+];
+
+export const lnGamma = (value: number): number => {
+  if (value < 0.5) {
+    return (
+      Math.log(Math.PI / Math.abs(Math.sin(Math.PI * value))) -
+      lnGamma(1 - value)
+    );
+  }
+
+  const x = value - 1;
+  let sum = LANCZOS[0];
+  for (let index = 1; index < LANCZOS.length; index += 1) {
+    sum += LANCZOS[index] / (x + index);
+  }
+  const t = x + LANCZOS.length - 1.5;
+  return (
+    0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(sum)
+  );
+};
+
+const lnBeta = (a: number, b: number) =>
+  lnGamma(a) + lnGamma(b) - lnGamma(a + b);
+
+const logSumExp = (a: number, b: number) => {
+  const max = Math.max(a, b);
+  return max + Math.log(Math.exp(a - max) + Math.exp(b - max));
+};
+
+// Gauss hypergeometric series; converges for |z| < 1, which always holds here.
+export const hyp2f1 = (a: number, b: number, c: number, z: number) => {
+  let term = 1;
+  let sum = 1;
+  for (let n = 0; n < 20000; n += 1) {
+    term *= ((a + n) * (b + n) * z) / ((c + n) * (n + 1));
+    sum += term;
+    if (Math.abs(term) < 1e-12 * Math.abs(sum)) break;
+  }
+  return sum;
+};
+
+export const nelderMead = (
+  objective: (point: number[]) => number,
+  start: number[],
+  maxIterations = 2000,
+  tolerance = 1e-9,
+) => {
+  const dimension = start.length;
+  let simplex = [start];
+  for (let index = 0; index < dimension; index += 1) {
+    const point = [...start];
+    point[index] += 0.5;
+    simplex.push(point);
+  }
+  let values = simplex.map(objective);
+
+  const combine = (from: number[], to: number[], weight: number) =>
+    from.map((value, index) => value + weight * (to[index] - value));
+
+  for (let iteration = 0; iteration < maxIterations; iteration += 1) {
+    const order = values
+      .map((value, index) => ({ value, index }))
+      .sort((left, right) => left.value - right.value);
+    simplex = order.map((entry) => simplex[entry.index]);
+    values = order.map((entry) => entry.value);
+
+    if (Math.abs(values[dimension] - values[0]) < tolerance) break;
+
+    const centroid = Array.from(
+      { length: dimension },
+      (_, axis) =>
+        simplex
+          .slice(0, dimension)
+          .reduce((sum, point) => sum + point[axis], 0) / dimension,
+    );
+    const worst = simplex[dimension];
+
+    const reflected = combine(centroid, worst, -1);
+    const reflectedValue = objective(reflected);
+
+    if (reflectedValue < values[0]) {
+      const expanded = combine(centroid, worst, -2);
+      const expandedValue = objective(expanded);
+      if (expandedValue < reflectedValue) {
+        simplex[dimension] = expanded;
+        values[dimension] = expandedValue;
+      } else {
+        simplex[dimension] = reflected;
+        values[dimension] = reflectedValue;
+      }
+      continue;
+    }
+
+    if (reflectedValue < values[dimension - 1]) {
+      simplex[dimension] = reflected;
+      values[dimension] = reflectedValue;
+      continue;
+    }
+
+    const contracted = combine(centroid, worst, 0.5);
+    const contractedValue = objective(contracted);
+    if (contractedValue < values[dimension]) {
+      simplex[dimension] = contracted;
+      values[dimension] = contractedValue;
+      continue;
+    }
+
+    for (let index = 1; index <= dimension; index += 1) {
+      simplex[index] = combine(simplex[0], simplex[index], 0.5);
+      values[index] = objective(simplex[index]);
+    }
+  }
+
+  return simplex[values.indexOf(Math.min(...values))];
+};
+
+export const bgNbdLogLikelihood = (
+  { r, alpha, a, b }: BgNbdParams,
+  { frequency: x, recency, age }: PurchaseSummary,
+) => {
+  const a1 = lnGamma(r + x) - lnGamma(r) + r * Math.log(alpha);
+  const a2 = lnBeta(a, b + x) - lnBeta(a, b);
+  const a3 = -(r + x) * Math.log(alpha + age);
+  if (x === 0) return a1 + a2 + a3;
+
+  const a4 =
+    Math.log(a) - Math.log(b + x - 1) - (r + x) * Math.log(alpha + recency);
+  return a1 + a2 + logSumExp(a3, a4);
+};
+
+export const gammaGammaLogLikelihood = (
+  { p, q, gamma }: GammaGammaParams,
+  { frequency: x, monetary: m }: PurchaseSummary,
+) =>
+  lnGamma(p * x + q) -
+  lnGamma(p * x) -
+  lnGamma(q) +
+  q * Math.log(gamma) +
+  (p * x - 1) * Math.log(m) +
+  p * x * Math.log(x) -
+  (p * x + q) * Math.log(x * m + gamma);
+
+export const fitBgNbd = (summaries: PurchaseSummary[]): BgNbdParams => {
+  const toParams = (point: number[]) => ({
+    r: Math.exp(point[0]),
+    alpha: Math.exp(point[1]),
+    a: Math.exp(point[2]),
+    b: Math.exp(point[3]),
+  });
+
+  const objective = (point: number[]) => {
+    const params = toParams(point);
+    let total = 0;
+    for (const summary of summaries) {
+      total += bgNbdLogLikelihood(params, summary);
+    }
+    const value = -total / summaries.length;
+    return Number.isFinite(value) ? value : Number.MAX_VALUE;
+  };
+
+  return toParams(nelderMead(objective, [0, 0, 0, 0]));
+};
+
+export const fitGammaGamma = (
+  summaries: PurchaseSummary[],
+): GammaGammaParams => {
+  const toParams = (point: number[]) => ({
+    p: Math.exp(point[0]),
+    q: Math.exp(point[1]),
+    gamma: Math.exp(point[2]),
+  });
+
+  const objective = (point: number[]) => {
+    const params = toParams(point);
+    let total = 0;
+    for (const summary of summaries) {
+      total += gammaGammaLogLikelihood(params, summary);
+    }
+    const value = -total / summaries.length;
+    return Number.isFinite(value) ? value : Number.MAX_VALUE;
+  };
+
+  return toParams(nelderMead(objective, [0, 0, 0]));
+};
+
+export const probabilityAlive = (
+  { r, alpha, a, b }: BgNbdParams,
+  { frequency: x, recency, age }: PurchaseSummary,
+) => {
+  if (x === 0) return 1;
+  const ratio = Math.exp(
+    Math.log(a) -
+      Math.log(b + x - 1) +
+      (r + x) * (Math.log(alpha + age) - Math.log(alpha + recency)),
+  );
+  return 1 / (1 + ratio);
+};
+
+export const expectedPurchases = (
+  params: BgNbdParams,
+  summary: PurchaseSummary,
+  weeks: number,
+) => {
+  const { r, alpha, a, b } = params;
+  const { frequency: x, age } = summary;
+  const horizon = alpha + age + weeks;
+  const numerator =
+    ((a + b + x - 1) / (a - 1)) *
+    (1 -
+      Math.pow((alpha + age) / horizon, r + x) *
+        hyp2f1(r + x, b + x, a + b + x - 1, weeks / horizon));
+  // P(alive) carries the same denominator as the conditional expectation.
+  return Math.max(0, numerator * probabilityAlive(params, summary));
+};
+
+export const expectedOrderValue = (
+  { p, q, gamma }: GammaGammaParams,
+  { frequency: x, monetary: m }: PurchaseSummary,
+  fallback: number,
+) => {
+  if (x === 0 || p * x + q <= 1) return fallback;
+  return (p * (gamma + x * m)) / (p * x + q - 1);
+};
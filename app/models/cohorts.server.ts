@@ -0,0 +1,164 @@
+import prisma from "../db.server";
+import { getShopCurrency } from "./currency.server";
+
+export type CohortGranularity = "month" | "week";
+
+export type CohortCell = {
+  activeCustomers: number;
+  revenue: number;
+  cumulativeRevenue: number;
+};
+
+export type CohortRow = {
+  cohort: string;
+  customers: number;
+  periods: CohortCell[];
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const startOfPeriod = (date: Date, granularity: CohortGranularity) => {
+  if (granularity === "month") {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+  }
+
+  // Weeks start on Monday, matching ISO weeks.
+  const day = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+  );
+  const offset = (day.getUTCDay() + 6) % 7;
+  day.setUTCDate(day.getUTCDate() - offset);
+  return day;
+};
+
+export const periodsBetween = (
+  from: Date,
+  to: Date,
+  granularity: CohortGranularity,
+) => {
+  const start = startOfPeriod(from, granularity);
+  const end = startOfPeriod(to, granularity);
+
+  if (granularity === "month") {
+    return (
+      (end.getUTCFullYear() - start.getUTCFullYear()) * 12 +
+      end.getUTCMonth() -
+      start.getUTCMonth()
+    );
+  }
+
+  return Math.round((end.getTime() - start.getTime()) / (7 * DAY_MS));
+};
+
+export const periodLabel = (date: Date, granularity: CohortGranularity) => {
+  const start = startOfPeriod(date, granularity);
+  return granularity === "month"
+    ? start.toISOString().slice(0, 7)
+    : start.toISOString().slice(0, 10);
+};
+
+/**
+ * Groups customers by the period of their first order and follows each cohort
+ * through the periods after acquisition. Period 0 is the acquisition period.
+ * Cancelled orders are ignored.
+ */
+export const buildCohortMatrix = async (
+  shop: string,
+  {
+    start,
+    end,
+    granularity,
+    now = new Date(),
+  }: {
+    start: Date;
+    end: Date;
+    granularity: CohortGranularity;
+    now?: Date;
+  },
+) => {
+  const customers = await prisma.customer.findMany({
+    where: { shop, firstOrderAt: { gte: start, lte: end } },
+    select: { id: true, firstOrderAt: true },
+  });
+
+  const cohortByCustomer = new Map<string, Date>();
+  const cohorts = new Map<string, { start: Date; customers: number }>();
+  for (const customer of customers) {
+    if (!customer.firstOrderAt) continue;
+    const cohortStart = startOfPeriod(customer.firstOrderAt, granularity);
+    const key = periodLabel(cohortStart, granularity);
+    cohortByCustomer.set(customer.id, cohortStart);
+    const cohort = cohorts.get(key) || { start: cohortStart, customers: 0 };
+    cohort.customers += 1;
+    cohorts.set(key, cohort);
+  }
+
+  const orders = await prisma.order.findMany({
+    where: {
+      shop,
+      cancelledAt: null,
+      customerId: { not: null },
+      createdAt: { gte: start },
+    },
+    select: {
+      customerId: true,
+      createdAt: true,
+      totalPrice: true,
+    },
+  });
+
+  const rows = new Map<string, CohortRow>();
+  const activeSets = new Map<string, Array<Set<string>>>();
+
+  for (const [key, cohort] of cohorts) {
+    const elapsed = Math.max(0, periodsBetween(cohort.start, now, granularity));
+    rows.set(key, {
+      cohort: key,
+      customers: cohort.customers,
+      periods: Array.from({ length: elapsed + 1 }, () => ({
+        activeCustomers: 0,
+        revenue: 0,
+        cumulativeRevenue: 0,
+      })),
+    });
+    activeSets.set(
+      key,
+      Array.from({ length: elapsed + 1 }, () => new Set<string>()),
+    );
+  }
+
+  for (const order of orders) {
+    const customerId = order.customerId as string;
+    const cohortStart = cohortByCustomer.get(customerId);
+    if (!cohortStart) continue;
+
+    const key = periodLabel(cohortStart, granularity);
+    const row = rows.get(key) as CohortRow;
+    const index = periodsBetween(cohortStart, order.createdAt, granularity);
+    if (index < 0 || index >= row.periods.length) continue;
+
+    row.periods[index].revenue += order.totalPrice;
+    (activeSets.get(key) as Array<Set<string>>)[index].add(customerId);
+  }
+
+  for (const [key, row] of rows) {
+    const sets = activeSets.get(key) as Array<Set<string>>;
+    let cumulative = 0;
+    row.periods.forEach((cell, index) => {
+      cumulative += cell.revenue;
+      cell.cumulativeRevenue = cumulative;
+      cell.activeCustomers = sets[index].size;
+    });
+  }
+
+  const sortedRows = Array.from(rows.values()).sort((a, b) =>
+    a.cohort.localeCompare(b.cohort),
+  );
+
+  return {
+    rows: sortedRows,
+    maxPeriods: Math.max(0, ...sortedRows.map((row) => row.periods.length)),
+    // Order totals are stored in shop money, so the whole matrix shares it.
+    currencyCode: (await getShopCurrency(shop)) || "USD",
+  };
+};
@@ -0,0 +1,35 @@
+import type { Order } from "@prisma/client";
+import prisma from "../db.server";
+
+type OrderSpend = Pick<Order, "cancelledAt" | "totalPrice" | "currencyCode">;
+
+/**
+ * Sums a customer's gross spend in the shop currency from the shop money of
+ * their orders, which Shopify records at each order's own exchange rate.
+ * Cancelled orders are ignored. Returns null when the shop currency is unknown
+ * or an order was recorded in another one, as after the shop changed
+ * currency, so callers never sum mixed currencies.
+ */
+export const shopCurrencySpend = (
+  orders: OrderSpend[],
+  shopCurrencyCode: string | null,
+) => {
+  if (!shopCurrencyCode) return null;
+  let spend = 0;
+  for (const order of orders) {
+    if (order.cancelledAt) continue;
+    if (order.currencyCode && order.currencyCode !== shopCurrencyCode) {
+      return null;
+    }
+    spend += order.totalPrice;
+  }
+  return spend;
+};
+
+export const getShopCurrency = async (shop: string) => {
+  const state = await prisma.syncState.findUnique({
+    where: { shop },
+    select: { shopCurrencyCode: true },
+  });
+  return state?.shopCurrencyCode || null;
+};
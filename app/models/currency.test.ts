@@ -0,0 +1,50 @@
+import { describe, expect, it, vi } from "vitest";
+import { shopCurrencySpend } from "./currency.server";
+
+vi.mock("../db.server", () => ({ default: {} }));
+
+const order = (
+  totalPrice: number,
+  currencyCode: string | null,
+  cancelledAt: Date | null = null,
+) => ({ totalPrice, currencyCode, cancelledAt });
+
+describe("shopCurrencySpend", () => {
+  it("sums orders in the shop currency", () => {
+    expect(
+      shopCurrencySpend([order(40, "EUR"), order(2.5, "EUR")], "EUR"),
+    ).toBe(42.5);
+  });
+
+  it("skips cancelled orders", () => {
+    expect(
+      shopCurrencySpend(
+        [order(40, "EUR"), order(100, "EUR", new Date("2026-01-02"))],
+        "EUR",
+      ),
+    ).toBe(40);
+  });
+
+  it("refuses to sum mixed currencies", () => {
+    expect(
+      shopCurrencySpend([order(40, "EUR"), order(30, "USD")], "EUR"),
+    ).toBeNull();
+  });
+
+  it("ignores the currency of cancelled orders", () => {
+    expect(
+      shopCurrencySpend(
+        [order(40, "EUR"), order(30, "USD", new Date("2026-01-02"))],
+        "EUR",
+      ),
+    ).toBe(40);
+  });
+
+  it("needs the shop currency", () => {
+    expect(shopCurrencySpend([order(40, "EUR")], null)).toBeNull();
+  });
+
+  it("is zero without orders", () => {
+    expect(shopCurrencySpend([], "EUR")).toBe(0);
+  });
+});
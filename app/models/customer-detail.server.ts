@@ -0,0 +1,240 @@
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import { adminGraphql, adminNodes } from "../admin-graphql.server";
+import type { FirstVisit } from "./attribution";
+import { formatReferrerChannel, formatUtm } from "./attribution";
+
+const ORDERS_PAGE_SIZE = 100;
+const ADDRESSES_LIMIT = 20;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Journey = {
+  channel: string;
+  utm: string | null;
+  landingPage: string | null;
+};
+
+export type CustomerOrder = {
+  id: string;
+  name: string;
+  createdAt: string;
+  cancelled: boolean;
+  financialStatus: string | null;
+  total: number;
+  refunded: number;
+  cumulativeSpend: number;
+  daysSincePrevious: number | null;
+  journey: {
+    ready: boolean;
+    daysToConversion: number | null;
+    firstVisit: Journey | null;
+    lastVisit: Journey | null;
+  } | null;
+};
+
+export type CustomerDetail = {
+  id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  createdAt: string;
+  tags: string[];
+  addresses: Array<{ id: string; lines: string[]; isDefault: boolean }>;
+  currencyCode: string;
+  orders: CustomerOrder[];
+  totalSpent: number;
+  averageOrderValue: number | null;
+  averageDaysBetweenOrders: number | null;
+};
+
+const toJourney = (visit?: FirstVisit | null): Journey | null =>
+  visit
+    ? {
+        channel: formatReferrerChannel(visit),
+        utm: formatUtm(visit.utmParameters),
+        landingPage: visit.landingPage || null,
+      }
+    : null;
+
+const fetchCustomer = async (admin: AdminApiContext, id: string) => {
+  const data = await adminGraphql(
+    admin,
+    `#graphql
+      query CustomerDetail($id: ID!, $addresses: Int!) {
+        customer(id: $id) {
+          id
+          displayName
+          email
+          phone
+          createdAt
+          tags
+          defaultAddress {
+            id
+          }
+          addressesV2(first: $addresses) {
+            nodes {
+              id
+              formatted(withName: true, withCompany: true)
+            }
+          }
+        }
+      }`,
+    { id, addresses: ADDRESSES_LIMIT },
+  );
+
+  return data.customer;
+};
+
+const fetchCustomerOrders = async (admin: AdminApiContext, id: string) => {
+  const orders = await adminNodes(
+    admin,
+    `#graphql
+      query CustomerDetailOrders($id: ID!, $first: Int!, $after: String) {
+        customer(id: $id) {
+          orders(first: $first, after: $after, sortKey: CREATED_AT) {
+            nodes {
+              id
+              name
+              createdAt
+              cancelledAt
+              displayFinancialStatus
+              totalPriceSet {
+                shopMoney {
+                  amount
+                  currencyCode
+                }
+              }
+              totalRefundedSet {
+                shopMoney {
+                  amount
+                  currencyCode
+                }
+              }
+              customerJourneySummary {
+                ready
+                daysToConversion
+                firstVisit {
+                  source
+                  sourceType
+                  sourceDescription
+                  referrerUrl
+                  landingPage
+                  utmParameters {
+                    source
+                    medium
+                    campaign
+                    term
+                    content
+                  }
+                }
+                lastVisit {
+                  source
+                  sourceType
+                  sourceDescription
+                  referrerUrl
+                  landingPage
+                  utmParameters {
+                    source
+                    medium
+                    campaign
+                    term
+                    content
+                  }
+                }
+              }
+            }
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+          }
+        }
+      }`,
+    { id, first: ORDERS_PAGE_SIZE },
+    (data) => data.customer?.orders,
+  );
+
+  return orders || [];
+};
+
+/**
+ * Loads a customer's profile and full order history live from Shopify.
+ * Spend figures are in the shop currency and exclude cancelled orders, net of
+ * refunds, so the running total matches what the customer actually paid.
+ */
+export const fetchCustomerDetail = async (
+  admin: AdminApiContext,
+  id: string,
+): Promise<CustomerDetail | null> => {
+  const [customer, orderNodes] = await Promise.all([
+    fetchCustomer(admin, id),
+    fetchCustomerOrders(admin, id),
+  ]);
+  if (!customer) return null;
+
+  let cumulativeSpend = 0;
+  let previousOrderAt: number | null = null;
+  const gaps: number[] = [];
+  let currencyCode = "";
+
+  const orders = orderNodes.map((order): CustomerOrder => {
+    const cancelled = Boolean(order.cancelledAt);
+    const total = Number(order.totalPriceSet?.shopMoney.amount || 0);
+    const refunded = Number(order.totalRefundedSet?.shopMoney.amount || 0);
+    currencyCode ||= order.totalPriceSet?.shopMoney.currencyCode || "";
+
+    const createdAt = new Date(order.createdAt).getTime();
+    let daysSincePrevious: number | null = null;
+    if (!cancelled) {
+      cumulativeSpend += Math.max(0, total - refunded);
+      if (previousOrderAt !== null) {
+        daysSincePrevious = (createdAt - previousOrderAt) / DAY_MS;
+        gaps.push(daysSincePrevious);
+      }
+      previousOrderAt = createdAt;
+    }
+
+    const journey = order.customerJourneySummary;
+    return {
+      id: order.id,
+      name: order.name,
+      createdAt: order.createdAt,
+      cancelled,
+      financialStatus: order.displayFinancialStatus ?? null,
+      total,
+      refunded,
+      cumulativeSpend,
+      daysSincePrevious,
+      journey: journey
+        ? {
+            ready: journey.ready,
+            daysToConversion: journey.daysToConversion ?? null,
+            firstVisit: toJourney(journey.firstVisit),
+            lastVisit: toJourney(journey.lastVisit),
+          }
+        : null,
+    };
+  });
+
+  const paidOrders = orders.filter((order) => !order.cancelled).length;
+
+  return {
+    id: customer.id,
+    name: customer.displayName || customer.email || "Unknown",
+    email: customer.email ?? null,
+    phone: customer.phone ?? null,
+    createdAt: customer.createdAt,
+    tags: customer.tags,
+    addresses: customer.addressesV2.nodes.map((address) => ({
+      id: address.id,
+      lines: address.formatted,
+      isDefault: address.id === customer.defaultAddress?.id,
+    })),
+    currencyCode,
+    orders,
+    totalSpent: cumulativeSpend,
+    averageOrderValue: paidOrders ? cumulativeSpend / paidOrders : null,
+    averageDaysBetweenOrders: gaps.length
+      ? gaps.reduce((sum, gap) => sum + gap, 0) / gaps.length
+      : null,
+  };
+};
@@ -0,0 +1,471 @@
+import type { Customer } from "@prisma/client";
+import prisma from "../db.server";
+import type { ClvPrediction } from "./clv-model.server";
+import { getClvPredictions } from "./clv-model.server";
+import { filterExpressionMatcher } from "./filter-expression.server";
+import { getShopCurrency } from "./currency.server";
+import { getGrossProfitByCustomer } from "./gross-profit.server";
+import type { RevenueBasis } from "./revenue";
+import { parseRevenueBasis } from "./revenue";
+import { loadRevenueDeductions, netRevenue } from "./revenue.server";
+import type { RfmScore, RfmSegment } from "./rfm";
+import { parseRfmSegment, scoreRfm } from "./rfm";
+
+export type SortKey =
+  | "ltv_desc"
+  | "ltv_asc"
+  | "orders_desc"
+  | "orders_asc"
+  | "predicted_desc"
+  | "predicted_asc"
+  | "alive_desc"
+  | "alive_asc"
+  | "profit_desc"
+  | "profit_asc"
+  | "days_since_desc"
+  | "days_since_asc";
+export type TagsMode = "any" | "all";
+
+export type ReportCustomer = {
+  id: string;
+  name: string;
+  email: string;
+  totalSpent: number;
+  grossProfit: number;
+  ordersCount: number;
+  createdAt: string | null;
+  firstOrderDate: string | null;
+  lastOrderDate: string | null;
+  // Whole days since the last order, the average days between the customer's
+  // orders and when the next one is due at that pace. The cadence needs at
+  // least two orders; a customer is lapsed once their silence exceeds it by
+  // half again.
+  daysSinceLastOrder: number | null;
+  orderInterval: number | null;
+  expectedNextOrderDate: string | null;
+  lapsed: boolean;
+  tags: string[];
+  rfm: RfmScore | null;
+  predictedClv: number | null;
+  probabilityAlive: number | null;
+};
+
+/**
+ * The report's filter and sort settings as they appear in the URL and in a
+ * saved preset's config. Values stay as entered so forms can echo them back.
+ */
+export type ReportFilters = {
+  sort: SortKey;
+  query: string;
+  tags: string;
+  tagsMode: TagsMode;
+  minOrders: string;
+  maxOrders: string;
+  minSpent: string;
+  maxSpent: string;
+  minProfit: string;
+  maxProfit: string;
+  createdStart: string;
+  createdEnd: string;
+  firstOrderStart: string;
+  firstOrderEnd: string;
+  minDaysSince: string;
+  maxDaysSince: string;
+  lapsed: boolean;
+  // Only customers in the top RFM monetary quintile.
+  highClv: boolean;
+  segment: RfmSegment | null;
+  basis: RevenueBasis;
+  // The filter builder's serialized expression, applied on top of the fields
+  // above. Presets saved before the builder existed simply have none.
+  filter: string;
+};
+
+const parseSort = (value: string | null): SortKey => {
+  if (
+    value === "ltv_desc" ||
+    value === "ltv_asc" ||
+    value === "orders_desc" ||
+    value === "orders_asc" ||
+    value === "predicted_desc" ||
+    value === "predicted_asc" ||
+    value === "alive_desc" ||
+    value === "alive_asc" ||
+    value === "profit_desc" ||
+    value === "profit_asc" ||
+    value === "days_since_desc" ||
+    value === "days_since_asc"
+  ) {
+    return value;
+  }
+
+  return "ltv_desc";
+};
+
+const normalizeQuery = (value: string | null) =>
+  (value || "").trim().toLowerCase();
+
+const parseOptionalNumber = (value: string | null) => {
+  if (!value) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const parseDate = (value: string | null, endOfDay = false) => {
+  if (!value) return null;
+  const suffix = endOfDay ? "T23:59:59Z" : "T00:00:00Z";
+  const parsed = new Date(`${value}${suffix}`);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+};
+
+const parseTags = (value: string | null) =>
+  (value || "")
+    .split(",")
+    .map((tag) => tag.trim().toLowerCase())
+    .filter(Boolean);
+
+const parseTagsMode = (value: string | null): TagsMode =>
+  value === "all" ? "all" : "any";
+
+const parseStoredTags = (value: string) => {
+  try {
+    const tags = JSON.parse(value);
+    return Array.isArray(tags) ? tags.map(String) : [];
+  } catch {
+    return [];
+  }
+};
+
+export type ReportRow = Omit<
+  ReportCustomer,
+  "rfm" | "predictedClv" | "probabilityAlive"
+>;
+
+export type ReportContext = {
+  currencyCode: string;
+  deductions: Map<string, number>;
+  profits: Map<string, number>;
+  missingCostLineItems: number;
+  notConvertedCustomers: number;
+  // Recency is measured against one moment for every page of a run.
+  now: Date;
+};
+
+/**
+ * Selects the customers the report covers. Customers whose spend could not be
+ * put in the shop currency are left out rather than shown as spending nothing,
+ * and counted in the report context instead.
+ */
+export const reportCustomersWhere = (shop: string) => ({
+  shop,
+  amountSpentShop: { not: null },
+});
+
+/**
+ * Loads the shop-wide figures every report row needs, so customers can be
+ * turned into rows a page at a time.
+ */
+export const loadReportContext = async (
+  shop: string,
+  basis: RevenueBasis,
+): Promise<ReportContext> => {
+  const [shopCurrencyCode, deductions, grossProfit, notConvertedCustomers] =
+    await Promise.all([
+      getShopCurrency(shop),
+      loadRevenueDeductions(shop, basis),
+      getGrossProfitByCustomer(shop),
+      prisma.customer.count({ where: { shop, amountSpentShop: null } }),
+    ]);
+
+  return {
+    currencyCode: shopCurrencyCode || "USD",
+    deductions,
+    profits: grossProfit.profits,
+    missingCostLineItems: grossProfit.missingCostLineItems,
+    notConvertedCustomers,
+    now: new Date(),
+  };
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Order gaps vary, so a customer only counts as lapsed once they have been
+// quiet this many times their usual gap.
+const LAPSE_TOLERANCE = 1.5;
+// The RFM monetary score of the shop's top spending fifth.
+const HIGH_CLV_MONETARY_SCORE = 5;
+
+/**
+ * Measures how long a customer has been quiet against their own purchase
+ * cadence, the average gap between their first and last orders.
+ */
+const orderRecency = (customer: Customer, now: Date) => {
+  const { firstOrderAt, lastOrderAt, numberOfOrders } = customer;
+  if (!lastOrderAt) {
+    return {
+      daysSinceLastOrder: null,
+      orderInterval: null,
+      expectedNextOrderDate: null,
+      lapsed: false,
+    };
+  }
+
+  const daysSinceLastOrder = Math.max(
+    0,
+    Math.floor((now.getTime() - lastOrderAt.getTime()) / DAY_MS),
+  );
+  const orderInterval =
+    firstOrderAt && numberOfOrders > 1 && lastOrderAt > firstOrderAt
+      ? (lastOrderAt.getTime() - firstOrderAt.getTime()) /
+        DAY_MS /
+        (numberOfOrders - 1)
+      : null;
+
+  return {
+    daysSinceLastOrder,
+    orderInterval,
+    expectedNextOrderDate:
+      orderInterval === null
+        ? null
+        : new Date(
+            lastOrderAt.getTime() + orderInterval * DAY_MS,
+          ).toISOString(),
+    lapsed:
+      orderInterval !== null &&
+      daysSinceLastOrder > orderInterval * LAPSE_TOLERANCE,
+  };
+};
+
+export const toReportRow = (
+  customer: Customer,
+  context: ReportContext,
+): ReportRow => ({
+  id: customer.id,
+  name: customer.displayName || customer.email || "Unknown",
+  email: customer.email || "-",
+  // Only customers matching reportCustomersWhere are turned into rows.
+  totalSpent: netRevenue(
+    customer.amountSpentShop as number,
+    customer.id,
+    context.deductions,
+  ),
+  grossProfit: context.profits.get(customer.id) || 0,
+  ordersCount: customer.numberOfOrders,
+  createdAt: customer.createdAt?.toISOString() || null,
+  firstOrderDate: customer.firstOrderAt?.toISOString() || null,
+  lastOrderDate: customer.lastOrderAt?.toISOString() || null,
+  ...orderRecency(customer, context.now),
+  tags: parseStoredTags(customer.tags).map((tag) => tag.toLowerCase()),
+});
+
+type SortValue = (customer: ReportCustomer) => number;
+
+// Each sort's value and the tie-breaker after it. Missing values sort as -1,
+// below every real one.
+const SORT_VALUES: Record<string, [SortValue, SortValue]> = {
+  ltv: [(customer) => customer.totalSpent, (customer) => customer.ordersCount],
+  orders: [
+    (customer) => customer.ordersCount,
+    (customer) => customer.totalSpent,
+  ],
+  predicted: [
+    (customer) => customer.predictedClv ?? -1,
+    (customer) => customer.totalSpent,
+  ],
+  alive: [
+    (customer) => customer.probabilityAlive ?? -1,
+    (customer) => customer.totalSpent,
+  ],
+  profit: [
+    (customer) => customer.grossProfit,
+    (customer) => customer.totalSpent,
+  ],
+  days_since: [
+    (customer) => customer.daysSinceLastOrder ?? -1,
+    (customer) => customer.totalSpent,
+  ],
+};
+
+const compareBy = (key: string, direction: "asc" | "desc") => {
+  const [value, tieBreaker] = SORT_VALUES[key];
+  const sign = direction === "asc" ? 1 : -1;
+  return (a: ReportCustomer, b: ReportCustomer) =>
+    sign * (value(a) - value(b) || tieBreaker(a) - tieBreaker(b));
+};
+
+const sortCustomers = (customers: ReportCustomer[], sort: SortKey) => {
+  const separator = sort.lastIndexOf("_");
+  return [...customers].sort(
+    compareBy(
+      sort.slice(0, separator),
+      sort.slice(separator + 1) as "asc" | "desc",
+    ),
+  );
+};
+
+export const parseReportFilters = (params: URLSearchParams): ReportFilters => ({
+  sort: parseSort(params.get("sort")),
+  query: normalizeQuery(params.get("q")),
+  tags: params.get("tags") || "",
+  tagsMode: parseTagsMode(params.get("tags_mode")),
+  minOrders: params.get("min_orders") || "",
+  maxOrders: params.get("max_orders") || "",
+  minSpent: params.get("min_spent") || "",
+  maxSpent: params.get("max_spent") || "",
+  minProfit: params.get("min_profit") || "",
+  maxProfit: params.get("max_profit") || "",
+  createdStart: params.get("created_start") || "",
+  createdEnd: params.get("created_end") || "",
+  firstOrderStart: params.get("first_order_start") || "",
+  firstOrderEnd: params.get("first_order_end") || "",
+  minDaysSince: params.get("min_days_since") || "",
+  maxDaysSince: params.get("max_days_since") || "",
+  lapsed: params.get("lapsed") === "1",
+  highClv: params.get("high_clv") === "1",
+  segment: parseRfmSegment(params.get("segment")),
+  basis: parseRevenueBasis(params.get("basis")),
+  filter: params.get("filter") || "",
+});
+
+/**
+ * Loads every customer and applies the report filters and sort in one go.
+ * Used where a blocking run is fine, such as scheduled emails; the report page
+ * builds the same result in the background through report runs.
+ */
+export const runCustomerReport = async (
+  shop: string,
+  filters: ReportFilters,
+) => {
+  const [rows, context] = await Promise.all([
+    prisma.customer.findMany({ where: reportCustomersWhere(shop) }),
+    loadReportContext(shop, filters.basis),
+  ]);
+  const { predictions } = await getClvPredictions(shop);
+
+  return {
+    ...applyReportFilters(
+      rows.map((row) => toReportRow(row, context)),
+      filters,
+      predictions,
+    ),
+    currencyCode: context.currencyCode,
+    missingCostLineItems: context.missingCostLineItems,
+    notConvertedCustomers: context.notConvertedCustomers,
+  };
+};
+
+/**
+ * Scores every row for RFM and CLV, then applies the report filters and sort.
+ * Also returns the rows matching every filter but the RFM segment, so segment
+ * summaries can offer every segment.
+ */
+export const applyReportFilters = (
+  rows: ReportRow[],
+  filters: ReportFilters,
+  predictions: Map<string, ClvPrediction>,
+) => {
+  const { sort, query, tagsMode, segment } = filters;
+  const tagsList = parseTags(filters.tags);
+  const minOrdersValue = parseOptionalNumber(filters.minOrders);
+  const maxOrdersValue = parseOptionalNumber(filters.maxOrders);
+  const minSpentValue = parseOptionalNumber(filters.minSpent);
+  const maxSpentValue = parseOptionalNumber(filters.maxSpent);
+  const minProfitValue = parseOptionalNumber(filters.minProfit);
+  const maxProfitValue = parseOptionalNumber(filters.maxProfit);
+  const createdStartDate = parseDate(filters.createdStart, false);
+  const createdEndDate = parseDate(filters.createdEnd, true);
+  const firstOrderStartDate = parseDate(filters.firstOrderStart, false);
+  const firstOrderEndDate = parseDate(filters.firstOrderEnd, true);
+  const minDaysSinceValue = parseOptionalNumber(filters.minDaysSince);
+  const maxDaysSinceValue = parseOptionalNumber(filters.maxDaysSince);
+  const matchesExpression = filterExpressionMatcher(filters.filter);
+
+  // Quintiles are computed across the whole shop before any filtering.
+  const scores = scoreRfm(rows);
+  const customers: ReportCustomer[] = rows.map((row) => ({
+    ...row,
+    rfm: scores.get(row.id) || null,
+    predictedClv: predictions.get(row.id)?.predictedClv ?? null,
+    probabilityAlive: predictions.get(row.id)?.probabilityAlive ?? null,
+  }));
+  const matching = customers.filter((customer) => {
+    if (query) {
+      const name = customer.name.toLowerCase();
+      const email = customer.email.toLowerCase();
+      if (!name.includes(query) && !email.includes(query)) {
+        return false;
+      }
+    }
+
+    if (minOrdersValue !== null && customer.ordersCount < minOrdersValue) {
+      return false;
+    }
+
+    if (maxOrdersValue !== null && customer.ordersCount > maxOrdersValue) {
+      return false;
+    }
+
+    if (minSpentValue !== null && customer.totalSpent < minSpentValue) {
+      return false;
+    }
+
+    if (maxSpentValue !== null && customer.totalSpent > maxSpentValue) {
+      return false;
+    }
+
+    if (minProfitValue !== null && customer.grossProfit < minProfitValue) {
+      return false;
+    }
+
+    if (maxProfitValue !== null && customer.grossProfit > maxProfitValue) {
+      return false;
+    }
+
+    if (tagsList.length) {
+      const hasTag = (tag: string) => customer.tags.includes(tag);
+      const matches =
+        tagsMode === "all" ? tagsList.every(hasTag) : tagsList.some(hasTag);
+      if (!matches) return false;
+    }
+
+    if (createdStartDate || createdEndDate) {
+      if (!customer.createdAt) return false;
+      const createdAt = new Date(customer.createdAt);
+      if (createdStartDate && createdAt < createdStartDate) return false;
+      if (createdEndDate && createdAt > createdEndDate) return false;
+    }
+
+    if (firstOrderStartDate || firstOrderEndDate) {
+      if (!customer.firstOrderDate) return false;
+      const firstOrderDate = new Date(customer.firstOrderDate);
+      if (firstOrderStartDate && firstOrderDate < firstOrderStartDate) {
+        return false;
+      }
+      if (firstOrderEndDate && firstOrderDate > firstOrderEndDate) {
+        return false;
+      }
+    }
+
+    if (minDaysSinceValue !== null || maxDaysSinceValue !== null) {
+      const days = customer.daysSinceLastOrder;
+      if (days === null) return false;
+      if (minDaysSinceValue !== null && days < minDaysSinceValue) return false;
+      if (maxDaysSinceValue !== null && days > maxDaysSinceValue) return false;
+    }
+
+    if (filters.lapsed && !customer.lapsed) return false;
+
+    if (filters.highClv && customer.rfm?.monetary !== HIGH_CLV_MONETARY_SCORE) {
+      return false;
+    }
+
+    return matchesExpression(customer);
+  });
+  const filtered = segment
+    ? matching.filter((customer) => customer.rfm?.segment === segment)
+    : matching;
+
+  return {
+    customers: sortCustomers(filtered, sort),
+    matching,
+  };
+};
@@ -0,0 +1,304 @@
+import type { TagOperation } from "@prisma/client";
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import { adminGraphql } from "../admin-graphql.server";
+import prisma from "../db.server";
+import { unauthenticated } from "../shopify.server";
+import type { ReportCustomer } from "./customer-report.server";
+
+export type TagAction = "add" | "remove";
+
+export type TagOperationStatus = "pending" | "running" | "completed" | "failed";
+
+// tagsAdd and tagsRemove each cost 10 points, so a batch of 10 aliased
+// mutations stays well inside the 1,000 point bucket of a standard shop.
+const BATCH_SIZE = 10;
+// Running operations touch updatedAt after every batch. One that has been
+// quiet this long was interrupted by a restart and is picked up again.
+const STALE_AFTER_MS = 2 * 60 * 1000;
+
+type BatchResult = Record<
+  string,
+  { userErrors: Array<{ message: string }> } | null
+> | null;
+
+export const parseTagAction = (value: string | null): TagAction | null =>
+  value === "add" || value === "remove" ? value : null;
+
+const needsChange = (
+  customer: ReportCustomer,
+  tag: string,
+  action: TagAction,
+) => {
+  // Report customers carry lower-cased tags; Shopify matches tags without
+  // regard to case.
+  const hasTag = customer.tags.includes(tag.toLowerCase());
+  return action === "add" ? !hasTag : hasTag;
+};
+
+/**
+ * Counts how many of the matching customers the operation would change,
+ * using the synced tags. Customers that already have (or lack) the tag are
+ * left alone so undo never touches tags the operation did not set.
+ */
+export const previewTagOperation = (
+  customers: ReportCustomer[],
+  tag: string,
+  action: TagAction,
+) => ({
+  matching: customers.length,
+  changes: customers.filter((customer) => needsChange(customer, tag, action))
+    .length,
+});
+
+export const listTagOperations = (shop: string, take = 10) =>
+  prisma.tagOperation.findMany({
+    where: { shop },
+    orderBy: { createdAt: "desc" },
+    take,
+  });
+
+const createOperation = (
+  shop: string,
+  data: {
+    tag: string;
+    action: TagAction;
+    config: string;
+    undoOfId?: string;
+  },
+  customerIds: string[],
+) =>
+  prisma.tagOperation.create({
+    data: {
+      shop,
+      ...data,
+      total: customerIds.length,
+      status: customerIds.length ? "pending" : "completed",
+      customers: {
+        create: customerIds.map((customerId) => ({ customerId })),
+      },
+    },
+  });
+
+export const createTagOperation = (
+  shop: string,
+  input: {
+    tag: string;
+    action: TagAction;
+    config: Record<string, string>;
+    customers: ReportCustomer[];
+  },
+) =>
+  createOperation(
+    shop,
+    {
+      tag: input.tag,
+      action: input.action,
+      config: JSON.stringify(input.config),
+    },
+    input.customers
+      .filter((customer) => needsChange(customer, input.tag, input.action))
+      .map((customer) => customer.id),
+  );
+
+/**
+ * Reverses a finished operation for exactly the customers it changed. The
+ * undo is itself an operation, so it shows progress the same way.
+ */
+export const undoTagOperation = async (shop: string, id: string) => {
+  const operation = await prisma.tagOperation.findFirst({
+    where: { id, shop },
+  });
+  if (
+    !operation ||
+    operation.undoneAt ||
+    operation.undoOfId ||
+    (operation.status !== "completed" && operation.status !== "failed")
+  ) {
+    return null;
+  }
+
+  const changed = await prisma.tagOperationCustomer.findMany({
+    where: { operationId: id, status: "done" },
+    select: { customerId: true },
+  });
+
+  const [undo] = await prisma.$transaction([
+    createOperation(
+      shop,
+      {
+        tag: operation.tag,
+        action: operation.action === "add" ? "remove" : "add",
+        config: operation.config,
+        undoOfId: operation.id,
+      },
+      changed.map(({ customerId }) => customerId),
+    ),
+    prisma.tagOperation.update({
+      where: { id: operation.id },
+      data: { undoneAt: new Date() },
+    }),
+  ]);
+
+  return undo;
+};
+
+const buildBatchMutation = (action: TagAction, size: number) => {
+  const field = action === "add" ? "tagsAdd" : "tagsRemove";
+  const variables = Array.from(
+    { length: size },
+    (_, index) => `$id${index}: ID!`,
+  );
+  const fields = Array.from(
+    { length: size },
+    (_, index) =>
+      `c${index}: ${field}(id: $id${index}, tags: $tags) { userErrors { message } }`,
+  );
+
+  return `mutation TagCustomers($tags: [String!]!, ${variables.join(", ")}) {
+    ${fields.join("\n    ")}
+  }`;
+};
+
+const sendBatch = async (
+  admin: AdminApiContext,
+  operation: TagOperation,
+  customerIds: string[],
+) => {
+  const variables: Record<string, unknown> = { tags: [operation.tag] };
+  customerIds.forEach((customerId, index) => {
+    variables[`id${index}`] = customerId;
+  });
+
+  // The client already waits out throttling and retries transient failures,
+  // so an error here fails the whole batch.
+  let data: BatchResult;
+  try {
+    data = await adminGraphql(
+      admin,
+      buildBatchMutation(operation.action as TagAction, customerIds.length),
+      variables,
+    );
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Tag update failed.";
+    return customerIds.map((customerId) => ({ customerId, error: message }));
+  }
+
+  return customerIds.map((customerId, index) => {
+    const result = data?.[`c${index}`];
+    const message = result
+      ? result.userErrors.map((error) => error.message).join("; ")
+      : "No result returned.";
+    return { customerId, error: message || null };
+  });
+};
+
+const runOperation = async (operation: TagOperation) => {
+  try {
+    const { admin } = await unauthenticated.admin(operation.shop);
+
+    for (;;) {
+      const batch = await prisma.tagOperationCustomer.findMany({
+        where: { operationId: operation.id, status: "pending" },
+        take: BATCH_SIZE,
+      });
+      if (!batch.length) break;
+
+      const results = await sendBatch(
+        admin,
+        operation,
+        batch.map((item) => item.customerId),
+      );
+      const failed = results.filter((result) => result.error).length;
+
+      await prisma.$transaction([
+        ...results.map((result) =>
+          prisma.tagOperationCustomer.update({
+            where: {
+              operationId_customerId: {
+                operationId: operation.id,
+                customerId: result.customerId,
+              },
+            },
+            data: {
+              status: result.error ? "failed" : "done",
+              error: result.error,
+            },
+          }),
+        ),
+        prisma.tagOperation.update({
+          where: { id: operation.id },
+          data: {
+            processed: { increment: results.length },
+            failed: { increment: failed },
+          },
+        }),
+      ]);
+    }
+
+    const failures = await prisma.tagOperationCustomer.count({
+      where: { operationId: operation.id, status: "failed" },
+    });
+    await prisma.tagOperation.update({
+      where: { id: operation.id },
+      data: {
+        status: failures ? "failed" : "completed",
+        error: failures ? `${failures} customers could not be updated.` : null,
+      },
+    });
+  } catch (error) {
+    console.error(`Tag operation ${operation.id} failed`, error);
+    await prisma.tagOperation.update({
+      where: { id: operation.id },
+      data: {
+        status: "failed",
+        error: error instanceof Error ? error.message : "Tag update failed.",
+      },
+    });
+  }
+};
+
+/**
+ * Starts a pending operation in the background of the app server. The claim
+ * makes sure only one process works on an operation at a time.
+ */
+export const startTagOperation = async (id: string) => {
+  const claimed = await prisma.tagOperation.updateMany({
+    where: { id, status: "pending" },
+    data: { status: "running" },
+  });
+  if (!claimed.count) return;
+
+  const operation = await prisma.tagOperation.findUnique({ where: { id } });
+  if (operation) void runOperation(operation);
+};
+
+/**
+ * Picks up operations that stopped part way, such as after a deploy. Only
+ * customers still marked pending are sent again.
+ */
+export const resumeTagOperations = async (now = new Date()) => {
+  const stale = await prisma.tagOperation.findMany({
+    where: {
+      OR: [
+        { status: "pending" },
+        {
+          status: "running",
+          updatedAt: { lt: new Date(now.getTime() - STALE_AFTER_MS) },
+        },
+      ],
+    },
+  });
+
+  for (const operation of stale) {
+    const claimed = await prisma.tagOperation.updateMany({
+      where: {
+        id: operation.id,
+        status: operation.status,
+        updatedAt: operation.updatedAt,
+      },
+      data: { status: "running" },
+    });
+    if (claimed.count) void runOperation(operation);
+  }
+};
@@ -0,0 +1,145 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import prisma from "../db.server";
+import type { ReportCustomer } from "./customer-report.server";
+import {
+  createTagOperation,
+  previewTagOperation,
+  undoTagOperation,
+} from "./customer-tags.server";
+
+vi.mock("../db.server", () => ({
+  default: {
+    tagOperation: { create: vi.fn(), findFirst: vi.fn(), update: vi.fn() },
+    tagOperationCustomer: { findMany: vi.fn() },
+    $transaction: vi.fn(),
+  },
+}));
+vi.mock("../shopify.server", () => ({ unauthenticated: {} }));
+
+const shop = "example.myshopify.com";
+
+const customer = (id: string, tags: string[]) =>
+  ({ id, tags }) as ReportCustomer;
+
+// Report customers carry lower-cased tags.
+const customers = [
+  customer("customer-1", ["vip"]),
+  customer("customer-2", []),
+  customer("customer-3", ["wholesale"]),
+];
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  vi.mocked(prisma.tagOperation.create).mockImplementation(
+    ((args: unknown) => args) as never,
+  );
+  vi.mocked(prisma.$transaction).mockImplementation(
+    (async (operations: unknown[]) => operations) as never,
+  );
+});
+
+describe("previewTagOperation", () => {
+  it("counts only the customers whose tags would change", () => {
+    expect(previewTagOperation(customers, "VIP", "add")).toEqual({
+      matching: 3,
+      changes: 2,
+    });
+    expect(previewTagOperation(customers, "VIP", "remove")).toEqual({
+      matching: 3,
+      changes: 1,
+    });
+  });
+});
+
+describe("createTagOperation", () => {
+  it("queues the customers that lack the tag being added", async () => {
+    await createTagOperation(shop, {
+      tag: "VIP",
+      action: "add",
+      config: { sort: "ltv_desc" },
+      customers,
+    });
+
+    expect(prisma.tagOperation.create).toHaveBeenCalledWith({
+      data: {
+        shop,
+        tag: "VIP",
+        action: "add",
+        config: '{"sort":"ltv_desc"}',
+        total: 2,
+        status: "pending",
+        customers: {
+          create: [{ customerId: "customer-2" }, { customerId: "customer-3" }],
+        },
+      },
+    });
+  });
+
+  it("completes at once when no customer needs a change", async () => {
+    await createTagOperation(shop, {
+      tag: "vip",
+      action: "remove",
+      config: {},
+      customers: [customer("customer-2", [])],
+    });
+
+    expect(prisma.tagOperation.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ total: 0, status: "completed" }),
+    });
+  });
+});
+
+describe("undoTagOperation", () => {
+  const operation = {
+    id: "operation-1",
+    shop,
+    tag: "VIP",
+    action: "add",
+    config: "{}",
+    status: "completed",
+    undoOfId: null,
+    undoneAt: null,
+  };
+
+  it("reverses the operation for the customers it changed", async () => {
+    vi.mocked(prisma.tagOperation.findFirst).mockResolvedValue(
+      operation as never,
+    );
+    vi.mocked(prisma.tagOperationCustomer.findMany).mockResolvedValue([
+      { customerId: "customer-2" },
+    ] as never);
+
+    await undoTagOperation(shop, operation.id);
+
+    expect(prisma.tagOperationCustomer.findMany).toHaveBeenCalledWith({
+      where: { operationId: operation.id, status: "done" },
+      select: { customerId: true },
+    });
+    expect(prisma.tagOperation.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        action: "remove",
+        undoOfId: operation.id,
+        customers: { create: [{ customerId: "customer-2" }] },
+      }),
+    });
+    expect(prisma.tagOperation.update).toHaveBeenCalledWith({
+      where: { id: operation.id },
+      data: { undoneAt: expect.any(Date) },
+    });
+  });
+
+  it("does not undo a running, undone or undo operation", async () => {
+    for (const changes of [
+      { status: "running" },
+      { undoneAt: new Date() },
+      { undoOfId: "operation-0" },
+    ]) {
+      vi.mocked(prisma.tagOperation.findFirst).mockResolvedValue({
+        ...operation,
+        ...changes,
+      } as never);
+      expect(await undoTagOperation(shop, operation.id)).toBeNull();
+    }
+    expect(prisma.tagOperation.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,11 @@
+const CUSTOMER_GID_PREFIX = "gid://shopify/Customer/";
+
+/**
+ * Customer detail URLs use the numeric ID so links stay readable; the GID is
+ * rebuilt on the server.
+ */
+export const customerPath = (id: string) =>
+  `/app/customers/${id.replace(CUSTOMER_GID_PREFIX, "")}`;
+
+export const customerGid = (param: string | undefined) =>
+  param && /^\d+$/.test(param) ? `${CUSTOMER_GID_PREFIX}${param}` : null;
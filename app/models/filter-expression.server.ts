@@ -0,0 +1,169 @@
+import type { ReportCustomer } from "./customer-report.server";
+import type { FilterCondition, FilterExpression } from "./filter-expression";
+import { filterFieldType, parseFilterExpression } from "./filter-expression";
+import { parseRfmSegment } from "./rfm";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const parseNumber = (value: string) => {
+  if (!value.trim()) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const parseDay = (value: string) => (DATE_PATTERN.test(value) ? value : null);
+
+const textValue = (customer: ReportCustomer, field: string) => {
+  if (field === "email") return customer.email === "-" ? "" : customer.email;
+  return customer.name;
+};
+
+const numberValue = (customer: ReportCustomer, field: string) => {
+  switch (field) {
+    case "orders":
+      return customer.ordersCount;
+    case "spent":
+      return customer.totalSpent;
+    case "profit":
+      return customer.grossProfit;
+    case "predicted_clv":
+      return customer.predictedClv;
+    case "probability_alive":
+      return customer.probabilityAlive === null
+        ? null
+        : customer.probabilityAlive * 100;
+    case "days_since":
+      return customer.daysSinceLastOrder;
+    case "order_interval":
+      return customer.orderInterval;
+    default:
+      return null;
+  }
+};
+
+// Dates compare as UTC calendar days, like the report's date filters.
+const dayValue = (customer: ReportCustomer, field: string) => {
+  const value =
+    field === "created"
+      ? customer.createdAt
+      : field === "first_order"
+        ? customer.firstOrderDate
+        : field === "last_order"
+          ? customer.lastOrderDate
+          : customer.expectedNextOrderDate;
+  return value ? value.slice(0, 10) : null;
+};
+
+/**
+ * Compares a value against a condition's bounds. Returns null when the
+ * condition has no usable bound yet, so an unfinished row does not filter.
+ */
+const compare = <T extends number | string>(
+  actual: T | null,
+  condition: FilterCondition,
+  parse: (value: string) => T | null,
+) => {
+  const value = parse(condition.value);
+  const valueTo = parse(condition.valueTo);
+
+  if (condition.operator === "between") {
+    if (value === null && valueTo === null) return null;
+    if (actual === null) return false;
+    return (
+      (value === null || actual >= value) &&
+      (valueTo === null || actual <= valueTo)
+    );
+  }
+
+  if (value === null) return null;
+  if (actual === null) return false;
+  switch (condition.operator) {
+    case "eq":
+      return actual === value;
+    case "gt":
+      return actual > value;
+    case "gte":
+      return actual >= value;
+    case "lt":
+      return actual < value;
+    case "lte":
+      return actual <= value;
+    default:
+      return null;
+  }
+};
+
+const evaluateCondition = (
+  customer: ReportCustomer,
+  condition: FilterCondition,
+): boolean | null => {
+  const { field, operator } = condition;
+  const value = condition.value.trim().toLowerCase();
+
+  switch (filterFieldType(field)) {
+    case "text": {
+      const text = textValue(customer, field).toLowerCase();
+      if (operator === "empty") return !text;
+      if (!value) return null;
+      return operator === "contains" ? text.includes(value) : text === value;
+    }
+    case "tags":
+      if (operator === "empty") return customer.tags.length === 0;
+      if (!value) return null;
+      return operator === "contains"
+        ? customer.tags.some((tag) => tag.includes(value))
+        : customer.tags.includes(value);
+    case "number": {
+      const actual = numberValue(customer, field);
+      if (operator === "empty") return actual === null;
+      return compare(actual, condition, parseNumber);
+    }
+    case "date": {
+      const actual = dayValue(customer, field);
+      if (operator === "empty") return actual === null;
+      return compare(actual, condition, parseDay);
+    }
+    case "boolean":
+      return customer.lapsed === (value === "true");
+    case "segment": {
+      if (operator === "empty") return !customer.rfm;
+      const segment = parseRfmSegment(condition.value);
+      return segment ? customer.rfm?.segment === segment : null;
+    }
+  }
+};
+
+/**
+ * Evaluates a node to true or false, or null when nothing in it constrains
+ * the result yet. Empty groups and unfinished conditions are ignored by the
+ * group around them, and negating them keeps them ignored.
+ */
+const evaluate = (
+  customer: ReportCustomer,
+  expression: FilterExpression,
+): boolean | null => {
+  let result: boolean | null;
+  if (expression.type === "condition") {
+    result = evaluateCondition(customer, expression);
+  } else {
+    const results = expression.children
+      .map((child) => evaluate(customer, child))
+      .filter((child): child is boolean => child !== null);
+    result = !results.length
+      ? null
+      : expression.combinator === "or"
+        ? results.some(Boolean)
+        : results.every(Boolean);
+  }
+  return result === null || !expression.negate ? result : !result;
+};
+
+/**
+ * Builds the report's matcher for a `filter` param. A missing or malformed
+ * expression matches every customer, like an empty flat filter.
+ */
+export const filterExpressionMatcher = (value: string) => {
+  const expression = parseFilterExpression(value);
+  return (customer: ReportCustomer) =>
+    !expression || evaluate(customer, expression) !== false;
+};
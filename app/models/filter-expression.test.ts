@@ -0,0 +1,192 @@
+import { describe, expect, it } from "vitest";
+import type { ReportCustomer } from "./customer-report.server";
+import {
+  MAX_FILTER_CONDITIONS,
+  MAX_FILTER_DEPTH,
+  newFilterCondition,
+  parseFilterExpression,
+  serializeFilterExpression,
+} from "./filter-expression";
+import { filterExpressionMatcher } from "./filter-expression.server";
+
+const customer: ReportCustomer = {
+  id: "gid://shopify/Customer/1",
+  name: "Ada Lovelace",
+  email: "ada@example.com",
+  totalSpent: 250,
+  grossProfit: 100,
+  ordersCount: 3,
+  createdAt: "2026-01-05T10:00:00.000Z",
+  firstOrderDate: "2026-01-10T10:00:00.000Z",
+  lastOrderDate: "2026-03-01T10:00:00.000Z",
+  daysSinceLastOrder: 40,
+  orderInterval: 25,
+  expectedNextOrderDate: "2026-03-26T10:00:00.000Z",
+  lapsed: true,
+  tags: ["vip", "wholesale"],
+  rfm: { recency: 3, frequency: 4, monetary: 5, segment: "loyal_customers" },
+  predictedClv: 320,
+  probabilityAlive: 0.6,
+};
+
+// A condition wrapped in `groups` nested groups.
+const nested = (groups: number): unknown =>
+  groups ? { and: [nested(groups - 1)] } : ["orders", "gt", "1"];
+
+const matches = (filter: unknown) =>
+  filterExpressionMatcher(JSON.stringify(filter))(customer);
+
+describe("parseFilterExpression", () => {
+  it("round-trips through serialization", () => {
+    const filter = JSON.stringify({
+      or: [
+        ["spent", "between", "100", "500"],
+        {
+          not: {
+            and: [
+              ["tags", "eq", "vip"],
+              ["lapsed", "eq", "true"],
+            ],
+          },
+        },
+        { not: ["email", "empty"] },
+      ],
+    });
+    const parsed = parseFilterExpression(filter);
+
+    expect(parsed?.combinator).toBe("or");
+    expect(parsed?.children[1]).toMatchObject({ type: "group", negate: true });
+    expect(parsed && serializeFilterExpression(parsed)).toBe(filter);
+  });
+
+  it("wraps a lone condition in a root group", () => {
+    expect(parseFilterExpression('["orders","gt","1"]')).toEqual({
+      type: "group",
+      combinator: "and",
+      negate: false,
+      children: [
+        {
+          type: "condition",
+          field: "orders",
+          operator: "gt",
+          value: "1",
+          valueTo: "",
+          negate: false,
+        },
+      ],
+    });
+  });
+
+  it("rejects malformed input as a whole", () => {
+    expect(parseFilterExpression("not json")).toBeNull();
+    expect(parseFilterExpression('["unknown","eq","1"]')).toBeNull();
+    expect(parseFilterExpression('["lapsed","gt","1"]')).toBeNull();
+    expect(
+      parseFilterExpression('{"and":[["orders","gt","1"],{"xor":[]}]}'),
+    ).toBeNull();
+  });
+
+  it("limits how deep groups nest", () => {
+    expect(
+      parseFilterExpression(JSON.stringify(nested(MAX_FILTER_DEPTH + 1))),
+    ).not.toBeNull();
+    expect(
+      parseFilterExpression(JSON.stringify(nested(MAX_FILTER_DEPTH + 2))),
+    ).toBeNull();
+  });
+
+  it("collapses chains of negations", () => {
+    // Deep enough to overflow the stack if each negation recursed.
+    const chain = `${'{"not":'.repeat(100001)}["orders","gt","1"]${"}".repeat(100001)}`;
+    expect(parseFilterExpression(chain)?.children[0].negate).toBe(true);
+
+    let tooDeep: unknown = nested(1);
+    for (let index = 0; index < MAX_FILTER_DEPTH + 1; index += 1) {
+      tooDeep = { and: [{ not: { not: tooDeep } }] };
+    }
+    expect(parseFilterExpression(JSON.stringify(tooDeep))).toBeNull();
+  });
+
+  it("limits the number of conditions", () => {
+    const conditions = (count: number) =>
+      JSON.stringify({ and: Array(count).fill(["orders", "gt", "1"]) });
+    expect(
+      parseFilterExpression(conditions(MAX_FILTER_CONDITIONS)),
+    ).not.toBeNull();
+    expect(parseFilterExpression(conditions(MAX_FILTER_CONDITIONS + 1))).toBe(
+      null,
+    );
+  });
+
+  it("serializes an expression without conditions to an empty string", () => {
+    expect(
+      serializeFilterExpression({
+        type: "group",
+        combinator: "and",
+        negate: false,
+        children: [],
+      }),
+    ).toBe("");
+    expect(
+      serializeFilterExpression({
+        type: "group",
+        combinator: "and",
+        negate: false,
+        children: [newFilterCondition("segment")],
+      }),
+    ).toBe('{"and":[["segment","eq","champions"]]}');
+  });
+});
+
+describe("filterExpressionMatcher", () => {
+  it("evaluates each field type", () => {
+    expect(matches(["name", "contains", "love"])).toBe(true);
+    expect(matches(["email", "eq", "ADA@example.com"])).toBe(true);
+    expect(matches(["tags", "eq", "vip"])).toBe(true);
+    expect(matches(["tags", "empty"])).toBe(false);
+    expect(matches(["spent", "between", "200", "300"])).toBe(true);
+    expect(matches(["probability_alive", "gte", "60"])).toBe(true);
+    expect(matches(["last_order", "eq", "2026-03-01"])).toBe(true);
+    expect(matches(["first_order", "lt", "2026-01-10"])).toBe(false);
+    expect(matches(["lapsed", "eq", "false"])).toBe(false);
+    expect(matches(["segment", "eq", "loyal_customers"])).toBe(true);
+  });
+
+  it("combines groups and negations", () => {
+    expect(
+      matches({
+        and: [
+          ["orders", "gt", "2"],
+          ["spent", "lt", "100"],
+        ],
+      }),
+    ).toBe(false);
+    expect(
+      matches({
+        or: [
+          ["orders", "gt", "2"],
+          ["spent", "lt", "100"],
+        ],
+      }),
+    ).toBe(true);
+    expect(matches({ not: ["tags", "eq", "vip"] })).toBe(false);
+    expect(matches({ not: { not: ["tags", "eq", "vip"] } })).toBe(true);
+  });
+
+  it("ignores unfinished conditions and empty groups", () => {
+    expect(
+      matches({
+        and: [
+          ["spent", "gt", ""],
+          ["orders", "gt", "2"],
+        ],
+      }),
+    ).toBe(true);
+    expect(matches({ not: { and: [] } })).toBe(true);
+    expect(matches({ not: ["predicted_clv", "gt", ""] })).toBe(true);
+  });
+
+  it("matches every customer when the filter is malformed", () => {
+    expect(filterExpressionMatcher("not json")(customer)).toBe(true);
+  });
+});
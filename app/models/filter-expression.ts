@@ -0,0 +1,306 @@
+import { RFM_SEGMENTS } from "./rfm";
+
+export type FilterField =
+  | "name"
+  | "email"
+  | "tags"
+  | "orders"
+  | "spent"
+  | "profit"
+  | "predicted_clv"
+  | "probability_alive"
+  | "created"
+  | "first_order"
+  | "last_order"
+  | "days_since"
+  | "order_interval"
+  | "expected_next_order"
+  | "lapsed"
+  | "segment";
+
+export type FilterFieldType =
+  | "text"
+  | "tags"
+  | "number"
+  | "date"
+  | "boolean"
+  | "segment";
+
+export type FilterOperator =
+  | "eq"
+  | "contains"
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte"
+  | "between"
+  | "empty";
+
+export type FilterCombinator = "and" | "or";
+
+/**
+ * A node of the filter builder's expression tree. Values stay as entered so
+ * the builder can echo them back; `valueTo` is the upper end of `between`.
+ */
+export type FilterExpression =
+  | {
+      type: "group";
+      combinator: FilterCombinator;
+      negate: boolean;
+      children: FilterExpression[];
+    }
+  | {
+      type: "condition";
+      field: FilterField;
+      operator: FilterOperator;
+      value: string;
+      valueTo: string;
+      negate: boolean;
+    };
+
+export type FilterGroup = Extract<FilterExpression, { type: "group" }>;
+
+export type FilterCondition = Extract<FilterExpression, { type: "condition" }>;
+
+export const FILTER_FIELDS: Array<{
+  key: FilterField;
+  label: string;
+  type: FilterFieldType;
+}> = [
+  { key: "name", label: "Customer name", type: "text" },
+  { key: "email", label: "Email", type: "text" },
+  { key: "tags", label: "Tags", type: "tags" },
+  { key: "orders", label: "Orders", type: "number" },
+  { key: "spent", label: "Total spent", type: "number" },
+  { key: "profit", label: "Gross profit LTV", type: "number" },
+  { key: "predicted_clv", label: "Predicted CLV", type: "number" },
+  { key: "probability_alive", label: "P(alive) %", type: "number" },
+  { key: "created", label: "Customer created", type: "date" },
+  { key: "first_order", label: "First order", type: "date" },
+  { key: "last_order", label: "Last order", type: "date" },
+  { key: "days_since", label: "Days since last order", type: "number" },
+  { key: "order_interval", label: "Days between orders", type: "number" },
+  { key: "expected_next_order", label: "Expected next order", type: "date" },
+  { key: "lapsed", label: "Lapsed", type: "boolean" },
+  { key: "segment", label: "RFM segment", type: "segment" },
+];
+
+const FIELD_OPERATORS: Record<
+  FilterFieldType,
+  Array<{ key: FilterOperator; label: string }>
+> = {
+  text: [
+    { key: "eq", label: "equals" },
+    { key: "contains", label: "contains" },
+    { key: "empty", label: "is empty" },
+  ],
+  tags: [
+    { key: "eq", label: "has tag" },
+    { key: "contains", label: "has a tag containing" },
+    { key: "empty", label: "has no tags" },
+  ],
+  number: [
+    { key: "eq", label: "equals" },
+    { key: "gt", label: "greater than" },
+    { key: "gte", label: "at least" },
+    { key: "lt", label: "less than" },
+    { key: "lte", label: "at most" },
+    { key: "between", label: "between" },
+    { key: "empty", label: "is empty" },
+  ],
+  date: [
+    { key: "eq", label: "on" },
+    { key: "lt", label: "before" },
+    { key: "gt", label: "after" },
+    { key: "between", label: "between" },
+    { key: "empty", label: "is empty" },
+  ],
+  boolean: [{ key: "eq", label: "is" }],
+  segment: [
+    { key: "eq", label: "is" },
+    { key: "empty", label: "is empty" },
+  ],
+};
+
+// Keeps a crafted URL from making every report row walk a huge tree. Groups
+// nest at most this deep below the root.
+export const MAX_FILTER_DEPTH = 4;
+export const MAX_FILTER_CONDITIONS = 50;
+
+export const filterFieldType = (field: FilterField): FilterFieldType =>
+  FILTER_FIELDS.find((definition) => definition.key === field)?.type || "text";
+
+export const filterFieldLabel = (field: FilterField) =>
+  FILTER_FIELDS.find((definition) => definition.key === field)?.label || field;
+
+export const filterOperators = (field: FilterField) =>
+  FIELD_OPERATORS[filterFieldType(field)];
+
+export const filterOperatorLabel = (
+  field: FilterField,
+  operator: FilterOperator,
+) =>
+  filterOperators(field).find((definition) => definition.key === operator)
+    ?.label || operator;
+
+/**
+ * The value a condition starts with when its field changes, so a boolean or
+ * segment condition is complete without further input.
+ */
+export const defaultFilterValue = (field: FilterField) => {
+  const type = filterFieldType(field);
+  if (type === "boolean") return "true";
+  if (type === "segment") return RFM_SEGMENTS[0].key;
+  return "";
+};
+
+export const emptyFilterGroup = (): FilterGroup => ({
+  type: "group",
+  combinator: "and",
+  negate: false,
+  children: [],
+});
+
+export const newFilterCondition = (
+  field: FilterField = "spent",
+): FilterCondition => ({
+  type: "condition",
+  field,
+  operator: filterOperators(field)[0].key,
+  value: defaultFilterValue(field),
+  valueTo: "",
+  negate: false,
+});
+
+export const countFilterConditions = (expression: FilterExpression): number =>
+  expression.type === "group"
+    ? expression.children.reduce(
+        (sum, child) => sum + countFilterConditions(child),
+        0,
+      )
+    : 1;
+
+/*
+ * The serialized form is compact JSON, short enough for a URL and a preset's
+ * config: a condition is `[field, operator, value?, valueTo?]`, a group is
+ * `{"and": [...]}` or `{"or": [...]}` and a negated node is `{"not": node}`.
+ */
+type SerializedExpression =
+  | string[]
+  | { and: SerializedExpression[] }
+  | { or: SerializedExpression[] }
+  | { not: SerializedExpression };
+
+const toSerialized = (node: FilterExpression): SerializedExpression => {
+  const serialized: SerializedExpression =
+    node.type === "group"
+      ? node.combinator === "or"
+        ? { or: node.children.map(toSerialized) }
+        : { and: node.children.map(toSerialized) }
+      : [
+          node.field,
+          node.operator,
+          ...(node.operator === "empty"
+            ? []
+            : node.operator === "between"
+              ? [node.value, node.valueTo]
+              : [node.value]),
+        ];
+  return node.negate ? { not: serialized } : serialized;
+};
+
+/**
+ * Serializes an expression for the `filter` param. An expression without any
+ * condition serializes to an empty string so it drops out of the URL.
+ */
+export const serializeFilterExpression = (expression: FilterExpression) =>
+  countFilterConditions(expression)
+    ? JSON.stringify(toSerialized(expression))
+    : "";
+
+const fromSerialized = (
+  value: unknown,
+  depth: number,
+): FilterExpression | null => {
+  if (Array.isArray(value)) {
+    const [field, operator, first, second] = value;
+    const definition = FILTER_FIELDS.find(({ key }) => key === field);
+    if (!definition) return null;
+    const allowed = FIELD_OPERATORS[definition.type].some(
+      ({ key }) => key === operator,
+    );
+    if (!allowed) return null;
+    return {
+      type: "condition",
+      field: definition.key,
+      operator: operator as FilterOperator,
+      value: typeof first === "string" ? first : "",
+      valueTo: typeof second === "string" ? second : "",
+      negate: false,
+    };
+  }
+
+  if (!value || typeof value !== "object") return null;
+  const record = value as Record<string, unknown>;
+
+  if ("not" in record) {
+    // Consecutive negations collapse here rather than recursing, so a chain
+    // of them cannot get around the depth limit.
+    let inner = record.not;
+    let negate = true;
+    while (
+      inner &&
+      typeof inner === "object" &&
+      !Array.isArray(inner) &&
+      "not" in inner
+    ) {
+      inner = (inner as Record<string, unknown>).not;
+      negate = !negate;
+    }
+    const parsed = fromSerialized(inner, depth);
+    return parsed ? { ...parsed, negate } : null;
+  }
+
+  const combinator: FilterCombinator | null = Array.isArray(record.and)
+    ? "and"
+    : Array.isArray(record.or)
+      ? "or"
+      : null;
+  if (!combinator || depth > MAX_FILTER_DEPTH) return null;
+
+  const children: FilterExpression[] = [];
+  for (const child of record[combinator] as unknown[]) {
+    const parsed = fromSerialized(child, depth + 1);
+    if (!parsed) return null;
+    children.push(parsed);
+  }
+  return { type: "group", combinator, negate: false, children };
+};
+
+/**
+ * Reads the `filter` param. Anything malformed, too deep or too large is
+ * rejected as a whole rather than partly applied. The result is always a
+ * group, so the builder has a root to add conditions to.
+ */
+export const parseFilterExpression = (
+  value: string | null | undefined,
+): FilterGroup | null => {
+  if (!value) return null;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    return null;
+  }
+
+  const expression = fromSerialized(parsed, 0);
+  if (
+    !expression ||
+    countFilterConditions(expression) > MAX_FILTER_CONDITIONS
+  ) {
+    return null;
+  }
+  return expression.type === "group"
+    ? expression
+    : { ...emptyFilterGroup(), children: [expression] };
+};
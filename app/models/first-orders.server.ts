@@ -0,0 +1,34 @@
+import type { Customer, Order } from "@prisma/client";
+
+/**
+ * Picks out the first order of every customer whose first order falls in the
+ * range. Orders must be sorted oldest first and include every order from the
+ * start of the range, so a new customer's earliest order is among them. Like
+ * the sync's `firstOrderAt`, the first order can be one that was cancelled.
+ */
+export const findFirstOrders = <
+  O extends Pick<Order, "customerId">,
+  C extends Pick<Customer, "id" | "firstOrderAt">,
+>(
+  orders: O[],
+  customersById: Map<string, C>,
+  start: Date,
+  end: Date,
+) => {
+  const firstOrders = new Map<string, { customer: C; order: O }>();
+
+  for (const order of orders) {
+    const customer = order.customerId
+      ? customersById.get(order.customerId)
+      : undefined;
+    if (!customer?.firstOrderAt) continue;
+
+    const isNewCustomer =
+      customer.firstOrderAt >= start && customer.firstOrderAt <= end;
+    if (!isNewCustomer || firstOrders.has(customer.id)) continue;
+
+    firstOrders.set(customer.id, { customer, order });
+  }
+
+  return firstOrders;
+};
@@ -0,0 +1,309 @@
+import type { Order } from "@prisma/client";
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import { adminGraphql } from "../admin-graphql.server";
+import prisma from "../db.server";
+import { findFirstOrders } from "./first-orders.server";
+import type { GatewayDimension, GatewaySort } from "./gateway-products";
+import { SECOND_ORDER_DAYS } from "./gateway-products";
+import type { RevenueBasis } from "./revenue";
+import { orderRevenue } from "./revenue.server";
+
+export type GatewayRow = {
+  key: string;
+  label: string;
+  customers: number;
+  repeatCustomers: number;
+  repeatRate: number;
+  subsequentSpend: number;
+  averageSubsequentSpend: number;
+  // Customers whose first order is old enough to judge the second-order rate.
+  secondOrderEligible: number;
+  secondOrderCustomers: number;
+  secondOrderRate: number | null;
+};
+
+type GatewayNode = {
+  id: string;
+  displayName?: string;
+  collections?: { nodes: Array<{ id: string; title: string }> };
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A query may cost at most 1000 points. Each product's first 50 collections
+// cost about 50, so products are looked up 15 at a time; variant names cost
+// next to nothing and go in the largest batch `nodes` accepts.
+const PRODUCTS_PER_REQUEST = 15;
+const VARIANTS_PER_REQUEST = 250;
+const NO_COLLECTION = "No collection";
+
+const fetchNodeBatch = async (
+  admin: AdminApiContext,
+  dimension: GatewayDimension,
+  ids: string[],
+): Promise<Array<GatewayNode | null>> => {
+  if (dimension === "collection") {
+    const data = await adminGraphql(
+      admin,
+      `#graphql
+        query GatewayProductCollections($ids: [ID!]!) {
+          nodes(ids: $ids) {
+            id
+            ... on Product {
+              collections(first: 50) {
+                nodes {
+                  id
+                  title
+                }
+              }
+            }
+          }
+        }`,
+      { ids },
+    );
+    return data.nodes;
+  }
+
+  const data = await adminGraphql(
+    admin,
+    `#graphql
+      query GatewayVariantNames($ids: [ID!]!) {
+        nodes(ids: $ids) {
+          id
+          ... on ProductVariant {
+            displayName
+          }
+        }
+      }`,
+    { ids },
+  );
+  return data.nodes;
+};
+
+/**
+ * Looks up variant names or product collections, which the sync does not
+ * store, for the line items being grouped.
+ */
+const fetchNodes = async (
+  admin: AdminApiContext,
+  dimension: GatewayDimension,
+  ids: string[],
+) => {
+  const nodes = new Map<string, GatewayNode>();
+  const perRequest =
+    dimension === "collection" ? PRODUCTS_PER_REQUEST : VARIANTS_PER_REQUEST;
+
+  for (let index = 0; index < ids.length; index += perRequest) {
+    const batch = await fetchNodeBatch(
+      admin,
+      dimension,
+      ids.slice(index, index + perRequest),
+    );
+    for (const node of batch) {
+      if (node) nodes.set(node.id, node);
+    }
+  }
+
+  return nodes;
+};
+
+const lineItemGroups = (
+  lineItem: {
+    productId: string | null;
+    variantId: string | null;
+    title: string;
+  },
+  dimension: GatewayDimension,
+  nodes: Map<string, GatewayNode>,
+) => {
+  // Custom items and deleted products have no product, so they group by title.
+  const byTitle = { key: `title:${lineItem.title}`, label: lineItem.title };
+
+  if (dimension === "product") {
+    return [
+      lineItem.productId
+        ? { key: lineItem.productId, label: lineItem.title }
+        : byTitle,
+    ];
+  }
+
+  if (dimension === "variant") {
+    return [
+      lineItem.variantId
+        ? {
+            key: lineItem.variantId,
+            label: nodes.get(lineItem.variantId)?.displayName || lineItem.title,
+          }
+        : byTitle,
+    ];
+  }
+
+  const collections = lineItem.productId
+    ? nodes.get(lineItem.productId)?.collections?.nodes || []
+    : [];
+  return collections.length
+    ? collections.map((collection) => ({
+        key: collection.id,
+        label: collection.title,
+      }))
+    : [{ key: NO_COLLECTION, label: NO_COLLECTION }];
+};
+
+const compareRows = (sort: GatewaySort) => (a: GatewayRow, b: GatewayRow) => {
+  const primary =
+    sort === "repeat_rate"
+      ? b.repeatRate - a.repeatRate
+      : sort === "customers"
+        ? b.customers - a.customers
+        : b.averageSubsequentSpend - a.averageSubsequentSpend;
+  return primary || b.customers - a.customers || a.label.localeCompare(b.label);
+};
+
+/**
+ * Groups the customers whose first order falls in the range by what that first
+ * order contained. Subsequent spend is the revenue of every later order that
+ * was not cancelled, and a customer counts as repeat once they have one. A
+ * customer whose first order holds several items of a group counts once.
+ */
+export const buildGatewayReport = async (
+  admin: AdminApiContext,
+  shop: string,
+  {
+    start,
+    end,
+    dimension,
+    basis,
+    sort,
+    minCustomers,
+    now = new Date(),
+  }: {
+    start: Date;
+    end: Date;
+    dimension: GatewayDimension;
+    basis: RevenueBasis;
+    sort: GatewaySort;
+    minCustomers: number;
+    now?: Date;
+  },
+) => {
+  // A customer acquired in the range has no orders before its start.
+  const [customers, orders] = await Promise.all([
+    prisma.customer.findMany({
+      where: { shop, firstOrderAt: { gte: start, lte: end } },
+      select: { id: true, firstOrderAt: true },
+    }),
+    prisma.order.findMany({
+      where: { shop, customerId: { not: null }, createdAt: { gte: start } },
+      orderBy: { createdAt: "asc" },
+    }),
+  ]);
+  const firstOrders = findFirstOrders(
+    orders,
+    new Map(customers.map((customer) => [customer.id, customer])),
+    start,
+    end,
+  );
+
+  const laterOrders = new Map<string, Order[]>();
+  for (const order of orders) {
+    const first = order.customerId
+      ? firstOrders.get(order.customerId)?.order
+      : undefined;
+    if (!first || order === first || order.cancelledAt) continue;
+    const later = laterOrders.get(first.customerId as string) || [];
+    later.push(order);
+    laterOrders.set(first.customerId as string, later);
+  }
+
+  const lineItems = await prisma.lineItem.findMany({
+    where: {
+      shop,
+      orderId: {
+        in: Array.from(firstOrders.values(), ({ order }) => order.id),
+      },
+    },
+    select: { orderId: true, productId: true, variantId: true, title: true },
+  });
+
+  const nodeIds = new Set<string>();
+  for (const lineItem of lineItems) {
+    const id =
+      dimension === "variant"
+        ? lineItem.variantId
+        : dimension === "collection"
+          ? lineItem.productId
+          : null;
+    if (id) nodeIds.add(id);
+  }
+  const nodes = nodeIds.size
+    ? await fetchNodes(admin, dimension, Array.from(nodeIds))
+    : new Map<string, GatewayNode>();
+
+  const groupsByOrder = new Map<string, Map<string, string>>();
+  for (const lineItem of lineItems) {
+    const groups = groupsByOrder.get(lineItem.orderId) || new Map();
+    for (const group of lineItemGroups(lineItem, dimension, nodes)) {
+      if (!groups.has(group.key)) groups.set(group.key, group.label);
+    }
+    groupsByOrder.set(lineItem.orderId, groups);
+  }
+
+  const rows = new Map<string, GatewayRow>();
+  let analyzedCustomers = 0;
+  for (const { customer, order } of firstOrders.values()) {
+    // Orders synced before line items were stored have none to group by.
+    const groups = groupsByOrder.get(order.id);
+    if (!groups) continue;
+    analyzedCustomers += 1;
+
+    const later = laterOrders.get(customer.id) || [];
+    const subsequentSpend = later.reduce(
+      (sum, laterOrder) => sum + orderRevenue(laterOrder, basis),
+      0,
+    );
+    const eligible =
+      now.getTime() - order.createdAt.getTime() >= SECOND_ORDER_DAYS * DAY_MS;
+    const converted =
+      eligible &&
+      later.length > 0 &&
+      later[0].createdAt.getTime() - order.createdAt.getTime() <=
+        SECOND_ORDER_DAYS * DAY_MS;
+
+    for (const [key, label] of groups) {
+      const row = rows.get(key) || {
+        key,
+        label,
+        customers: 0,
+        repeatCustomers: 0,
+        repeatRate: 0,
+        subsequentSpend: 0,
+        averageSubsequentSpend: 0,
+        secondOrderEligible: 0,
+        secondOrderCustomers: 0,
+        secondOrderRate: null,
+      };
+      row.customers += 1;
+      row.repeatCustomers += later.length ? 1 : 0;
+      row.subsequentSpend += subsequentSpend;
+      row.secondOrderEligible += eligible ? 1 : 0;
+      row.secondOrderCustomers += converted ? 1 : 0;
+      rows.set(key, row);
+    }
+  }
+
+  const allRows = Array.from(rows.values()).map((row) => ({
+    ...row,
+    repeatRate: row.repeatCustomers / row.customers,
+    averageSubsequentSpend: row.subsequentSpend / row.customers,
+    secondOrderRate: row.secondOrderEligible
+      ? row.secondOrderCustomers / row.secondOrderEligible
+      : null,
+  }));
+  const shown = allRows.filter((row) => row.customers >= minCustomers);
+
+  return {
+    newCustomers: firstOrders.size,
+    analyzedCustomers,
+    hiddenGroups: allRows.length - shown.length,
+    rows: shown.sort(compareRows(sort)),
+  };
+};
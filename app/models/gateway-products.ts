@@ -0,0 +1,28 @@
+export type GatewayDimension = "product" | "variant" | "collection";
+
+export type GatewaySort = "subsequent_spend" | "repeat_rate" | "customers";
+
+export const GATEWAY_DIMENSIONS: Array<{
+  key: GatewayDimension;
+  label: string;
+}> = [
+  { key: "product", label: "Product" },
+  { key: "variant", label: "Variant" },
+  { key: "collection", label: "Collection" },
+];
+
+export const GATEWAY_SORTS: Array<{ key: GatewaySort; label: string }> = [
+  { key: "subsequent_spend", label: "Average subsequent spend" },
+  { key: "repeat_rate", label: "Repeat rate" },
+  { key: "customers", label: "Customers" },
+];
+
+// How soon a second order has to follow the first for the second-order rate.
+export const SECOND_ORDER_DAYS = 90;
+
+export const parseGatewayDimension = (value: string | null): GatewayDimension =>
+  GATEWAY_DIMENSIONS.find((dimension) => dimension.key === value)?.key ||
+  "product";
+
+export const parseGatewaySort = (value: string | null): GatewaySort =>
+  GATEWAY_SORTS.find((sort) => sort.key === value)?.key || "subsequent_spend";
@@ -0,0 +1,130 @@
+import prisma from "../db.server";
+
+/**
+ * Sums gross profit per customer: line item revenue after discounts minus
+ * quantity times unit cost. Manual cost overrides win over the inventory cost
+ * Shopify reports. Line items without any cost add no profit and are counted
+ * so the report can say how complete the figures are. Cancelled orders are
+ * ignored.
+ */
+export const getGrossProfitByCustomer = async (shop: string) => {
+  const [orders, lineItems, overrides] = await Promise.all([
+    prisma.order.findMany({
+      where: { shop, cancelledAt: null, customerId: { not: null } },
+      select: { id: true, customerId: true },
+    }),
+    prisma.lineItem.findMany({
+      where: { shop },
+      select: {
+        orderId: true,
+        variantId: true,
+        quantity: true,
+        discountedTotal: true,
+        unitCost: true,
+      },
+    }),
+    prisma.costOverride.findMany({
+      where: { shop },
+      select: { variantId: true, unitCost: true },
+    }),
+  ]);
+
+  const customerByOrder = new Map(
+    orders.map((order) => [order.id, order.customerId as string]),
+  );
+  const overrideByVariant = new Map(
+    overrides.map((override) => [override.variantId, override.unitCost]),
+  );
+
+  const profits = new Map<string, number>();
+  let missingCostLineItems = 0;
+
+  for (const lineItem of lineItems) {
+    const customerId = customerByOrder.get(lineItem.orderId);
+    if (!customerId) continue;
+
+    const override = lineItem.variantId
+      ? overrideByVariant.get(lineItem.variantId)
+      : undefined;
+    const unitCost = override ?? lineItem.unitCost;
+    if (unitCost === null) {
+      missingCostLineItems += 1;
+      continue;
+    }
+
+    const profit = lineItem.discountedTotal - unitCost * lineItem.quantity;
+    profits.set(customerId, (profits.get(customerId) || 0) + profit);
+  }
+
+  return { profits, missingCostLineItems };
+};
+
+/**
+ * Lists variants that have sold without a unit cost, together with any manual
+ * overrides, so costs can be filled in by hand.
+ */
+export const getCostCoverage = async (shop: string) => {
+  const [lineItems, overrides] = await Promise.all([
+    prisma.lineItem.findMany({
+      where: { shop, unitCost: null, variantId: { not: null } },
+      select: {
+        variantId: true,
+        title: true,
+        quantity: true,
+        discountedTotal: true,
+      },
+    }),
+    prisma.costOverride.findMany({
+      where: { shop },
+      orderBy: { title: "asc" },
+    }),
+  ]);
+
+  const overridden = new Set(overrides.map((override) => override.variantId));
+  const missing = new Map<
+    string,
+    { variantId: string; title: string; unitsSold: number; revenue: number }
+  >();
+  for (const lineItem of lineItems) {
+    const variantId = lineItem.variantId as string;
+    if (overridden.has(variantId)) continue;
+    const entry = missing.get(variantId) || {
+      variantId,
+      title: lineItem.title,
+      unitsSold: 0,
+      revenue: 0,
+    };
+    entry.unitsSold += lineItem.quantity;
+    entry.revenue += lineItem.discountedTotal;
+    missing.set(variantId, entry);
+  }
+
+  return {
+    missing: Array.from(missing.values()).sort(
+      (a, b) => b.revenue - a.revenue,
+    ),
+    overrides: overrides.map((override) => ({
+      variantId: override.variantId,
+      title: override.title || override.variantId,
+      unitCost: override.unitCost,
+      updatedAt: override.updatedAt.toISOString(),
+    })),
+  };
+};
+
+export const saveCostOverride = async (
+  shop: string,
+  variantId: string,
+  unitCost: number,
+  title: string | null,
+) => {
+  await prisma.costOverride.upsert({
+    where: { shop_variantId: { shop, variantId } },
+    create: { shop, variantId, unitCost, title },
+    update: { unitCost, title },
+  });
+};
+
+export const deleteCostOverride = async (shop: string, variantId: string) => {
+  await prisma.costOverride.deleteMany({ where: { shop, variantId } });
+};
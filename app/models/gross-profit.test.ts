@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import prisma from "../db.server";
+import { getGrossProfitByCustomer } from "./gross-profit.server";
+
+vi.mock("../db.server", () => ({
+  default: {
+    order: { findMany: vi.fn() },
+    lineItem: { findMany: vi.fn() },
+    costOverride: { findMany: vi.fn() },
+  },
+}));
+
+const shop = "example.myshopify.com";
+
+const lineItem = (
+  orderId: string,
+  variantId: string | null,
+  quantity: number,
+  discountedTotal: number,
+  unitCost: number | null,
+) => ({ orderId, variantId, quantity, discountedTotal, unitCost });
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  vi.mocked(prisma.order.findMany).mockResolvedValue([
+    { id: "order-1", customerId: "customer-1" },
+    { id: "order-2", customerId: "customer-1" },
+    { id: "order-3", customerId: "customer-2" },
+  ] as never);
+  vi.mocked(prisma.costOverride.findMany).mockResolvedValue([]);
+});
+
+describe("getGrossProfitByCustomer", () => {
+  it("subtracts quantity times unit cost from discounted revenue", async () => {
+    vi.mocked(prisma.lineItem.findMany).mockResolvedValue([
+      lineItem("order-1", "variant-1", 2, 30, 8),
+      lineItem("order-2", "variant-2", 1, 20, 5),
+      lineItem("order-3", "variant-1", 3, 45, 8),
+    ] as never);
+
+    const { profits, missingCostLineItems } =
+      await getGrossProfitByCustomer(shop);
+
+    expect(profits).toEqual(
+      new Map([
+        ["customer-1", 29],
+        ["customer-2", 21],
+      ]),
+    );
+    expect(missingCostLineItems).toBe(0);
+  });
+
+  it("prefers a manual cost override to the inventory cost", async () => {
+    vi.mocked(prisma.costOverride.findMany).mockResolvedValue([
+      { variantId: "variant-1", unitCost: 10 },
+      { variantId: "variant-3", unitCost: 4 },
+    ] as never);
+    vi.mocked(prisma.lineItem.findMany).mockResolvedValue([
+      lineItem("order-1", "variant-1", 2, 30, 8),
+      lineItem("order-3", "variant-3", 1, 12, null),
+    ] as never);
+
+    const { profits, missingCostLineItems } =
+      await getGrossProfitByCustomer(shop);
+
+    expect(profits.get("customer-1")).toBe(10);
+    expect(profits.get("customer-2")).toBe(8);
+    expect(missingCostLineItems).toBe(0);
+  });
+
+  it("counts line items without a cost instead of adding profit for them", async () => {
+    vi.mocked(prisma.lineItem.findMany).mockResolvedValue([
+      lineItem("order-1", "variant-1", 1, 30, null),
+      lineItem("order-1", null, 1, 5, null),
+      lineItem("order-2", "variant-2", 1, 20, 5),
+    ] as never);
+
+    const { profits, missingCostLineItems } =
+      await getGrossProfitByCustomer(shop);
+
+    expect(profits).toEqual(new Map([["customer-1", 15]]));
+    expect(missingCostLineItems).toBe(2);
+  });
+
+  it("ignores line items of cancelled and guest orders", async () => {
+    vi.mocked(prisma.lineItem.findMany).mockResolvedValue([
+      lineItem("cancelled-or-guest", "variant-1", 1, 30, null),
+      lineItem("order-3", "variant-1", 1, 30, 10),
+    ] as never);
+
+    const { profits, missingCostLineItems } =
+      await getGrossProfitByCustomer(shop);
+
+    expect(prisma.order.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { shop, cancelledAt: null, customerId: { not: null } },
+      }),
+    );
+    expect(profits).toEqual(new Map([["customer-2", 20]]));
+    expect(missingCostLineItems).toBe(0);
+  });
+});
@@ -0,0 +1,245 @@
+import prisma from "../db.server";
+import type { BundleSize, BundleSort } from "./product-affinity";
+import type { RevenueBasis } from "./revenue";
+import {
+  loadRevenueDeductions,
+  netRevenue,
+  orderRevenue,
+} from "./revenue.server";
+
+export type BundleSuggestion = {
+  key: string;
+  products: Array<{ id: string; title: string }>;
+  orders: number;
+  support: number;
+  // The strongest rule inside the combination: buying the other products
+  // predicts `consequent` with this confidence and lift.
+  antecedent: string[];
+  consequent: string;
+  confidence: number;
+  lift: number;
+  revenue: number;
+  customers: number;
+  averageClv: number;
+  // Customers whose spend is not in the shop currency, left out of the average.
+  notConverted: number;
+};
+
+type Itemset = {
+  items: string[];
+  orders: number;
+  revenue: number;
+  customerIds: Set<string>;
+};
+
+// Orders with more distinct products than this, such as wholesale orders, are
+// left out of the combination counts so they cannot dominate them.
+const MAX_ORDER_PRODUCTS = 50;
+
+const itemsetKey = (items: string[]) => items.join("|");
+
+/**
+ * Reads the distinct products of every order placed in the range that was not
+ * cancelled. Custom items have no product and are ignored.
+ */
+const loadBaskets = async (shop: string, start: Date, end: Date) => {
+  const orders = await prisma.order.findMany({
+    where: { shop, cancelledAt: null, createdAt: { gte: start, lte: end } },
+  });
+  const lineItems = await prisma.lineItem.findMany({
+    where: {
+      shop,
+      productId: { not: null },
+      orderId: { in: orders.map((order) => order.id) },
+    },
+    select: { orderId: true, productId: true, title: true },
+  });
+
+  const titles = new Map<string, string>();
+  const productsByOrder = new Map<string, Set<string>>();
+  for (const lineItem of lineItems) {
+    const productId = lineItem.productId as string;
+    if (!titles.has(productId)) titles.set(productId, lineItem.title);
+    const products = productsByOrder.get(lineItem.orderId) || new Set();
+    products.add(productId);
+    productsByOrder.set(lineItem.orderId, products);
+  }
+
+  const baskets = orders.flatMap((order) => {
+    const products = productsByOrder.get(order.id);
+    return products ? [{ order, products: Array.from(products).sort() }] : [];
+  });
+
+  return { baskets, titles };
+};
+
+const combinations = (items: string[], size: number): string[][] => {
+  if (size === 0) return [[]];
+  const result: string[][] = [];
+  for (let index = 0; index <= items.length - size; index += 1) {
+    for (const rest of combinations(items.slice(index + 1), size - 1)) {
+      result.push([items[index], ...rest]);
+    }
+  }
+  return result;
+};
+
+const compareSuggestions =
+  (sort: BundleSort) => (a: BundleSuggestion, b: BundleSuggestion) => {
+    const primary =
+      sort === "confidence"
+        ? b.confidence - a.confidence
+        : sort === "support"
+          ? b.support - a.support
+          : sort === "revenue"
+            ? b.revenue - a.revenue
+            : b.lift - a.lift;
+    return primary || b.orders - a.orders || a.key.localeCompare(b.key);
+  };
+
+/**
+ * Finds the product pairs and triples bought together in at least
+ * `minOrders` orders of the range, Apriori style: a triple is only counted
+ * when each of its pairs is frequent. Only combinations bought together more
+ * often than chance, with a lift above 1, are suggested.
+ */
+export const buildBundleSuggestions = async (
+  shop: string,
+  {
+    start,
+    end,
+    size,
+    sort,
+    minOrders,
+    basis,
+    limit,
+  }: {
+    start: Date;
+    end: Date;
+    size: BundleSize;
+    sort: BundleSort;
+    minOrders: number;
+    basis: RevenueBasis;
+    limit: number;
+  },
+) => {
+  const [{ baskets, titles }, deductions] = await Promise.all([
+    loadBaskets(shop, start, end),
+    loadRevenueDeductions(shop, basis),
+  ]);
+  const counted = baskets.filter(
+    (basket) => basket.products.length <= MAX_ORDER_PRODUCTS,
+  );
+  const totalOrders = counted.length;
+
+  const counts = new Map<string, number>();
+  const countItemsets = (
+    itemSize: number,
+    isCandidate: (items: string[]) => boolean,
+  ) => {
+    for (const { products } of counted) {
+      for (const items of combinations(products, itemSize)) {
+        if (!isCandidate(items)) continue;
+        const key = itemsetKey(items);
+        counts.set(key, (counts.get(key) || 0) + 1);
+      }
+    }
+  };
+  const isFrequent = (items: string[]) =>
+    (counts.get(itemsetKey(items)) || 0) >= minOrders;
+
+  countItemsets(1, () => true);
+  countItemsets(2, (items) => items.every((item) => isFrequent([item])));
+  if (size !== "pairs") {
+    countItemsets(3, (items) =>
+      combinations(items, 2).every((pair) => isFrequent(pair)),
+    );
+  }
+
+  const sizes = size === "pairs" ? [2] : size === "triples" ? [3] : [2, 3];
+  const itemsets = new Map<string, Itemset>();
+  for (const { order, products } of counted) {
+    for (const itemSize of sizes) {
+      for (const items of combinations(products, itemSize)) {
+        if (!isFrequent(items)) continue;
+        const key = itemsetKey(items);
+        const itemset = itemsets.get(key) || {
+          items,
+          orders: 0,
+          revenue: 0,
+          customerIds: new Set<string>(),
+        };
+        itemset.orders += 1;
+        itemset.revenue += orderRevenue(order, basis);
+        if (order.customerId) itemset.customerIds.add(order.customerId);
+        itemsets.set(key, itemset);
+      }
+    }
+  }
+
+  const customerIds = new Set<string>();
+  for (const itemset of itemsets.values()) {
+    for (const id of itemset.customerIds) customerIds.add(id);
+  }
+  const customers = await prisma.customer.findMany({
+    where: {
+      shop,
+      id: { in: Array.from(customerIds) },
+      amountSpentShop: { not: null },
+    },
+    select: { id: true, amountSpentShop: true },
+  });
+  const clvById = new Map(
+    customers.map((customer) => [
+      customer.id,
+      netRevenue(customer.amountSpentShop as number, customer.id, deductions),
+    ]),
+  );
+
+  const suggestions: BundleSuggestion[] = [];
+  for (const [key, itemset] of itemsets) {
+    const count = counts.get(key) || itemset.orders;
+    let best: Pick<
+      BundleSuggestion,
+      "antecedent" | "consequent" | "confidence" | "lift"
+    > | null = null;
+    for (const consequent of itemset.items) {
+      const antecedent = itemset.items.filter((item) => item !== consequent);
+      const confidence = count / (counts.get(itemsetKey(antecedent)) || count);
+      const lift =
+        confidence / ((counts.get(consequent) || count) / totalOrders);
+      if (!best || confidence > best.confidence) {
+        best = { antecedent, consequent, confidence, lift };
+      }
+    }
+    if (!best || best.lift <= 1) continue;
+
+    const clvs = Array.from(itemset.customerIds)
+      .filter((id) => clvById.has(id))
+      .map((id) => clvById.get(id) as number);
+    suggestions.push({
+      key,
+      products: itemset.items.map((id) => ({
+        id,
+        title: titles.get(id) || id,
+      })),
+      orders: count,
+      support: count / totalOrders,
+      ...best,
+      revenue: itemset.revenue,
+      customers: clvs.length,
+      averageClv: clvs.length
+        ? clvs.reduce((sum, clv) => sum + clv, 0) / clvs.length
+        : 0,
+      notConverted: itemset.customerIds.size - clvs.length,
+    });
+  }
+
+  const sorted = suggestions.sort(compareSuggestions(sort));
+  return {
+    totalOrders,
+    skippedOrders: baskets.length - counted.length,
+    suggestions: sorted.slice(0, limit),
+    totalSuggestions: sorted.length,
+  };
+};
@@ -0,0 +1,146 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import prisma from "../db.server";
+import { buildBundleSuggestions } from "./product-affinity.server";
+
+vi.mock("../db.server", () => ({
+  default: {
+    order: { findMany: vi.fn() },
+    lineItem: { findMany: vi.fn() },
+    customer: { findMany: vi.fn() },
+  },
+}));
+
+const baskets: Array<[string | null, number, string[]]> = [
+  ["c1", 100, ["A", "B", "C"]],
+  ["c2", 100, ["A", "B", "C"]],
+  // E is bought only once, so no combination with it is frequent.
+  ["c1", 50, ["A", "B", "E"]],
+  ["c3", 50, ["A", "B"]],
+  [null, 20, ["C", "D"]],
+  [null, 20, ["C", "D"]],
+  // A wholesale order is left out of the counts.
+  [null, 500, Array.from({ length: 51 }, (_, index) => `W${index}`)],
+];
+
+const options = {
+  start: new Date("2026-01-01T00:00:00Z"),
+  end: new Date("2026-01-31T23:59:59Z"),
+  size: "all" as const,
+  sort: "lift" as const,
+  minOrders: 2,
+  basis: "gross" as const,
+  limit: 10,
+};
+
+beforeEach(() => {
+  vi.mocked(prisma.order.findMany).mockResolvedValue(
+    baskets.map(([customerId, totalPrice], index) => ({
+      id: `order-${index}`,
+      customerId,
+      totalPrice,
+      totalRefunded: 0,
+      totalShipping: 0,
+      totalTax: 0,
+    })) as never,
+  );
+  vi.mocked(prisma.lineItem.findMany).mockResolvedValue(
+    baskets.flatMap(([, , products], index) =>
+      products.map((productId) => ({
+        orderId: `order-${index}`,
+        productId,
+        title: `Product ${productId}`,
+      })),
+    ) as never,
+  );
+  // c3's spend is not in the shop currency.
+  vi.mocked(prisma.customer.findMany).mockResolvedValue([
+    { id: "c1", amountSpentShop: 150 },
+    { id: "c2", amountSpentShop: 100 },
+  ] as never);
+});
+
+describe("buildBundleSuggestions", () => {
+  it("suggests frequent combinations bought together more often than chance", async () => {
+    const result = await buildBundleSuggestions(
+      "example.myshopify.com",
+      options,
+    );
+
+    expect(result).toMatchObject({
+      totalOrders: 6,
+      skippedOrders: 1,
+      totalSuggestions: 3,
+    });
+    // A and C, B and C share orders only as often as chance predicts.
+    expect(result.suggestions.map((suggestion) => suggestion.key)).toEqual([
+      "A|B",
+      "A|B|C",
+      "C|D",
+    ]);
+  });
+
+  it("scores each combination by its strongest rule", async () => {
+    const { suggestions } = await buildBundleSuggestions(
+      "example.myshopify.com",
+      options,
+    );
+
+    expect(suggestions[0]).toMatchObject({
+      products: [
+        { id: "A", title: "Product A" },
+        { id: "B", title: "Product B" },
+      ],
+      orders: 4,
+      support: 4 / 6,
+      antecedent: ["B"],
+      consequent: "A",
+      confidence: 1,
+      revenue: 300,
+      customers: 2,
+      averageClv: 125,
+      notConverted: 1,
+    });
+    expect(suggestions[0].lift).toBeCloseTo(1.5, 10);
+    expect(suggestions[1]).toMatchObject({
+      orders: 2,
+      antecedent: ["B", "C"],
+      consequent: "A",
+      confidence: 1,
+    });
+    expect(suggestions[2]).toMatchObject({
+      antecedent: ["D"],
+      consequent: "C",
+      confidence: 1,
+    });
+  });
+
+  it("counts only the requested combination size", async () => {
+    const pairs = await buildBundleSuggestions("example.myshopify.com", {
+      ...options,
+      size: "pairs",
+    });
+    const triples = await buildBundleSuggestions("example.myshopify.com", {
+      ...options,
+      size: "triples",
+    });
+
+    expect(pairs.suggestions.map((suggestion) => suggestion.key)).toEqual([
+      "A|B",
+      "C|D",
+    ]);
+    expect(triples.suggestions.map((suggestion) => suggestion.key)).toEqual([
+      "A|B|C",
+    ]);
+  });
+
+  it("drops combinations below the minimum order count", async () => {
+    const result = await buildBundleSuggestions("example.myshopify.com", {
+      ...options,
+      minOrders: 3,
+    });
+
+    expect(result.suggestions.map((suggestion) => suggestion.key)).toEqual([
+      "A|B",
+    ]);
+  });
+});
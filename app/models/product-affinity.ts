@@ -0,0 +1,22 @@
+export type BundleSize = "all" | "pairs" | "triples";
+
+export type BundleSort = "lift" | "confidence" | "support" | "revenue";
+
+export const BUNDLE_SIZES: Array<{ key: BundleSize; label: string }> = [
+  { key: "all", label: "Pairs and triples" },
+  { key: "pairs", label: "Pairs" },
+  { key: "triples", label: "Triples" },
+];
+
+export const BUNDLE_SORTS: Array<{ key: BundleSort; label: string }> = [
+  { key: "lift", label: "Lift" },
+  { key: "confidence", label: "Confidence" },
+  { key: "support", label: "Support" },
+  { key: "revenue", label: "Order revenue" },
+];
+
+export const parseBundleSize = (value: string | null): BundleSize =>
+  BUNDLE_SIZES.find((size) => size.key === value)?.key || "all";
+
+export const parseBundleSort = (value: string | null): BundleSort =>
+  BUNDLE_SORTS.find((sort) => sort.key === value)?.key || "lift";
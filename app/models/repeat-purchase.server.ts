@@ -0,0 +1,171 @@
+import prisma from "../db.server";
+
+export type RepeatCohort = {
+  month: string;
+  customers: number;
+  repeatCustomers: number;
+  // Share of customers who placed a second order within each window, or null
+  // while no customer in the cohort has been around that long.
+  conversion: Array<{
+    days: number;
+    eligible: number;
+    converted: number;
+    rate: number | null;
+  }>;
+};
+
+export type RepeatPurchaseStats = {
+  customers: number;
+  repeatCustomers: number;
+  repeatRate: number | null;
+  medianDaysToSecondOrder: number | null;
+  medianDaysBetweenOrders: number | null;
+  secondOrderBuckets: Array<{ label: string; count: number }>;
+  cohorts: RepeatCohort[];
+};
+
+export const CONVERSION_WINDOWS = [30, 60, 90];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Upper bounds, in days, of the time-to-second-order distribution.
+const SECOND_ORDER_EDGES = [7, 14, 30, 60, 90, 180, 365];
+
+const median = (values: number[]) => {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const bucketSecondOrders = (days: number[]) => {
+  const buckets = SECOND_ORDER_EDGES.map((edge, index) => ({
+    label: `${index === 0 ? 0 : SECOND_ORDER_EDGES[index - 1] + 1}-${edge}`,
+    count: 0,
+  }));
+  buckets.push({
+    label: `${SECOND_ORDER_EDGES[SECOND_ORDER_EDGES.length - 1] + 1}+`,
+    count: 0,
+  });
+
+  for (const value of days) {
+    const index = SECOND_ORDER_EDGES.findIndex(
+      (edge) => Math.floor(value) <= edge,
+    );
+    buckets[index === -1 ? buckets.length - 1 : index].count += 1;
+  }
+
+  return buckets;
+};
+
+/**
+ * Follows the customers whose first order falls in the range through their
+ * later orders, up to now. A customer's first order is their earliest order
+ * that was not cancelled; cancelled orders are ignored throughout. Intervals
+ * are measured in days between consecutive orders.
+ */
+export const getRepeatPurchaseStats = async (
+  shop: string,
+  { start, end, now = new Date() }: { start: Date; end: Date; now?: Date },
+): Promise<RepeatPurchaseStats> => {
+  // A customer acquired in the range has no orders before its start.
+  const [customers, orders] = await Promise.all([
+    prisma.customer.findMany({
+      where: { shop, firstOrderAt: { gte: start, lte: end } },
+      select: { id: true },
+    }),
+    prisma.order.findMany({
+      where: {
+        shop,
+        cancelledAt: null,
+        customerId: { not: null },
+        createdAt: { gte: start },
+      },
+      select: { customerId: true, createdAt: true },
+      orderBy: { createdAt: "asc" },
+    }),
+  ]);
+
+  const acquired = new Set(customers.map((customer) => customer.id));
+  const ordersByCustomer = new Map<string, Date[]>();
+  for (const order of orders) {
+    if (!order.customerId || !acquired.has(order.customerId)) continue;
+    const dates = ordersByCustomer.get(order.customerId) || [];
+    dates.push(order.createdAt);
+    ordersByCustomer.set(order.customerId, dates);
+  }
+
+  const daysToSecondOrder: number[] = [];
+  const intervals: number[] = [];
+  const cohorts = new Map<string, RepeatCohort>();
+
+  for (const dates of ordersByCustomer.values()) {
+    const [first, second] = dates;
+    // The sync can record a first order that was later cancelled.
+    if (first > end) continue;
+
+    const month = first.toISOString().slice(0, 7);
+    const cohort = cohorts.get(month) || {
+      month,
+      customers: 0,
+      repeatCustomers: 0,
+      conversion: CONVERSION_WINDOWS.map((days) => ({
+        days,
+        eligible: 0,
+        converted: 0,
+        rate: null,
+      })),
+    };
+    cohorts.set(month, cohort);
+    cohort.customers += 1;
+
+    const secondAfter = second
+      ? (second.getTime() - first.getTime()) / DAY_MS
+      : null;
+    if (secondAfter !== null) {
+      cohort.repeatCustomers += 1;
+      daysToSecondOrder.push(secondAfter);
+    }
+    for (let index = 1; index < dates.length; index += 1) {
+      intervals.push(
+        (dates[index].getTime() - dates[index - 1].getTime()) / DAY_MS,
+      );
+    }
+
+    const age = (now.getTime() - first.getTime()) / DAY_MS;
+    for (const entry of cohort.conversion) {
+      if (age < entry.days) continue;
+      entry.eligible += 1;
+      if (secondAfter !== null && secondAfter <= entry.days) {
+        entry.converted += 1;
+      }
+    }
+  }
+
+  const sortedCohorts = Array.from(cohorts.values()).sort((a, b) =>
+    a.month.localeCompare(b.month),
+  );
+  for (const cohort of sortedCohorts) {
+    for (const entry of cohort.conversion) {
+      entry.rate = entry.eligible ? entry.converted / entry.eligible : null;
+    }
+  }
+
+  const total = sortedCohorts.reduce(
+    (sum, cohort) => sum + cohort.customers,
+    0,
+  );
+  const repeatCustomers = daysToSecondOrder.length;
+
+  return {
+    customers: total,
+    repeatCustomers,
+    repeatRate: total ? repeatCustomers / total : null,
+    medianDaysToSecondOrder: median(daysToSecondOrder),
+    medianDaysBetweenOrders: median(intervals),
+    secondOrderBuckets: bucketSecondOrders(daysToSecondOrder),
+    cohorts: sortedCohorts,
+  };
+};
@@ -0,0 +1,125 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import prisma from "../db.server";
+import { getRepeatPurchaseStats } from "./repeat-purchase.server";
+
+vi.mock("../db.server", () => ({
+  default: {
+    customer: { findMany: vi.fn() },
+    order: { findMany: vi.fn() },
+  },
+}));
+
+const range = {
+  start: new Date("2026-01-01T00:00:00Z"),
+  end: new Date("2026-02-28T23:59:59Z"),
+};
+
+const order = (customerId: string, date: string) => ({
+  customerId,
+  createdAt: new Date(`${date}T00:00:00Z`),
+});
+
+beforeEach(() => {
+  // The queries return what the database would for the range: customers
+  // acquired in it and the non-cancelled orders since its start, oldest first.
+  vi.mocked(prisma.customer.findMany).mockResolvedValue(
+    ["a", "b", "c", "late"].map((id) => ({ id })) as never,
+  );
+  vi.mocked(prisma.order.findMany).mockResolvedValue([
+    order("a", "2026-01-01"),
+    order("other", "2026-01-05"),
+    order("a", "2026-01-11"),
+    order("b", "2026-01-15"),
+    order("c", "2026-02-01"),
+    order("a", "2026-02-10"),
+    // Acquired in the range, but that first order was cancelled.
+    order("late", "2026-03-05"),
+    order("c", "2026-03-30"),
+  ] as never);
+});
+
+describe("getRepeatPurchaseStats", () => {
+  it("follows customers acquired in the range through their later orders", async () => {
+    const stats = await getRepeatPurchaseStats("example.myshopify.com", {
+      ...range,
+      now: new Date("2026-06-01T00:00:00Z"),
+    });
+
+    expect(stats).toMatchObject({
+      customers: 3,
+      repeatCustomers: 2,
+      repeatRate: 2 / 3,
+      medianDaysToSecondOrder: 33.5,
+      medianDaysBetweenOrders: 30,
+    });
+    expect(stats.secondOrderBuckets.filter((bucket) => bucket.count)).toEqual([
+      { label: "8-14", count: 1 },
+      { label: "31-60", count: 1 },
+    ]);
+  });
+
+  it("groups customers into monthly cohorts with conversion windows", async () => {
+    const stats = await getRepeatPurchaseStats("example.myshopify.com", {
+      ...range,
+      now: new Date("2026-06-01T00:00:00Z"),
+    });
+
+    expect(stats.cohorts).toEqual([
+      {
+        month: "2026-01",
+        customers: 2,
+        repeatCustomers: 1,
+        conversion: [
+          { days: 30, eligible: 2, converted: 1, rate: 0.5 },
+          { days: 60, eligible: 2, converted: 1, rate: 0.5 },
+          { days: 90, eligible: 2, converted: 1, rate: 0.5 },
+        ],
+      },
+      {
+        month: "2026-02",
+        customers: 1,
+        repeatCustomers: 1,
+        conversion: [
+          { days: 30, eligible: 1, converted: 0, rate: 0 },
+          { days: 60, eligible: 1, converted: 1, rate: 1 },
+          { days: 90, eligible: 1, converted: 1, rate: 1 },
+        ],
+      },
+    ]);
+  });
+
+  it("only counts customers who have been around for a window", async () => {
+    const stats = await getRepeatPurchaseStats("example.myshopify.com", {
+      ...range,
+      now: new Date("2026-02-20T00:00:00Z"),
+    });
+
+    expect(stats.cohorts.map((cohort) => cohort.conversion)).toEqual([
+      [
+        { days: 30, eligible: 2, converted: 1, rate: 0.5 },
+        { days: 60, eligible: 0, converted: 0, rate: null },
+        { days: 90, eligible: 0, converted: 0, rate: null },
+      ],
+      [
+        { days: 30, eligible: 0, converted: 0, rate: null },
+        { days: 60, eligible: 0, converted: 0, rate: null },
+        { days: 90, eligible: 0, converted: 0, rate: null },
+      ],
+    ]);
+  });
+
+  it("has no rates without customers", async () => {
+    vi.mocked(prisma.customer.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.order.findMany).mockResolvedValue([]);
+
+    expect(
+      await getRepeatPurchaseStats("example.myshopify.com", range),
+    ).toMatchObject({
+      customers: 0,
+      repeatRate: null,
+      medianDaysToSecondOrder: null,
+      medianDaysBetweenOrders: null,
+      cohorts: [],
+    });
+  });
+});
@@ -0,0 +1,341 @@
+import { Zip, ZipDeflate } from "fflate";
+import type { ReportCustomer } from "./customer-report.server";
+import type { RevenueBasis } from "./revenue";
+import type { ExportColumn, ExportFormat } from "./report-export";
+import { DEFAULT_EXPORT_COLUMNS } from "./report-export";
+import { reportRunPages } from "./report-runs.server";
+import { segmentLabel } from "./rfm";
+
+type CellValue = string | number | string[] | null;
+
+type ColumnSpec = {
+  header: string;
+  value: (customer: ReportCustomer) => CellValue;
+  decimals?: number;
+};
+
+// Emailed reports are encoded a page at a time, like the stored pages of a
+// report run.
+const ROWS_PER_CHUNK = 500;
+
+const COLUMN_SPECS: Record<ExportColumn, ColumnSpec> = {
+  id: { header: "CustomerId", value: (customer) => customer.id },
+  name: { header: "Customer", value: (customer) => customer.name },
+  email: { header: "Email", value: (customer) => customer.email },
+  orders: { header: "Orders", value: (customer) => customer.ordersCount },
+  total_spent: {
+    header: "TotalSpent",
+    value: (customer) => customer.totalSpent,
+    decimals: 2,
+  },
+  gross_profit: {
+    header: "GrossProfitLtv",
+    value: (customer) => customer.grossProfit,
+    decimals: 2,
+  },
+  created_at: {
+    header: "CustomerCreatedAt",
+    value: (customer) => customer.createdAt,
+  },
+  first_order_date: {
+    header: "FirstOrderDate",
+    value: (customer) => customer.firstOrderDate,
+  },
+  last_order_date: {
+    header: "LastOrderDate",
+    value: (customer) => customer.lastOrderDate,
+  },
+  days_since_last_order: {
+    header: "DaysSinceLastOrder",
+    value: (customer) => customer.daysSinceLastOrder,
+  },
+  order_interval: {
+    header: "AverageDaysBetweenOrders",
+    value: (customer) => customer.orderInterval,
+    decimals: 1,
+  },
+  expected_next_order_date: {
+    header: "ExpectedNextOrderDate",
+    value: (customer) => customer.expectedNextOrderDate,
+  },
+  segment: {
+    header: "Segment",
+    value: (customer) =>
+      customer.rfm ? segmentLabel(customer.rfm.segment) : null,
+  },
+  rfm: {
+    header: "RFM",
+    value: (customer) =>
+      customer.rfm
+        ? `${customer.rfm.recency}${customer.rfm.frequency}${customer.rfm.monetary}`
+        : null,
+  },
+  predicted_clv: {
+    header: "PredictedClv12m",
+    value: (customer) => customer.predictedClv,
+    decimals: 2,
+  },
+  probability_alive: {
+    header: "ProbabilityAlive",
+    value: (customer) => customer.probabilityAlive,
+    decimals: 4,
+  },
+  tags: { header: "Tags", value: (customer) => customer.tags },
+};
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  ndjson: "application/x-ndjson; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+const cellValue = (spec: ColumnSpec, customer: ReportCustomer) => {
+  const value = spec.value(customer);
+  if (typeof value === "number" && spec.decimals !== undefined) {
+    return Number(value.toFixed(spec.decimals));
+  }
+  return value;
+};
+
+const escapeCsv = (value: CellValue) => {
+  if (value === null || value === undefined) return "";
+  const text = Array.isArray(value) ? value.join(", ") : String(value);
+  if (/[",\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+};
+
+const csvCell = (spec: ColumnSpec, customer: ReportCustomer) => {
+  const value = spec.value(customer);
+  return typeof value === "number" && spec.decimals !== undefined
+    ? value.toFixed(spec.decimals)
+    : escapeCsv(value);
+};
+
+const escapeXml = (value: string) =>
+  value
+    // Control characters other than tab and newlines are not allowed in XML.
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const xlsxCell = (value: CellValue) => {
+  if (value === null || value === undefined) return "<c/>";
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? `<c><v>${value}</v></c>` : "<c/>";
+  }
+  const text = Array.isArray(value) ? value.join(", ") : value;
+  return `<c t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+};
+
+const xlsxRow = (cells: CellValue[]) =>
+  `<row>${cells.map(xlsxCell).join("")}</row>`;
+
+const XLSX_PARTS: Array<[string, string]> = [
+  [
+    "[Content_Types].xml",
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>',
+  ],
+  [
+    "_rels/.rels",
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>',
+  ],
+  [
+    "xl/workbook.xml",
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="Customers" sheetId="1" r:id="rId1"/></sheets></workbook>',
+  ],
+  [
+    "xl/_rels/workbook.xml.rels",
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/></Relationships>',
+  ],
+];
+
+export type CustomerPages = AsyncIterable<ReportCustomer[]>;
+
+/**
+ * Splits an in-memory result into pages so emailed reports share the encoding
+ * of streamed exports.
+ */
+async function* customerPages(customers: ReportCustomer[]) {
+  for (let start = 0; start < customers.length; start += ROWS_PER_CHUNK) {
+    yield customers.slice(start, start + ROWS_PER_CHUNK);
+  }
+}
+
+/**
+ * Yields the export a page of rows at a time. XLSX chunks are the sheet XML,
+ * which the caller compresses into the workbook.
+ */
+async function* exportChunks(
+  pages: CustomerPages,
+  columns: ExportColumn[],
+  format: ExportFormat,
+) {
+  const specs = columns.map((column) => COLUMN_SPECS[column]);
+
+  if (format === "csv") {
+    yield specs.map((spec) => spec.header).join(",");
+  } else if (format === "xlsx") {
+    yield `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${xlsxRow(
+      specs.map((spec) => spec.header),
+    )}`;
+  }
+
+  for await (const rows of pages) {
+    if (format === "csv") {
+      yield rows
+        .map(
+          (customer) =>
+            `\n${specs.map((spec) => csvCell(spec, customer)).join(",")}`,
+        )
+        .join("");
+    } else if (format === "ndjson") {
+      yield rows
+        .map(
+          (customer) =>
+            `${JSON.stringify(
+              Object.fromEntries(
+                columns.map((column) => [
+                  column,
+                  cellValue(COLUMN_SPECS[column], customer),
+                ]),
+              ),
+            )}\n`,
+        )
+        .join("");
+    } else {
+      yield rows
+        .map((customer) =>
+          xlsxRow(specs.map((spec) => cellValue(spec, customer))),
+        )
+        .join("");
+    }
+  }
+
+  if (format === "xlsx") {
+    yield "</sheetData></worksheet>";
+  }
+}
+
+/**
+ * Streams the report in the requested format. Pages are read and encoded as
+ * the client reads, so neither the customers nor the response body are ever
+ * held in memory as a whole.
+ */
+export const streamCustomerReport = (
+  pages: CustomerPages,
+  format: ExportFormat,
+  columns: ExportColumn[],
+) => {
+  const encoder = new TextEncoder();
+  const chunks = exportChunks(pages, columns, format);
+
+  if (format !== "xlsx") {
+    return new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        const next = await chunks.next();
+        if (next.done) {
+          controller.close();
+        } else {
+          controller.enqueue(encoder.encode(next.value));
+        }
+      },
+    });
+  }
+
+  // The zip writer reports compressed output synchronously while data is
+  // pushed. Deflate buffers small inputs, so each pull feeds the sheet until
+  // the zip has produced something to send.
+  const pending: Uint8Array[] = [];
+  let failure: Error | null = null;
+  let finished = false;
+  const zip = new Zip((error, data) => {
+    if (error) failure = error;
+    else pending.push(data);
+  });
+  for (const [name, content] of XLSX_PARTS) {
+    const part = new ZipDeflate(name, { level: 6 });
+    zip.add(part);
+    part.push(encoder.encode(content), true);
+  }
+  const sheet = new ZipDeflate("xl/worksheets/sheet1.xml", { level: 6 });
+  zip.add(sheet);
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      while (!pending.length && !finished && !failure) {
+        const next = await chunks.next();
+        if (next.done) {
+          sheet.push(new Uint8Array(0), true);
+          zip.end();
+          finished = true;
+        } else {
+          sheet.push(encoder.encode(next.value));
+        }
+      }
+
+      if (failure) {
+        controller.error(failure);
+        return;
+      }
+      for (const data of pending.splice(0)) {
+        controller.enqueue(data);
+      }
+      if (finished) controller.close();
+    },
+  });
+};
+
+/**
+ * Downloads a finished report run, reading its stored rows a page at a time.
+ */
+export const exportResponse = (
+  runId: string,
+  options: {
+    format: ExportFormat;
+    columns: ExportColumn[];
+    basis: RevenueBasis;
+  },
+) =>
+  new Response(
+    streamCustomerReport(
+      reportRunPages(runId),
+      options.format,
+      options.columns,
+    ),
+    {
+      headers: {
+        "Content-Type": CONTENT_TYPES[options.format],
+        "Content-Disposition": `attachment; filename="${customerReportFilename(
+          options.basis,
+          new Date(),
+          options.format,
+        )}"`,
+      },
+    },
+  );
+
+export const customerReportCsv = async (
+  customers: ReportCustomer[],
+  columns: ExportColumn[] = DEFAULT_EXPORT_COLUMNS,
+) => {
+  let csv = "";
+  for await (const chunk of exportChunks(
+    customerPages(customers),
+    columns,
+    "csv",
+  )) {
+    csv += chunk;
+  }
+  return csv;
+};
+
+export const customerReportFilename = (
+  basis: RevenueBasis,
+  date = new Date(),
+  format: ExportFormat = "csv",
+) => `customer-report-${basis}-${date.toISOString().slice(0, 10)}.${format}`;
@@ -0,0 +1,112 @@
+import { describe, expect, it, vi } from "vitest";
+import type { ReportCustomer } from "./customer-report.server";
+import { DEFAULT_EXPORT_COLUMNS, parseExportColumns } from "./report-export";
+import {
+  customerReportCsv,
+  streamCustomerReport,
+} from "./report-export.server";
+
+vi.mock("../db.server", () => ({ default: {} }));
+vi.mock("../shopify.server", () => ({ unauthenticated: {} }));
+
+const customer: ReportCustomer = {
+  id: "gid://shopify/Customer/1",
+  name: 'Ada "The Countess", Lovelace',
+  email: "ada@example.com",
+  totalSpent: 199.89999999999998,
+  grossProfit: 80.456,
+  ordersCount: 3,
+  createdAt: "2026-01-05T10:00:00.000Z",
+  firstOrderDate: "2026-01-10T10:00:00.000Z",
+  lastOrderDate: null,
+  daysSinceLastOrder: null,
+  orderInterval: 12.345,
+  expectedNextOrderDate: null,
+  lapsed: false,
+  tags: ["vip", "line\nbreak"],
+  rfm: { recency: 3, frequency: 4, monetary: 5, segment: "loyal_customers" },
+  predictedClv: 320.129,
+  probabilityAlive: 0.612345,
+};
+
+const readStream = async (stream: ReadableStream<Uint8Array>) =>
+  new Response(stream).text();
+
+async function* pages(customers: ReportCustomer[]) {
+  yield customers;
+}
+
+describe("customerReportCsv", () => {
+  it("writes the default columns", async () => {
+    const [header] = (await customerReportCsv([customer])).split("\n");
+    expect(header).toBe(
+      "Customer,Email,Orders,TotalSpent,CustomerCreatedAt,FirstOrderDate,Tags",
+    );
+  });
+
+  it("quotes cells with commas, quotes and newlines and rounds money", async () => {
+    expect(await customerReportCsv([customer])).toBe(
+      [
+        "Customer,Email,Orders,TotalSpent,CustomerCreatedAt,FirstOrderDate,Tags",
+        '"Ada ""The Countess"", Lovelace",ada@example.com,3,199.90,2026-01-05T10:00:00.000Z,2026-01-10T10:00:00.000Z,"vip, line',
+        'break"',
+      ].join("\n"),
+    );
+  });
+
+  it("leaves missing values empty", async () => {
+    const csv = await customerReportCsv(
+      [customer],
+      ["id", "last_order_date", "days_since_last_order", "rfm", "segment"],
+    );
+    expect(csv.split("\n")[1]).toBe(
+      "gid://shopify/Customer/1,,,345,Loyal customers",
+    );
+  });
+});
+
+describe("streamCustomerReport", () => {
+  it("writes one JSON object per customer with the chosen columns", async () => {
+    const ndjson = await readStream(
+      streamCustomerReport(pages([customer, customer]), "ndjson", [
+        "name",
+        "total_spent",
+        "gross_profit",
+        "probability_alive",
+        "tags",
+      ]),
+    );
+    const lines = ndjson.split("\n");
+
+    expect(lines).toHaveLength(3);
+    expect(lines[2]).toBe("");
+    expect(JSON.parse(lines[0])).toEqual({
+      name: 'Ada "The Countess", Lovelace',
+      total_spent: 199.9,
+      gross_profit: 80.46,
+      probability_alive: 0.6123,
+      tags: ["vip", "line\nbreak"],
+    });
+  });
+
+  it("writes a header row without customers", async () => {
+    expect(
+      await readStream(streamCustomerReport(pages([]), "csv", ["id", "email"])),
+    ).toBe("CustomerId,Email");
+  });
+});
+
+describe("parseExportColumns", () => {
+  it("keeps known columns in their canonical order", () => {
+    expect(parseExportColumns(["tags,id", "unknown", "email"])).toEqual([
+      "id",
+      "email",
+      "tags",
+    ]);
+  });
+
+  it("falls back to the default columns", () => {
+    expect(parseExportColumns([])).toEqual(DEFAULT_EXPORT_COLUMNS);
+    expect(parseExportColumns(["unknown"])).toEqual(DEFAULT_EXPORT_COLUMNS);
+  });
+});
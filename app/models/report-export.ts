@@ -0,0 +1,72 @@
+export type ExportFormat = "csv" | "ndjson" | "xlsx";
+
+export type ExportColumn =
+  | "id"
+  | "name"
+  | "email"
+  | "orders"
+  | "total_spent"
+  | "gross_profit"
+  | "created_at"
+  | "first_order_date"
+  | "last_order_date"
+  | "days_since_last_order"
+  | "order_interval"
+  | "expected_next_order_date"
+  | "segment"
+  | "rfm"
+  | "predicted_clv"
+  | "probability_alive"
+  | "tags";
+
+export const EXPORT_FORMATS: Array<{ key: ExportFormat; label: string }> = [
+  { key: "csv", label: "CSV" },
+  { key: "ndjson", label: "NDJSON" },
+  { key: "xlsx", label: "Excel (XLSX)" },
+];
+
+export const EXPORT_COLUMNS: Array<{ key: ExportColumn; label: string }> = [
+  { key: "id", label: "Customer ID" },
+  { key: "name", label: "Customer" },
+  { key: "email", label: "Email" },
+  { key: "orders", label: "Orders" },
+  { key: "total_spent", label: "Total spent" },
+  { key: "gross_profit", label: "Gross profit LTV" },
+  { key: "created_at", label: "Customer created" },
+  { key: "first_order_date", label: "First order" },
+  { key: "last_order_date", label: "Last order" },
+  { key: "days_since_last_order", label: "Days since last order" },
+  { key: "order_interval", label: "Days between orders" },
+  { key: "expected_next_order_date", label: "Expected next order" },
+  { key: "segment", label: "RFM segment" },
+  { key: "rfm", label: "RFM score" },
+  { key: "predicted_clv", label: "Predicted CLV (12m)" },
+  { key: "probability_alive", label: "P(alive)" },
+  { key: "tags", label: "Tags" },
+];
+
+// The columns of the original CSV export, still used for scheduled emails.
+export const DEFAULT_EXPORT_COLUMNS: ExportColumn[] = [
+  "name",
+  "email",
+  "orders",
+  "total_spent",
+  "created_at",
+  "first_order_date",
+  "tags",
+];
+
+export const parseExportFormat = (value: string | null): ExportFormat =>
+  EXPORT_FORMATS.find((format) => format.key === value)?.key || "csv";
+
+/**
+ * Keeps the known columns in their canonical order. An empty selection falls
+ * back to the default columns.
+ */
+export const parseExportColumns = (values: string[]): ExportColumn[] => {
+  const selected = new Set(values.flatMap((value) => value.split(",")));
+  const columns = EXPORT_COLUMNS.map((column) => column.key).filter((key) =>
+    selected.has(key),
+  );
+  return columns.length ? columns : DEFAULT_EXPORT_COLUMNS;
+};
@@ -0,0 +1,142 @@
+import prisma from "../db.server";
+
+export type PresetDirection = "up" | "down";
+
+export const PRESET_ORDER = [
+  { position: "asc" as const },
+  { createdAt: "desc" as const },
+];
+
+// Every lookup is scoped to the shop, so a preset ID from another shop behaves
+// exactly like an unknown one.
+const findPreset = (shop: string, id: string) =>
+  prisma.reportPreset.findFirst({ where: { id, shop } });
+
+export const listPresets = (shop: string) =>
+  prisma.reportPreset.findMany({ where: { shop }, orderBy: PRESET_ORDER });
+
+export const getDefaultPreset = (shop: string) =>
+  prisma.reportPreset.findFirst({ where: { shop, isDefault: true } });
+
+const nextPosition = async (shop: string) => {
+  const last = await prisma.reportPreset.aggregate({
+    where: { shop },
+    _max: { position: true },
+  });
+  return (last._max.position ?? -1) + 1;
+};
+
+export const createPreset = async (
+  shop: string,
+  name: string,
+  config: Record<string, string>,
+) =>
+  prisma.reportPreset.create({
+    data: {
+      shop,
+      name,
+      config: JSON.stringify(config),
+      position: await nextPosition(shop),
+    },
+  });
+
+export const renamePreset = async (shop: string, id: string, name: string) => {
+  const preset = await findPreset(shop, id);
+  if (!preset) return null;
+  return prisma.reportPreset.update({ where: { id }, data: { name } });
+};
+
+export const overwritePreset = async (
+  shop: string,
+  id: string,
+  config: Record<string, string>,
+) => {
+  const preset = await findPreset(shop, id);
+  if (!preset) return null;
+  const serialized = JSON.stringify(config);
+  return prisma.reportPreset.update({
+    where: { id },
+    data: {
+      config: serialized,
+      // A published segment still runs the old filters until it is published
+      // again, which the page asks for while this is empty.
+      ...(serialized !== preset.config ? { segmentPublishedAt: null } : {}),
+    },
+  });
+};
+
+/**
+ * Copies a preset's filters under a new name. Schedules and the default flag
+ * stay with the original.
+ */
+export const duplicatePreset = async (shop: string, id: string) => {
+  const preset = await findPreset(shop, id);
+  if (!preset) return null;
+  return prisma.reportPreset.create({
+    data: {
+      shop,
+      name: `${preset.name} (copy)`,
+      config: preset.config,
+      position: await nextPosition(shop),
+    },
+  });
+};
+
+export const deletePreset = async (shop: string, id: string) => {
+  const deleted = await prisma.reportPreset.deleteMany({ where: { id, shop } });
+  return deleted.count > 0;
+};
+
+/**
+ * Makes a preset the shop's default report view, replacing any previous
+ * default. Passing null clears the default.
+ */
+export const setDefaultPreset = async (shop: string, id: string | null) => {
+  if (id && !(await findPreset(shop, id))) return false;
+
+  await prisma.$transaction([
+    prisma.reportPreset.updateMany({
+      where: { shop, isDefault: true },
+      data: { isDefault: false },
+    }),
+    ...(id
+      ? [
+          prisma.reportPreset.update({
+            where: { id },
+            data: { isDefault: true },
+          }),
+        ]
+      : []),
+  ]);
+  return true;
+};
+
+/**
+ * Swaps a preset with its neighbour. Positions are rewritten for the whole
+ * list so presets saved before ordering existed get distinct positions.
+ */
+export const movePreset = async (
+  shop: string,
+  id: string,
+  direction: PresetDirection,
+) => {
+  const presets = await listPresets(shop);
+  const index = presets.findIndex((preset) => preset.id === id);
+  if (index === -1) return false;
+
+  const target = direction === "up" ? index - 1 : index + 1;
+  if (target < 0 || target >= presets.length) return true;
+
+  const ordered = [...presets];
+  [ordered[index], ordered[target]] = [ordered[target], ordered[index]];
+
+  await prisma.$transaction(
+    ordered.map((preset, position) =>
+      prisma.reportPreset.update({
+        where: { id: preset.id },
+        data: { position },
+      }),
+    ),
+  );
+  return true;
+};
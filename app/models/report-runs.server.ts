@@ -0,0 +1,416 @@
+import type { ReportRun } from "@prisma/client";
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import { adminGraphql } from "../admin-graphql.server";
+import prisma from "../db.server";
+import { unauthenticated } from "../shopify.server";
+import { getClvPredictions } from "./clv-model.server";
+import type {
+  ReportContext,
+  ReportCustomer,
+  ReportFilters,
+  ReportRow,
+} from "./customer-report.server";
+import {
+  applyReportFilters,
+  loadReportContext,
+  reportCustomersWhere,
+  toReportRow,
+} from "./customer-report.server";
+import type { RfmSegment } from "./rfm";
+import { RFM_SEGMENTS } from "./rfm";
+
+export type ReportRunStatus = "pending" | "running" | "completed" | "failed";
+
+export type ReportRunSummary = {
+  currencyCode: string;
+  missingCostLineItems: number;
+  notConvertedCustomers: number;
+  totalCustomers: number;
+  charts: {
+    ltvBuckets: Array<{ label: string; count: number }>;
+    orderBuckets: Array<{ label: string; count: number }>;
+  };
+  segments: Array<{
+    key: RfmSegment;
+    label: string;
+    customers: number;
+    totalClv: number;
+  }>;
+};
+
+const PAGE_SIZE = 500;
+// The most customers one connection page returns.
+const CUSTOMERS_PER_REQUEST = 250;
+// Results are reused for the same filters until they are this old or a sync
+// finishes after them.
+const RESULT_TTL_MS = 15 * 60 * 1000;
+// Running reports touch updatedAt after every page. One that has been quiet
+// this long was interrupted by a restart and is picked up again.
+const STALE_AFTER_MS = 2 * 60 * 1000;
+// Writing the results cannot touch updatedAt until it commits, so it gives up
+// before the run would look stale.
+const FINISH_TIMEOUT_MS = STALE_AFTER_MS / 2;
+const KEEP_RUNS = 20;
+
+const buildBuckets = (values: number[], edges: number[]) => {
+  const buckets = edges.map((edge, index) => ({
+    label:
+      index === edges.length - 1
+        ? `${edge}+`
+        : `${edge}-${edges[index + 1] - 1}`,
+    count: 0,
+  }));
+
+  for (const value of values) {
+    const index = edges.findIndex((edge, i) => {
+      const next = edges[i + 1];
+      if (next === undefined) return value >= edge;
+      return value >= edge && value < next;
+    });
+    const bucketIndex = index === -1 ? buckets.length - 1 : index;
+    buckets[bucketIndex].count += 1;
+  }
+
+  return buckets;
+};
+
+const summarize = (
+  sorted: ReportCustomer[],
+  matching: ReportCustomer[],
+  context: Pick<
+    ReportRunSummary,
+    "currencyCode" | "missingCostLineItems" | "notConvertedCustomers"
+  >,
+): ReportRunSummary => ({
+  ...context,
+  totalCustomers: sorted.length,
+  charts: {
+    ltvBuckets: buildBuckets(
+      sorted.map((customer) => customer.totalSpent),
+      [0, 50, 100, 250, 500, 1000, 2000, 5000, 10000],
+    ),
+    orderBuckets: buildBuckets(
+      sorted.map((customer) => customer.ordersCount),
+      [0, 1, 2, 3, 5, 10, 20, 50],
+    ),
+  },
+  // The summary ignores the segment filter so every segment stays reachable.
+  segments: RFM_SEGMENTS.map((definition) => {
+    const members = matching.filter(
+      (customer) => customer.rfm?.segment === definition.key,
+    );
+    return {
+      ...definition,
+      customers: members.length,
+      totalClv: members.reduce((sum, customer) => sum + customer.totalSpent, 0),
+    };
+  }),
+});
+
+// Filters are stored in a fixed key order, so equal filters share results.
+const configKey = (filters: ReportFilters) =>
+  JSON.stringify(
+    Object.keys(filters)
+      .sort()
+      .map((key) => [key, filters[key as keyof ReportFilters]]),
+  );
+
+export const parseRunSummary = (run: ReportRun) => {
+  if (!run.summary) return null;
+  try {
+    return JSON.parse(run.summary) as ReportRunSummary;
+  } catch {
+    return null;
+  }
+};
+
+const createRun = async (shop: string, filters: ReportFilters) => {
+  // The synced customers stand in for Shopify's count of the pages to fetch.
+  const customers = await prisma.customer.count({ where: { shop } });
+  const run = await prisma.reportRun.create({
+    data: {
+      shop,
+      configKey: configKey(filters),
+      config: JSON.stringify(filters),
+      pagesTotal: Math.max(1, Math.ceil(customers / CUSTOMERS_PER_REQUEST)),
+    },
+  });
+
+  const expired = await prisma.reportRun.findMany({
+    where: { shop },
+    orderBy: { createdAt: "desc" },
+    skip: KEEP_RUNS,
+    select: { id: true },
+  });
+  if (expired.length) {
+    await prisma.reportRun.deleteMany({
+      where: { id: { in: expired.map(({ id }) => id) } },
+    });
+  }
+
+  return run;
+};
+
+/**
+ * Fetches the page of the shop's customers after the run's GraphQL cursor and
+ * stores their rows, built from the synced figures the rest of the report
+ * uses. Customers not synced or converted yet have no row. The rows and the
+ * page's end cursor are written together, so a run that stops part way
+ * resumes after the last stored page. Returns null after the last page.
+ */
+const fetchNextPage = async (
+  admin: AdminApiContext,
+  run: ReportRun,
+  context: ReportContext,
+) => {
+  const { customers: page } = await adminGraphql(
+    admin,
+    `#graphql
+      query ReportCustomerPage($first: Int!, $after: String) {
+        customers(first: $first, after: $after) {
+          nodes {
+            id
+          }
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+        }
+      }`,
+    { first: CUSTOMERS_PER_REQUEST, after: run.cursor },
+  );
+  if (!page.nodes.length || !page.pageInfo.endCursor) return null;
+
+  const customers = await prisma.customer.findMany({
+    where: {
+      ...reportCustomersWhere(run.shop),
+      id: { in: page.nodes.map(({ id }) => id) },
+    },
+  });
+  const [, updated] = await prisma.$transaction([
+    prisma.reportRunRow.createMany({
+      data: customers.map((customer) => ({
+        runId: run.id,
+        customerId: customer.id,
+        data: JSON.stringify(toReportRow(customer, context)),
+      })),
+    }),
+    prisma.reportRun.update({
+      where: { id: run.id },
+      data: {
+        cursor: page.pageInfo.endCursor,
+        pagesFetched: { increment: 1 },
+      },
+    }),
+  ]);
+
+  return page.pageInfo.hasNextPage ? updated : null;
+};
+
+/**
+ * Scores and sorts the fetched rows, then replaces them with the matching
+ * customers in result order so the page can read results a page at a time.
+ * The rows are swapped and the run completed in one transaction, so a run
+ * that fails here still has every fetched row to finish from when it is
+ * resumed, and a completed run is never finished again.
+ */
+const finishRun = async (
+  run: ReportRun,
+  filters: ReportFilters,
+  context: ReportContext,
+) => {
+  const stored = await prisma.reportRunRow.findMany({
+    where: { runId: run.id },
+  });
+  const rows = stored.map((row) => JSON.parse(row.data) as ReportRow);
+  const { predictions } = await getClvPredictions(run.shop);
+  const { customers, matching } = applyReportFilters(
+    rows,
+    filters,
+    predictions,
+  );
+
+  const summary = summarize(customers, matching, {
+    currencyCode: context.currencyCode,
+    missingCostLineItems: context.missingCostLineItems,
+    notConvertedCustomers: context.notConvertedCustomers,
+  });
+
+  await prisma.reportRun.update({
+    where: { id: run.id },
+    data: { updatedAt: new Date() },
+  });
+  await prisma.$transaction(
+    async (tx) => {
+      await tx.reportRunRow.deleteMany({ where: { runId: run.id } });
+      for (let start = 0; start < customers.length; start += PAGE_SIZE) {
+        await tx.reportRunRow.createMany({
+          data: customers
+            .slice(start, start + PAGE_SIZE)
+            .map((customer, index) => ({
+              runId: run.id,
+              customerId: customer.id,
+              position: start + index,
+              data: JSON.stringify(customer),
+            })),
+        });
+      }
+      await tx.reportRun.update({
+        where: { id: run.id },
+        data: {
+          status: "completed",
+          completedAt: new Date(),
+          error: null,
+          summary: JSON.stringify(summary),
+        },
+      });
+    },
+    { timeout: FINISH_TIMEOUT_MS },
+  );
+};
+
+const processRun = async (claimed: ReportRun) => {
+  try {
+    const filters = JSON.parse(claimed.config) as ReportFilters;
+    const context = await loadReportContext(claimed.shop, filters.basis);
+    const { admin } = await unauthenticated.admin(claimed.shop);
+
+    let run: ReportRun | null = claimed;
+    let last: ReportRun = claimed;
+    while (run) {
+      last = run;
+      run = await fetchNextPage(admin, run, context);
+    }
+
+    await finishRun(last, filters, context);
+  } catch (error) {
+    console.error(`Report run ${claimed.id} failed`, error);
+    await prisma.reportRun.update({
+      where: { id: claimed.id },
+      data: {
+        status: "failed",
+        error: error instanceof Error ? error.message : "Report failed.",
+      },
+    });
+  }
+};
+
+/**
+ * Claims a pending run and builds it in the background of the app server.
+ * The claim makes sure only one process works on a run at a time.
+ */
+const startRun = async (id: string) => {
+  const claimed = await prisma.reportRun.updateMany({
+    where: { id, status: "pending" },
+    data: { status: "running" },
+  });
+  if (!claimed.count) return;
+
+  const run = await prisma.reportRun.findUnique({ where: { id } });
+  if (run) void processRun(run);
+};
+
+/**
+ * Returns the run holding results for these filters, starting a new one when
+ * there is none or the last one is out of date. Failed runs are returned as
+ * they are so the page can offer to resume them.
+ */
+export const findOrStartReportRun = async (
+  shop: string,
+  filters: ReportFilters,
+  lastSyncedAt: string | null,
+) => {
+  const latest = await prisma.reportRun.findFirst({
+    where: { shop, configKey: configKey(filters) },
+    orderBy: { createdAt: "desc" },
+  });
+
+  const outdated =
+    latest?.status === "completed" &&
+    (!latest.completedAt ||
+      Date.now() - latest.completedAt.getTime() > RESULT_TTL_MS ||
+      (lastSyncedAt !== null && latest.completedAt < new Date(lastSyncedAt)));
+  if (latest && !outdated) return latest;
+
+  return startNewReportRun(shop, filters);
+};
+
+export const startNewReportRun = async (
+  shop: string,
+  filters: ReportFilters,
+) => {
+  const run = await createRun(shop, filters);
+  await startRun(run.id);
+  return (await prisma.reportRun.findUnique({ where: { id: run.id } })) || run;
+};
+
+/**
+ * Puts a failed run back in the queue. Pages fetched before the failure are
+ * kept and fetching continues from the stored cursor.
+ */
+export const resumeReportRun = async (shop: string, id: string) => {
+  const reset = await prisma.reportRun.updateMany({
+    where: { id, shop, status: "failed" },
+    data: { status: "pending", error: null },
+  });
+  if (!reset.count) return false;
+
+  await startRun(id);
+  return true;
+};
+
+export const getReportRunPage = async (
+  runId: string,
+  start: number,
+  take: number,
+) => {
+  const rows = await prisma.reportRunRow.findMany({
+    where: { runId, position: { not: null } },
+    orderBy: { position: "asc" },
+    skip: start,
+    take,
+  });
+  return rows.map((row) => JSON.parse(row.data) as ReportCustomer);
+};
+
+/**
+ * Reads a finished run's results in order, a page at a time.
+ */
+export async function* reportRunPages(runId: string) {
+  let position = 0;
+  for (;;) {
+    const rows = await prisma.reportRunRow.findMany({
+      where: { runId, position: { gte: position } },
+      orderBy: { position: "asc" },
+      take: PAGE_SIZE,
+    });
+    if (!rows.length) return;
+    yield rows.map((row) => JSON.parse(row.data) as ReportCustomer);
+    position = (rows[rows.length - 1].position ?? position) + 1;
+  }
+}
+
+/**
+ * Picks up runs that stopped part way, such as after a deploy.
+ */
+export const resumeReportRuns = async (now = new Date()) => {
+  const stale = await prisma.reportRun.findMany({
+    where: {
+      OR: [
+        { status: "pending" },
+        {
+          status: "running",
+          updatedAt: { lt: new Date(now.getTime() - STALE_AFTER_MS) },
+        },
+      ],
+    },
+  });
+
+  for (const run of stale) {
+    const claimed = await prisma.reportRun.updateMany({
+      where: { id: run.id, status: run.status, updatedAt: run.updatedAt },
+      data: { status: "running" },
+    });
+    if (claimed.count) void processRun(run);
+  }
+};
@@ -0,0 +1,205 @@
+import type { Customer, ReportRun } from "@prisma/client";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { adminGraphql } from "../admin-graphql.server";
+import prisma from "../db.server";
+import { unauthenticated } from "../shopify.server";
+import { getClvPredictions } from "./clv-model.server";
+import {
+  loadReportContext,
+  parseReportFilters,
+  toReportRow,
+} from "./customer-report.server";
+import { resumeReportRun } from "./report-runs.server";
+
+vi.mock("../db.server", () => ({
+  default: {
+    reportRun: { findUnique: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+    reportRunRow: { createMany: vi.fn(), findMany: vi.fn() },
+    customer: { findMany: vi.fn() },
+    $transaction: vi.fn(),
+  },
+}));
+vi.mock("../admin-graphql.server", () => ({ adminGraphql: vi.fn() }));
+vi.mock("../shopify.server", () => ({
+  unauthenticated: { admin: vi.fn() },
+}));
+vi.mock("./clv-model.server", () => ({ getClvPredictions: vi.fn() }));
+vi.mock("./customer-report.server", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./customer-report.server")>()),
+  loadReportContext: vi.fn(),
+}));
+
+const shop = "example.myshopify.com";
+
+const context = {
+  currencyCode: "USD",
+  deductions: new Map<string, number>(),
+  profits: new Map<string, number>(),
+  missingCostLineItems: 0,
+  notConvertedCustomers: 0,
+  now: new Date("2026-03-01T00:00:00Z"),
+};
+
+const customer = (id: string, amountSpentShop: number): Customer => ({
+  shop,
+  id,
+  displayName: id,
+  email: null,
+  createdAt: null,
+  numberOfOrders: 1,
+  amountSpent: amountSpentShop,
+  currencyCode: "USD",
+  amountSpentShop,
+  tags: "[]",
+  firstOrderAt: null,
+  lastOrderAt: null,
+  firstVisit: null,
+  syncedAt: new Date(),
+});
+
+// A run that failed after storing its first page.
+const failedRun: ReportRun = {
+  id: "run-1",
+  shop,
+  configKey: "",
+  config: JSON.stringify(parseReportFilters(new URLSearchParams())),
+  status: "failed",
+  cursor: "cursor-1",
+  pagesFetched: 1,
+  pagesTotal: 2,
+  summary: null,
+  error: "Throttled",
+  completedAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+// Stands in for the interactive transaction's client.
+const tx = {
+  reportRunRow: { deleteMany: vi.fn(), createMany: vi.fn() },
+  reportRun: { update: vi.fn() },
+};
+
+// Stands in for the run's stored rows.
+let storedRows: Array<{
+  runId: string;
+  customerId: string;
+  position?: number | null;
+  data: string;
+}>;
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  storedRows = [
+    {
+      runId: failedRun.id,
+      customerId: "gid://shopify/Customer/1",
+      position: null,
+      data: JSON.stringify(
+        toReportRow(customer("gid://shopify/Customer/1", 50), context),
+      ),
+    },
+  ];
+
+  vi.mocked(unauthenticated.admin).mockResolvedValue({ admin: {} } as never);
+  vi.mocked(loadReportContext).mockResolvedValue(context);
+  vi.mocked(getClvPredictions).mockResolvedValue({
+    predictions: new Map(),
+  } as never);
+  vi.mocked(adminGraphql).mockResolvedValue({
+    customers: {
+      nodes: [{ id: "gid://shopify/Customer/2" }],
+      pageInfo: { hasNextPage: false, endCursor: "cursor-2" },
+    },
+  } as never);
+  vi.mocked(prisma.customer.findMany).mockResolvedValue([
+    customer("gid://shopify/Customer/2", 80),
+  ]);
+
+  vi.mocked(prisma.reportRun.updateMany).mockResolvedValue({ count: 1 });
+  vi.mocked(prisma.reportRun.findUnique).mockResolvedValue({
+    ...failedRun,
+    status: "running",
+    error: null,
+  });
+  vi.mocked(prisma.reportRun.update).mockImplementation((async () => ({
+    ...failedRun,
+    status: "running",
+  })) as never);
+  vi.mocked(prisma.reportRunRow.createMany).mockImplementation((async ({
+    data,
+  }: {
+    data: typeof storedRows;
+  }) => {
+    storedRows.push(...data);
+    return { count: data.length };
+  }) as never);
+  vi.mocked(prisma.reportRunRow.findMany).mockImplementation(
+    (async () => storedRows) as never,
+  );
+  vi.mocked(prisma.$transaction).mockImplementation((async (
+    operations: Promise<unknown>[] | ((client: typeof tx) => Promise<void>),
+  ) =>
+    typeof operations === "function"
+      ? operations(tx)
+      : Promise.all(operations)) as never);
+});
+
+describe("resumeReportRun", () => {
+  it("fetches on from the stored cursor and keeps the pages already fetched", async () => {
+    expect(await resumeReportRun(shop, failedRun.id)).toBe(true);
+    await vi.waitFor(() => expect(tx.reportRun.update).toHaveBeenCalled());
+
+    expect(prisma.reportRun.updateMany).toHaveBeenCalledWith({
+      where: { id: failedRun.id, shop, status: "failed" },
+      data: { status: "pending", error: null },
+    });
+    expect(adminGraphql).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(adminGraphql).mock.calls[0][2]).toEqual({
+      first: 250,
+      after: "cursor-1",
+    });
+    expect(prisma.reportRun.update).toHaveBeenCalledWith({
+      where: { id: failedRun.id },
+      data: { cursor: "cursor-2", pagesFetched: { increment: 1 } },
+    });
+
+    // Both pages are sorted into the results, the highest spender first.
+    expect(
+      tx.reportRunRow.createMany.mock.calls[0][0].data.map(
+        (row: { customerId: string; position: number }) => [
+          row.customerId,
+          row.position,
+        ],
+      ),
+    ).toEqual([
+      ["gid://shopify/Customer/2", 0],
+      ["gid://shopify/Customer/1", 1],
+    ]);
+  });
+
+  it("completes the run in the transaction that stores its results", async () => {
+    await resumeReportRun(shop, failedRun.id);
+    await vi.waitFor(() => expect(tx.reportRun.update).toHaveBeenCalled());
+
+    expect(tx.reportRun.update).toHaveBeenCalledWith({
+      where: { id: failedRun.id },
+      data: expect.objectContaining({ status: "completed", error: null }),
+    });
+    expect(prisma.reportRun.update).not.toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ status: "completed" }),
+      }),
+    );
+    expect(
+      JSON.parse(tx.reportRun.update.mock.calls[0][0].data.summary),
+    ).toMatchObject({ totalCustomers: 2, currencyCode: "USD" });
+  });
+
+  it("leaves runs that have not failed alone", async () => {
+    vi.mocked(prisma.reportRun.updateMany).mockResolvedValue({ count: 0 });
+
+    expect(await resumeReportRun(shop, failedRun.id)).toBe(false);
+    expect(adminGraphql).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,240 @@
+import type { ReportSchedule } from "@prisma/client";
+import prisma from "../db.server";
+import { sendMail } from "../mailer.server";
+import {
+  parseReportFilters,
+  runCustomerReport,
+} from "./customer-report.server";
+import {
+  customerReportCsv,
+  customerReportFilename,
+} from "./report-export.server";
+import type { ScheduleFrequency } from "./schedule";
+
+export type ScheduleInput = {
+  frequency: ScheduleFrequency;
+  hour: number;
+  minute: number;
+  weekday: number | null;
+  monthDay: number | null;
+  timezone: string;
+  recipients: string[];
+  enabled: boolean;
+};
+
+type ScheduleTiming = Pick<
+  ScheduleInput,
+  "frequency" | "hour" | "minute" | "weekday" | "monthDay" | "timezone"
+>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EMAIL_PATTERN = /^[^\s@,]+@[^\s@,]+\.[^\s@,]+$/;
+
+export const parseRecipients = (value: string) =>
+  value
+    .split(/[\s,;]+/)
+    .map((email) => email.trim())
+    .filter(Boolean);
+
+export const invalidRecipients = (recipients: string[]) =>
+  recipients.filter((email) => !EMAIL_PATTERN.test(email));
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const zonedParts = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+  const value = (type: string) =>
+    Number(parts.find((part) => part.type === type)?.value || 0);
+
+  return {
+    year: value("year"),
+    month: value("month") - 1,
+    day: value("day"),
+    hour: value("hour"),
+    minute: value("minute"),
+    second: value("second"),
+  };
+};
+
+// Milliseconds the zone is ahead of UTC at the given instant.
+const zoneOffset = (date: Date, timeZone: string) => {
+  const parts = zonedParts(date, timeZone);
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  );
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+/**
+ * Converts a wall-clock time in a time zone to a UTC instant. The second pass
+ * corrects the offset when the first guess lands across a DST change.
+ */
+const zonedTimeToUtc = (
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string,
+) => {
+  const wallClock = Date.UTC(year, month, day, hour, minute);
+  const guess = wallClock - zoneOffset(new Date(wallClock), timeZone);
+  return new Date(wallClock - zoneOffset(new Date(guess), timeZone));
+};
+
+/**
+ * Returns the first run strictly after `after`, at the schedule's time of day
+ * in its time zone.
+ */
+export const computeNextRunAt = (schedule: ScheduleTiming, after: Date) => {
+  const today = zonedParts(after, schedule.timezone);
+
+  for (let offset = 0; offset <= 366; offset += 1) {
+    const date = new Date(
+      Date.UTC(today.year, today.month, today.day) + offset * DAY_MS,
+    );
+    const matches =
+      schedule.frequency === "daily" ||
+      (schedule.frequency === "weekly" &&
+        date.getUTCDay() === (schedule.weekday ?? 1)) ||
+      (schedule.frequency === "monthly" &&
+        date.getUTCDate() === (schedule.monthDay ?? 1));
+    if (!matches) continue;
+
+    const runAt = zonedTimeToUtc(
+      date.getUTCFullYear(),
+      date.getUTCMonth(),
+      date.getUTCDate(),
+      schedule.hour,
+      schedule.minute,
+      schedule.timezone,
+    );
+    if (runAt > after) return runAt;
+  }
+
+  throw new Error("Could not compute the next scheduled run.");
+};
+
+export const saveReportSchedule = async (
+  shop: string,
+  presetId: string,
+  input: ScheduleInput,
+) => {
+  const data = {
+    frequency: input.frequency,
+    hour: input.hour,
+    minute: input.minute,
+    weekday: input.frequency === "weekly" ? input.weekday : null,
+    monthDay: input.frequency === "monthly" ? input.monthDay : null,
+    timezone: input.timezone,
+    recipients: input.recipients.join(", "),
+    enabled: input.enabled,
+    nextRunAt: computeNextRunAt(input, new Date()),
+    lastError: null,
+  };
+
+  await prisma.reportSchedule.upsert({
+    where: { presetId },
+    create: { shop, presetId, ...data },
+    update: data,
+  });
+};
+
+export const deleteReportSchedule = async (shop: string, presetId: string) => {
+  await prisma.reportSchedule.deleteMany({ where: { shop, presetId } });
+};
+
+/**
+ * Runs the preset through the same filters and sort as the report page and
+ * emails the CSV to the schedule's recipients.
+ */
+export const deliverReportSchedule = async (schedule: ReportSchedule) => {
+  const preset = await prisma.reportPreset.findFirst({
+    where: { id: schedule.presetId, shop: schedule.shop },
+  });
+  if (!preset) {
+    throw new Error("The saved report no longer exists.");
+  }
+
+  let config: Record<string, string> = {};
+  try {
+    config = JSON.parse(preset.config || "{}");
+  } catch {
+    config = {};
+  }
+
+  const filters = parseReportFilters(new URLSearchParams(config));
+  const { customers } = await runCustomerReport(schedule.shop, filters);
+  const filename = customerReportFilename(filters.basis);
+
+  await sendMail({
+    to: parseRecipients(schedule.recipients),
+    subject: `${preset.name}: customer report for ${schedule.shop}`,
+    text: `The saved report "${preset.name}" matched ${customers.length} customers. The full list is attached as ${filename}.`,
+    attachments: [
+      {
+        filename,
+        content: await customerReportCsv(customers),
+        contentType: "text/csv; charset=utf-8",
+      },
+    ],
+  });
+};
+
+/**
+ * Sends every enabled schedule that is due. Each schedule is claimed by moving
+ * its nextRunAt forward first, so several app instances never send the same
+ * run twice. Failures are recorded on the schedule and retried at the next run.
+ */
+export const runDueSchedules = async (now = new Date()) => {
+  const due = await prisma.reportSchedule.findMany({
+    where: { enabled: true, nextRunAt: { lte: now } },
+    orderBy: { nextRunAt: "asc" },
+  });
+
+  for (const schedule of due) {
+    const claimed = await prisma.reportSchedule.updateMany({
+      where: { id: schedule.id, nextRunAt: schedule.nextRunAt },
+      data: { nextRunAt: computeNextRunAt(schedule as ScheduleTiming, now) },
+    });
+    if (!claimed.count) continue;
+
+    try {
+      await deliverReportSchedule(schedule);
+      await prisma.reportSchedule.update({
+        where: { id: schedule.id },
+        data: { lastRunAt: now, lastError: null },
+      });
+    } catch (error) {
+      console.error(`Scheduled report ${schedule.id} failed`, error);
+      await prisma.reportSchedule.update({
+        where: { id: schedule.id },
+        data: {
+          lastError:
+            error instanceof Error ? error.message : "Delivery failed.",
+        },
+      });
+    }
+  }
+};
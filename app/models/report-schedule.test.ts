@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from "vitest";
+import { computeNextRunAt } from "./report-schedule.server";
+
+vi.mock("../db.server", () => ({ default: {} }));
+vi.mock("../shopify.server", () => ({ unauthenticated: {} }));
+
+const timing = {
+  frequency: "daily" as const,
+  hour: 9,
+  minute: 30,
+  weekday: null,
+  monthDay: null,
+  timezone: "UTC",
+};
+
+describe("computeNextRunAt", () => {
+  it("runs later the same day when the time has not passed", () => {
+    expect(
+      computeNextRunAt(timing, new Date("2026-03-10T08:00:00Z")).toISOString(),
+    ).toBe("2026-03-10T09:30:00.000Z");
+  });
+
+  it("runs the next day once the time has passed", () => {
+    expect(
+      computeNextRunAt(timing, new Date("2026-03-10T09:30:00Z")).toISOString(),
+    ).toBe("2026-03-11T09:30:00.000Z");
+  });
+
+  it("runs on the schedule's weekday", () => {
+    // 2026-03-10 is a Tuesday; weekday 5 is Friday.
+    expect(
+      computeNextRunAt(
+        { ...timing, frequency: "weekly", weekday: 5 },
+        new Date("2026-03-10T12:00:00Z"),
+      ).toISOString(),
+    ).toBe("2026-03-13T09:30:00.000Z");
+  });
+
+  it("runs on the schedule's day of the month", () => {
+    expect(
+      computeNextRunAt(
+        { ...timing, frequency: "monthly", monthDay: 5 },
+        new Date("2026-03-10T12:00:00Z"),
+      ).toISOString(),
+    ).toBe("2026-04-05T09:30:00.000Z");
+  });
+
+  it("keeps the wall-clock time across a DST change", () => {
+    const newYork = { ...timing, timezone: "America/New_York" };
+    // New York moves from UTC-5 to UTC-4 on 2026-03-08.
+    expect(
+      computeNextRunAt(newYork, new Date("2026-03-07T15:00:00Z")).toISOString(),
+    ).toBe("2026-03-08T13:30:00.000Z");
+    expect(
+      computeNextRunAt(newYork, new Date("2026-03-06T15:00:00Z")).toISOString(),
+    ).toBe("2026-03-07T14:30:00.000Z");
+  });
+
+  it("uses the day in the schedule's time zone", () => {
+    // 08:00 on 2026-03-11 in Tokyo, while it is still 2026-03-10 in UTC.
+    expect(
+      computeNextRunAt(
+        { ...timing, timezone: "Asia/Tokyo" },
+        new Date("2026-03-10T23:00:00Z"),
+      ).toISOString(),
+    ).toBe("2026-03-11T00:30:00.000Z");
+  });
+});
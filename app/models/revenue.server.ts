@@ -0,0 +1,91 @@
+import type { Order } from "@prisma/client";
+import prisma from "../db.server";
+import type { RevenueBasis } from "./revenue";
+
+/**
+ * Sums, per customer, what the revenue basis takes off gross spend. Order
+ * totals are already net of discounts, so "net of refunds" subtracts refunds
+ * and "net merchandise" also subtracts shipping and taxes. Amounts are in the
+ * shop currency. Cancelled orders are ignored.
+ */
+export const loadRevenueDeductions = async (
+  shop: string,
+  basis: RevenueBasis,
+) => {
+  const deductions = new Map<string, number>();
+  if (basis === "gross") return deductions;
+
+  const groups = await prisma.order.groupBy({
+    by: ["customerId"],
+    where: { shop, cancelledAt: null, customerId: { not: null } },
+    _sum: { totalRefunded: true, totalShipping: true, totalTax: true },
+  });
+
+  for (const group of groups) {
+    if (!group.customerId) continue;
+    let deduction = group._sum.totalRefunded || 0;
+    if (basis === "net_merchandise") {
+      deduction += (group._sum.totalShipping || 0) + (group._sum.totalTax || 0);
+    }
+    deductions.set(group.customerId, deduction);
+  }
+
+  return deductions;
+};
+
+/**
+ * Applies a customer's deduction to their gross spend. Refunds can include
+ * refunded shipping and tax, so the result is floored at zero.
+ */
+export const netRevenue = (
+  grossSpent: number,
+  customerId: string,
+  deductions: Map<string, number>,
+) => Math.max(0, grossSpent - (deductions.get(customerId) || 0));
+
+/**
+ * A single order's revenue on the given basis, in the shop currency. Like
+ * customer spend, it is floored at zero.
+ */
+export const orderRevenue = (
+  order: Pick<
+    Order,
+    "totalPrice" | "totalRefunded" | "totalShipping" | "totalTax"
+  >,
+  basis: RevenueBasis,
+) => {
+  if (basis === "gross") return order.totalPrice;
+  let revenue = order.totalPrice - order.totalRefunded;
+  if (basis === "net_merchandise") {
+    revenue -= order.totalShipping + order.totalTax;
+  }
+  return Math.max(0, revenue);
+};
+
+export const getRevenueBreakdown = async (shop: string) => {
+  const aggregate = await prisma.order.aggregate({
+    where: { shop, cancelledAt: null },
+    _sum: {
+      totalPrice: true,
+      totalDiscounts: true,
+      totalRefunded: true,
+      totalShipping: true,
+      totalTax: true,
+    },
+  });
+
+  const gross = aggregate._sum.totalPrice || 0;
+  const refunds = aggregate._sum.totalRefunded || 0;
+  const shipping = aggregate._sum.totalShipping || 0;
+  const taxes = aggregate._sum.totalTax || 0;
+
+  return {
+    gross,
+    discounts: aggregate._sum.totalDiscounts || 0,
+    refunds,
+    shipping,
+    taxes,
+    netOfRefunds: gross - refunds,
+    netMerchandise: gross - refunds - shipping - taxes,
+  };
+};
@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import prisma from "../db.server";
+import {
+  loadRevenueDeductions,
+  netRevenue,
+  orderRevenue,
+} from "./revenue.server";
+
+vi.mock("../db.server", () => ({
+  default: { order: { groupBy: vi.fn() } },
+}));
+
+const order = {
+  totalPrice: 100,
+  totalRefunded: 20,
+  totalShipping: 5,
+  totalTax: 10,
+};
+
+beforeEach(() => {
+  vi.mocked(prisma.order.groupBy).mockReset();
+  vi.mocked(prisma.order.groupBy).mockResolvedValue([
+    {
+      customerId: "a",
+      _sum: { totalRefunded: 20, totalShipping: 5, totalTax: 10 },
+    },
+    {
+      customerId: "b",
+      _sum: { totalRefunded: null, totalShipping: 8, totalTax: null },
+    },
+    {
+      customerId: null,
+      _sum: { totalRefunded: 50, totalShipping: 0, totalTax: 0 },
+    },
+  ] as never);
+});
+
+describe("orderRevenue", () => {
+  it("applies each basis", () => {
+    expect(orderRevenue(order, "gross")).toBe(100);
+    expect(orderRevenue(order, "net_refunds")).toBe(80);
+    expect(orderRevenue(order, "net_merchandise")).toBe(65);
+  });
+
+  it("floors fully refunded orders at zero", () => {
+    expect(
+      orderRevenue({ ...order, totalRefunded: 100 }, "net_merchandise"),
+    ).toBe(0);
+  });
+});
+
+describe("loadRevenueDeductions", () => {
+  it("deducts nothing on the gross basis", async () => {
+    const deductions = await loadRevenueDeductions("shop", "gross");
+    expect(deductions.size).toBe(0);
+    expect(prisma.order.groupBy).not.toHaveBeenCalled();
+  });
+
+  it("deducts refunds net of refunds", async () => {
+    const deductions = await loadRevenueDeductions("shop", "net_refunds");
+    expect(Object.fromEntries(deductions)).toEqual({ a: 20, b: 0 });
+  });
+
+  it("also deducts shipping and tax for net merchandise", async () => {
+    const deductions = await loadRevenueDeductions("shop", "net_merchandise");
+    expect(Object.fromEntries(deductions)).toEqual({ a: 35, b: 8 });
+  });
+});
+
+describe("netRevenue", () => {
+  it("subtracts the customer's deduction and floors at zero", () => {
+    const deductions = new Map([
+      ["a", 35],
+      ["b", 80],
+    ]);
+    expect(netRevenue(100, "a", deductions)).toBe(65);
+    expect(netRevenue(50, "b", deductions)).toBe(0);
+    expect(netRevenue(50, "c", deductions)).toBe(50);
+  });
+});
@@ -0,0 +1,13 @@
+export type RevenueBasis = "gross" | "net_refunds" | "net_merchandise";
+
+export const REVENUE_BASES: Array<{ key: RevenueBasis; label: string }> = [
+  { key: "gross", label: "Gross" },
+  { key: "net_refunds", label: "Net of refunds" },
+  { key: "net_merchandise", label: "Net merchandise" },
+];
+
+export const revenueBasisLabel = (key: RevenueBasis) =>
+  REVENUE_BASES.find((basis) => basis.key === key)?.label || key;
+
+export const parseRevenueBasis = (value: string | null): RevenueBasis =>
+  REVENUE_BASES.find((basis) => basis.key === value)?.key || "gross";
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { scoreRfm } from "./rfm";
+
+const customer = (
+  id: number,
+  ordersCount: number,
+  totalSpent: number,
+  lastOrderDay: number | null,
+) => ({
+  id: `gid://shopify/Customer/${id}`,
+  ordersCount,
+  totalSpent,
+  lastOrderDate:
+    lastOrderDay === null
+      ? null
+      : new Date(Date.UTC(2026, 0, lastOrderDay)).toISOString(),
+});
+
+// Ten customers whose recency, order count and spend all rise together.
+const ranked = Array.from({ length: 10 }, (_, index) =>
+  customer(index + 1, index + 1, (index + 1) * 10, index + 1),
+);
+
+describe("scoreRfm", () => {
+  it("scores each dimension by quintile", () => {
+    const scores = scoreRfm(ranked);
+    ranked.forEach((input, index) => {
+      const quintile = Math.floor(index / 2) + 1;
+      expect(scores.get(input.id)).toMatchObject({
+        recency: quintile,
+        frequency: quintile,
+        monetary: quintile,
+      });
+    });
+  });
+
+  it("assigns segments from the recency and frequency-monetary grid", () => {
+    const scores = scoreRfm(ranked);
+    expect(scores.get(ranked[9].id)?.segment).toBe("champions");
+    expect(scores.get(ranked[0].id)?.segment).toBe("hibernating");
+    expect(scores.get(ranked[4].id)?.segment).toBe("need_attention");
+  });
+
+  it("treats a recent single small order as a new customer", () => {
+    const newest = customer(11, 1, 5, 30);
+    const scores = scoreRfm([...ranked, newest]);
+    expect(scores.get(newest.id)).toMatchObject({
+      recency: 5,
+      frequency: 1,
+      monetary: 1,
+      segment: "new_customers",
+    });
+  });
+
+  it("gives tied values the same score", () => {
+    const tied = ranked.map((input) => ({ ...input, totalSpent: 100 }));
+    const scores = scoreRfm(tied);
+    for (const input of tied) {
+      expect(scores.get(input.id)?.monetary).toBe(1);
+    }
+  });
+
+  it("leaves out customers without orders", () => {
+    const scores = scoreRfm([
+      ...ranked,
+      customer(12, 0, 0, null),
+      customer(13, 2, 40, null),
+    ]);
+    expect(scores.size).toBe(ranked.length);
+  });
+});
@@ -0,0 +1,127 @@
+export type RfmSegment =
+  | "champions"
+  | "loyal_customers"
+  | "potential_loyalists"
+  | "new_customers"
+  | "promising"
+  | "need_attention"
+  | "about_to_sleep"
+  | "at_risk"
+  | "cannot_lose_them"
+  | "hibernating";
+
+export type RfmScore = {
+  recency: number;
+  frequency: number;
+  monetary: number;
+  segment: RfmSegment;
+};
+
+export const RFM_SEGMENTS: Array<{ key: RfmSegment; label: string }> = [
+  { key: "champions", label: "Champions" },
+  { key: "loyal_customers", label: "Loyal customers" },
+  { key: "potential_loyalists", label: "Potential loyalists" },
+  { key: "new_customers", label: "New customers" },
+  { key: "promising", label: "Promising" },
+  { key: "need_attention", label: "Need attention" },
+  { key: "about_to_sleep", label: "About to sleep" },
+  { key: "at_risk", label: "At risk" },
+  { key: "cannot_lose_them", label: "Cannot lose them" },
+  { key: "hibernating", label: "Hibernating" },
+];
+
+export const segmentLabel = (key: RfmSegment) =>
+  RFM_SEGMENTS.find((segment) => segment.key === key)?.label || key;
+
+export const parseRfmSegment = (value: string | null) =>
+  RFM_SEGMENTS.find((segment) => segment.key === value)?.key || null;
+
+type RfmInput = {
+  id: string;
+  lastOrderDate: string | null;
+  ordersCount: number;
+  totalSpent: number;
+};
+
+/**
+ * Scores values 1-5 by quintile. Equal values share the score of the first
+ * position they occupy so ties never straddle two quintiles.
+ */
+const quintileScores = (entries: Array<{ id: string; value: number }>) => {
+  const sorted = [...entries].sort((a, b) => a.value - b.value);
+  const scores = new Map<string, number>();
+  let tieStart = 0;
+
+  sorted.forEach((entry, index) => {
+    if (index > 0 && entry.value !== sorted[index - 1].value) {
+      tieStart = index;
+    }
+    scores.set(
+      entry.id,
+      Math.min(5, Math.floor((tieStart / sorted.length) * 5) + 1),
+    );
+  });
+
+  return scores;
+};
+
+// The widely used recency x frequency grid, with frequency and monetary
+// averaged so big single-order spenders are not treated as one-off buyers.
+const segmentFor = (recency: number, frequencyMonetary: number): RfmSegment => {
+  if (recency <= 2) {
+    if (frequencyMonetary <= 2) return "hibernating";
+    if (frequencyMonetary <= 4) return "at_risk";
+    return "cannot_lose_them";
+  }
+
+  if (recency === 3) {
+    if (frequencyMonetary <= 2) return "about_to_sleep";
+    if (frequencyMonetary === 3) return "need_attention";
+    return "loyal_customers";
+  }
+
+  if (frequencyMonetary === 1) {
+    return recency === 5 ? "new_customers" : "promising";
+  }
+  if (frequencyMonetary <= 3) return "potential_loyalists";
+  return recency === 5 ? "champions" : "loyal_customers";
+};
+
+/**
+ * Computes Recency/Frequency/Monetary scores for every customer with at least
+ * one order. Quintiles are relative to the customers passed in, which should be
+ * the whole shop rather than a filtered subset.
+ */
+export const scoreRfm = (customers: RfmInput[]) => {
+  const buyers = customers.filter(
+    (customer) => customer.ordersCount > 0 && customer.lastOrderDate,
+  );
+
+  const recency = quintileScores(
+    buyers.map((customer) => ({
+      id: customer.id,
+      value: new Date(customer.lastOrderDate as string).getTime(),
+    })),
+  );
+  const frequency = quintileScores(
+    buyers.map((customer) => ({ id: customer.id, value: customer.ordersCount })),
+  );
+  const monetary = quintileScores(
+    buyers.map((customer) => ({ id: customer.id, value: customer.totalSpent })),
+  );
+
+  const scores = new Map<string, RfmScore>();
+  for (const customer of buyers) {
+    const r = recency.get(customer.id) as number;
+    const f = frequency.get(customer.id) as number;
+    const m = monetary.get(customer.id) as number;
+    scores.set(customer.id, {
+      recency: r,
+      frequency: f,
+      monetary: m,
+      segment: segmentFor(r, Math.round((f + m) / 2)),
+    });
+  }
+
+  return scores;
+};
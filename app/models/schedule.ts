@@ -0,0 +1,50 @@
+export type ScheduleFrequency = "daily" | "weekly" | "monthly";
+
+export const SCHEDULE_FREQUENCIES: Array<{
+  key: ScheduleFrequency;
+  label: string;
+}> = [
+  { key: "daily", label: "Daily" },
+  { key: "weekly", label: "Weekly" },
+  { key: "monthly", label: "Monthly" },
+];
+
+// Matches Date#getUTCDay numbering.
+export const WEEKDAYS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+// Later days would skip short months.
+export const MAX_MONTH_DAY = 28;
+
+export const parseScheduleFrequency = (value: string | null) =>
+  SCHEDULE_FREQUENCIES.find((frequency) => frequency.key === value)?.key ||
+  null;
+
+export const describeSchedule = (schedule: {
+  frequency: string;
+  hour: number;
+  minute: number;
+  weekday: number | null;
+  monthDay: number | null;
+  timezone: string;
+}) => {
+  const time = `${String(schedule.hour).padStart(2, "0")}:${String(
+    schedule.minute,
+  ).padStart(2, "0")}`;
+
+  switch (schedule.frequency) {
+    case "weekly":
+      return `Every ${WEEKDAYS[schedule.weekday ?? 1]} at ${time} (${schedule.timezone})`;
+    case "monthly":
+      return `Monthly on day ${schedule.monthDay ?? 1} at ${time} (${schedule.timezone})`;
+    default:
+      return `Daily at ${time} (${schedule.timezone})`;
+  }
+};
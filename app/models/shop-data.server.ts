@@ -0,0 +1,65 @@
+import prisma from "../db.server";
+
+/**
+ * Deletes everything copied from the store or computed from its customers:
+ * the synced customers, orders and line items, report runs (their rows
+ * cascade), tag operations, the fitted CLV model and the sync's bookkeeping.
+ * Run when the app is uninstalled; the merchant's own settings stay until the
+ * shop is redacted, in case the app is installed again.
+ */
+export const deleteShopData = async (shop: string) => {
+  await prisma.$transaction([
+    prisma.lineItem.deleteMany({ where: { shop } }),
+    prisma.order.deleteMany({ where: { shop } }),
+    prisma.customer.deleteMany({ where: { shop } }),
+    prisma.reportRun.deleteMany({ where: { shop } }),
+    prisma.tagOperation.deleteMany({ where: { shop } }),
+    prisma.clvModel.deleteMany({ where: { shop } }),
+    prisma.syncState.deleteMany({ where: { shop } }),
+    prisma.webhookDelivery.deleteMany({ where: { shop } }),
+  ]);
+};
+
+/**
+ * Answers the shop/redact compliance webhook, sent two days after the app was
+ * uninstalled: the shop's data and its settings, presets with their schedules,
+ * cost overrides and bundles, are all deleted.
+ */
+export const redactShop = async (shop: string) => {
+  await deleteShopData(shop);
+  await prisma.$transaction([
+    prisma.reportPreset.deleteMany({ where: { shop } }),
+    prisma.costOverride.deleteMany({ where: { shop } }),
+    prisma.bundle.deleteMany({ where: { shop } }),
+    prisma.session.deleteMany({ where: { shop } }),
+  ]);
+};
+
+/**
+ * Answers the customers/redact compliance webhook: the customer, the orders
+ * Shopify lists plus any other orders stored against the customer, and the
+ * customer's rows in report runs and tag operations are deleted.
+ */
+export const redactCustomer = async (
+  shop: string,
+  customerId: string,
+  orderIds: string[],
+) => {
+  const orders = await prisma.order.findMany({
+    where: { shop, OR: [{ customerId }, { id: { in: orderIds } }] },
+    select: { id: true },
+  });
+  const redactedOrderIds = orders.map(({ id }) => id);
+
+  await prisma.$transaction([
+    prisma.lineItem.deleteMany({
+      where: { shop, orderId: { in: redactedOrderIds } },
+    }),
+    prisma.order.deleteMany({ where: { shop, id: { in: redactedOrderIds } } }),
+    prisma.customer.deleteMany({ where: { shop, id: customerId } }),
+    prisma.reportRunRow.deleteMany({ where: { customerId, run: { shop } } }),
+    prisma.tagOperationCustomer.deleteMany({
+      where: { customerId, operation: { shop } },
+    }),
+  ]);
+};
@@ -0,0 +1,378 @@
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import { adminGraphql } from "../admin-graphql.server";
+import prisma from "../db.server";
+import type { ReportFilters } from "./customer-report.server";
+import { parseReportFilters } from "./customer-report.server";
+import type { FilterCondition, FilterExpression } from "./filter-expression";
+import {
+  filterFieldLabel,
+  filterOperatorLabel,
+  parseFilterExpression,
+} from "./filter-expression";
+import type { RevenueBasis } from "./revenue";
+
+// Shopify rejects an empty segment query, so a preset without filters is
+// published as "every customer".
+const ALL_CUSTOMERS_QUERY = "number_of_orders >= 0";
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Where a published segment can pick different customers than the report.
+const SPEND_DIFFERENCE =
+  "Spend uses Shopify's amount spent rather than the report's sum of orders in the shop currency";
+const DATE_DIFFERENCE =
+  "Dates are days in the shop's time zone rather than in UTC";
+const CONVERSION_DIFFERENCE =
+  "Customers the report leaves out because their spend is not in the shop currency are included";
+
+const parseNumber = (value: string) => {
+  if (!value) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const quote = (value: string) =>
+  `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+
+const SEGMENT_DATE_ATTRIBUTES: Record<string, string> = {
+  created: "customer_added_date",
+  first_order: "first_order_date",
+  last_order: "last_order_date",
+};
+
+const COMPARATORS: Record<string, string> = {
+  eq: "=",
+  gt: ">",
+  gte: ">=",
+  lt: "<",
+  lte: "<=",
+};
+
+const joinTerms = (terms: string[], operator: "AND" | "OR") =>
+  terms.length > 1 ? `(${terms.join(` ${operator} `)})` : terms[0];
+
+/**
+ * Translates one filter builder condition. Returns null for a condition that
+ * is not finished yet, which the report ignores too, and for one the segment
+ * language cannot express, which is also added to `unsupported`. Conditions
+ * the segment only approximates add to `differences`.
+ */
+const translateCondition = (
+  condition: FilterCondition,
+  basis: RevenueBasis,
+  unsupported: Set<string>,
+  differences: Set<string>,
+) => {
+  const { field, operator } = condition;
+  const reject = (label?: string) => {
+    unsupported.add(
+      label ||
+        `${filterFieldLabel(field)} ${filterOperatorLabel(field, operator)}`,
+    );
+    return null;
+  };
+
+  if (field === "tags") {
+    if (operator !== "eq") return reject();
+    const tag = condition.value.trim();
+    return tag ? `customer_tags CONTAINS ${quote(tag)}` : null;
+  }
+
+  const dateAttribute = SEGMENT_DATE_ATTRIBUTES[field];
+  if (dateAttribute) {
+    if (operator === "empty") return reject();
+    differences.add(DATE_DIFFERENCE);
+    const start = DATE_PATTERN.test(condition.value) ? condition.value : null;
+    const end = DATE_PATTERN.test(condition.valueTo) ? condition.valueTo : null;
+    if (operator !== "between") {
+      return start
+        ? `${dateAttribute} ${COMPARATORS[operator]} ${start}`
+        : null;
+    }
+    const terms = [
+      ...(start ? [`${dateAttribute} >= ${start}`] : []),
+      ...(end ? [`${dateAttribute} <= ${end}`] : []),
+    ];
+    return terms.length ? joinTerms(terms, "AND") : null;
+  }
+
+  if (field !== "orders" && field !== "spent" && field !== "days_since") {
+    return reject(`${filterFieldLabel(field)} conditions`);
+  }
+  if (operator === "empty") return reject();
+  if (field === "spent" && basis !== "gross") {
+    return reject("Spend filters on a net revenue basis");
+  }
+
+  const value = parseNumber(condition.value);
+  const valueTo = parseNumber(condition.valueTo);
+  const bounds = (
+    operator === "between"
+      ? [
+          [">=", value],
+          ["<=", valueTo],
+        ]
+      : [[COMPARATORS[operator], value]]
+  ).filter((bound): bound is [string, number] => bound[1] !== null);
+  if (!bounds.length) return null;
+  if (field !== "orders") {
+    differences.add(field === "spent" ? SPEND_DIFFERENCE : DATE_DIFFERENCE);
+  }
+
+  if (field !== "days_since") {
+    const attribute = field === "orders" ? "number_of_orders" : "amount_spent";
+    return joinTerms(
+      bounds.map(
+        ([comparator, bound]) => `${attribute} ${comparator} ${bound}`,
+      ),
+      "AND",
+    );
+  }
+
+  // Whole days since the last order become relative last order dates, as
+  // with the flat filters: at least N days ago is on or before -Nd.
+  let minDays: number | null = null;
+  let maxDays: number | null = null;
+  for (const [comparator, bound] of bounds) {
+    if (comparator === ">" || comparator === ">=" || comparator === "=") {
+      minDays = comparator === ">" ? Math.floor(bound) + 1 : Math.ceil(bound);
+    }
+    if (comparator === "<" || comparator === "<=" || comparator === "=") {
+      maxDays = comparator === "<" ? Math.ceil(bound) - 1 : Math.floor(bound);
+    }
+  }
+  return joinTerms(
+    [
+      ...(minDays !== null ? [`last_order_date <= -${minDays}d`] : []),
+      ...(maxDays !== null ? [`last_order_date >= -${maxDays}d`] : []),
+    ],
+    "AND",
+  );
+};
+
+const translateExpression = (
+  expression: FilterExpression,
+  basis: RevenueBasis,
+  unsupported: Set<string>,
+  differences: Set<string>,
+): string | null => {
+  if (expression.negate) {
+    unsupported.add("Not in the filter builder");
+    return null;
+  }
+  if (expression.type === "condition") {
+    return translateCondition(expression, basis, unsupported, differences);
+  }
+
+  const terms = expression.children
+    .map((child) => translateExpression(child, basis, unsupported, differences))
+    .filter((term): term is string => term !== null);
+  return terms.length
+    ? joinTerms(terms, expression.combinator === "or" ? "OR" : "AND")
+    : null;
+};
+
+/**
+ * Translates the report filters into Shopify's segment query language.
+ * Filters the language cannot express are listed in `unsupported`, and a
+ * segment is only published when that list is empty. Even then Shopify
+ * evaluates spend, dates and unconverted customers differently from the
+ * report; the ways that apply are listed in `differences`.
+ */
+export const buildSegmentQuery = (filters: ReportFilters) => {
+  const conditions: string[] = [];
+  const unsupported: string[] = [];
+  const differences = new Set([CONVERSION_DIFFERENCE]);
+
+  const minOrders = parseNumber(filters.minOrders);
+  const maxOrders = parseNumber(filters.maxOrders);
+  const minSpent = parseNumber(filters.minSpent);
+  const maxSpent = parseNumber(filters.maxSpent);
+
+  if (minOrders !== null) conditions.push(`number_of_orders >= ${minOrders}`);
+  if (maxOrders !== null) conditions.push(`number_of_orders <= ${maxOrders}`);
+
+  if (minSpent !== null || maxSpent !== null) {
+    // Segments only know Shopify's gross amount spent.
+    if (filters.basis !== "gross") {
+      unsupported.push("Spend filters on a net revenue basis");
+    } else {
+      differences.add(SPEND_DIFFERENCE);
+      if (minSpent !== null) conditions.push(`amount_spent >= ${minSpent}`);
+      if (maxSpent !== null) conditions.push(`amount_spent <= ${maxSpent}`);
+    }
+  }
+
+  const tags = filters.tags
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+  if (tags.length) {
+    const tagConditions = tags.map(
+      (tag) => `customer_tags CONTAINS ${quote(tag)}`,
+    );
+    const joined = tagConditions.join(
+      filters.tagsMode === "all" ? " AND " : " OR ",
+    );
+    conditions.push(tags.length > 1 ? `(${joined})` : joined);
+  }
+
+  const dateRange = (attribute: string, start: string, end: string) => {
+    if (DATE_PATTERN.test(start)) conditions.push(`${attribute} >= ${start}`);
+    if (DATE_PATTERN.test(end)) conditions.push(`${attribute} <= ${end}`);
+    if (DATE_PATTERN.test(start) || DATE_PATTERN.test(end)) {
+      differences.add(DATE_DIFFERENCE);
+    }
+  };
+  dateRange("customer_added_date", filters.createdStart, filters.createdEnd);
+  dateRange("first_order_date", filters.firstOrderStart, filters.firstOrderEnd);
+
+  // Relative dates count back whole days from today, like the report.
+  const minDaysSince = parseNumber(filters.minDaysSince);
+  const maxDaysSince = parseNumber(filters.maxDaysSince);
+  if (minDaysSince !== null || maxDaysSince !== null) {
+    differences.add(DATE_DIFFERENCE);
+  }
+  if (minDaysSince !== null) {
+    conditions.push(`last_order_date <= -${Math.ceil(minDaysSince)}d`);
+  }
+  if (maxDaysSince !== null) {
+    conditions.push(`last_order_date >= -${Math.floor(maxDaysSince)}d`);
+  }
+
+  if (filters.query) unsupported.push("Search");
+  if (filters.minProfit || filters.maxProfit) {
+    unsupported.push("Gross profit filters");
+  }
+  if (filters.segment) unsupported.push("RFM segment");
+  if (filters.lapsed) unsupported.push("Lapsed customers");
+  if (filters.highClv) unsupported.push("Top spenders");
+
+  const expression = parseFilterExpression(filters.filter);
+  if (expression) {
+    const expressionUnsupported = new Set<string>();
+    const term = translateExpression(
+      expression,
+      filters.basis,
+      expressionUnsupported,
+      differences,
+    );
+    if (term) conditions.push(term);
+    unsupported.push(...expressionUnsupported);
+  }
+
+  return {
+    query: conditions.length ? conditions.join(" AND ") : ALL_CUSTOMERS_QUERY,
+    unsupported,
+    differences: Array.from(differences),
+  };
+};
+
+export const presetSegmentQuery = (config: string) => {
+  let parsed: Record<string, string> = {};
+  try {
+    parsed = JSON.parse(config || "{}");
+  } catch {
+    parsed = {};
+  }
+  return buildSegmentQuery(parseReportFilters(new URLSearchParams(parsed)));
+};
+
+const segmentExists = async (admin: AdminApiContext, id: string) => {
+  const data = await adminGraphql(
+    admin,
+    `#graphql
+      query PresetSegment($id: ID!) {
+        segment(id: $id) {
+          id
+        }
+      }`,
+    { id },
+  );
+
+  return Boolean(data.segment);
+};
+
+const saveSegment = async (
+  admin: AdminApiContext,
+  id: string | null,
+  name: string,
+  query: string,
+) => {
+  if (id) {
+    const data = await adminGraphql(
+      admin,
+      `#graphql
+        mutation UpdatePresetSegment($id: ID!, $name: String!, $query: String!) {
+          segmentUpdate(id: $id, name: $name, query: $query) {
+            segment {
+              id
+            }
+            userErrors {
+              message
+            }
+          }
+        }`,
+      { id, name, query },
+    );
+    return data.segmentUpdate;
+  }
+
+  const data = await adminGraphql(
+    admin,
+    `#graphql
+      mutation CreatePresetSegment($name: String!, $query: String!) {
+        segmentCreate(name: $name, query: $query) {
+          segment {
+            id
+          }
+          userErrors {
+            message
+          }
+        }
+      }`,
+    { name, query },
+  );
+  return data.segmentCreate;
+};
+
+/**
+ * Creates the preset's Shopify segment, or updates the one it is already
+ * linked to. A linked segment that was deleted in Shopify is recreated.
+ * Returns an error message when the preset cannot be published.
+ */
+export const publishPresetSegment = async (
+  admin: AdminApiContext,
+  shop: string,
+  presetId: string,
+) => {
+  const preset = await prisma.reportPreset.findFirst({
+    where: { id: presetId, shop },
+  });
+  if (!preset) return { error: "Saved report not found." };
+
+  const { query, unsupported } = presetSegmentQuery(preset.config);
+  if (unsupported.length) {
+    return {
+      error: `Shopify segments cannot express: ${unsupported.join(", ")}.`,
+    };
+  }
+
+  const linkedId =
+    preset.segmentId && (await segmentExists(admin, preset.segmentId))
+      ? preset.segmentId
+      : null;
+  const result = await saveSegment(admin, linkedId, preset.name, query);
+  if (!result?.segment) {
+    return {
+      error:
+        result?.userErrors.map((error) => error.message).join("; ") ||
+        "Shopify did not save the segment.",
+    };
+  }
+
+  await prisma.reportPreset.update({
+    where: { id: preset.id },
+    data: { segmentId: result.segment.id, segmentPublishedAt: new Date() },
+  });
+  return { segmentId: result.segment.id };
+};
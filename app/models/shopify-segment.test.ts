@@ -0,0 +1,118 @@
+import { describe, expect, it, vi } from "vitest";
+import { parseReportFilters } from "./customer-report.server";
+import { buildSegmentQuery } from "./shopify-segment.server";
+
+vi.mock("../db.server", () => ({ default: {} }));
+
+const segmentFor = (params: Record<string, string>) =>
+  buildSegmentQuery(parseReportFilters(new URLSearchParams(params)));
+
+describe("buildSegmentQuery", () => {
+  it("publishes a preset without filters as every customer", () => {
+    expect(segmentFor({})).toEqual({
+      query: "number_of_orders >= 0",
+      unsupported: [],
+      differences: [
+        "Customers the report leaves out because their spend is not in the shop currency are included",
+      ],
+    });
+  });
+
+  it("translates the flat filters", () => {
+    const { query, unsupported } = segmentFor({
+      min_orders: "2",
+      max_spent: "500",
+      tags: "vip, it's",
+      tags_mode: "all",
+      created_start: "2026-01-01",
+      first_order_end: "2026-02-01",
+      min_days_since: "30",
+    });
+
+    expect(unsupported).toEqual([]);
+    expect(query).toBe(
+      [
+        "number_of_orders >= 2",
+        "amount_spent <= 500",
+        "(customer_tags CONTAINS 'vip' AND customer_tags CONTAINS 'it\\'s')",
+        "customer_added_date >= 2026-01-01",
+        "first_order_date <= 2026-02-01",
+        "last_order_date <= -30d",
+      ].join(" AND "),
+    );
+  });
+
+  it("lists where the segment differs from the report", () => {
+    expect(
+      segmentFor({ min_spent: "100", created_end: "2026-01-01" }).differences,
+    ).toEqual([
+      "Customers the report leaves out because their spend is not in the shop currency are included",
+      "Spend uses Shopify's amount spent rather than the report's sum of orders in the shop currency",
+      "Dates are days in the shop's time zone rather than in UTC",
+    ]);
+  });
+
+  it("lists the filters segments cannot express", () => {
+    expect(
+      segmentFor({
+        q: "ada",
+        min_profit: "10",
+        segment: "champions",
+        lapsed: "1",
+        high_clv: "1",
+        min_spent: "100",
+        basis: "net_refunds",
+      }).unsupported,
+    ).toEqual([
+      "Spend filters on a net revenue basis",
+      "Search",
+      "Gross profit filters",
+      "RFM segment",
+      "Lapsed customers",
+      "Top spenders",
+    ]);
+  });
+
+  it("translates the filter builder's expression", () => {
+    const filter = JSON.stringify({
+      or: [
+        ["orders", "between", "2", "5"],
+        {
+          and: [
+            ["tags", "eq", "vip"],
+            ["days_since", "lt", "30"],
+          ],
+        },
+        ["first_order", "gt", "2026-01-01"],
+      ],
+    });
+
+    expect(segmentFor({ filter })).toMatchObject({
+      query:
+        "(" +
+        [
+          "(number_of_orders >= 2 AND number_of_orders <= 5)",
+          "(customer_tags CONTAINS 'vip' AND last_order_date >= -29d)",
+          "first_order_date > 2026-01-01",
+        ].join(" OR ") +
+        ")",
+      unsupported: [],
+    });
+  });
+
+  it("rejects builder conditions segments cannot express", () => {
+    const filter = JSON.stringify({
+      and: [
+        { not: ["orders", "gt", "1"] },
+        ["segment", "eq", "champions"],
+        ["tags", "contains", "vi"],
+      ],
+    });
+
+    expect(segmentFor({ filter }).unsupported).toEqual([
+      "Not in the filter builder",
+      "RFM segment conditions",
+      "Tags has a tag containing",
+    ]);
+  });
+});
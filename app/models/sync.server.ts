@@ -0,0 +1,698 @@
+import type { SyncState } from "@prisma/client";
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import type { AdminResult } from "../admin-graphql.server";
+import { adminGraphql } from "../admin-graphql.server";
+import prisma from "../db.server";
+import { unauthenticated } from "../shopify.server";
+import type { FirstVisit } from "./attribution";
+import { shopCurrencySpend } from "./currency.server";
+
+export type SyncStatus = "idle" | "running" | "importing" | "failed";
+
+export type SyncSummary = {
+  status: SyncStatus;
+  lastSyncedAt: string | null;
+  startedAt: string | null;
+  error: string | null;
+};
+
+const WRITE_BATCH_SIZE = 500;
+const IMPORT_TIMEOUT_MS = 10 * 60 * 1000;
+// A sync is only "importing", or "running" between its two operations, for as
+// long as one request takes. One that has stayed so this long died with its
+// process and is failed so that it can be started again.
+const STALLED_AFTER_MS = 30 * 60 * 1000;
+
+// Bulk operations flatten nested connections into one JSONL line per node,
+// linked to their parent by __parentId, and allow at most two levels of
+// connections. Customers and orders with their line items are therefore read
+// by two operations, one after the other. Orders are read from the root
+// connection so guest orders and orders of deleted customers are included.
+// The queries are sent as strings to bulkOperationRunQuery. Codegen still
+// types them, and each node they select is one line of the result file.
+const CUSTOMERS_QUERY = `#graphql
+  query CustomerSyncRows {
+    customers {
+      edges {
+        node {
+          id
+          displayName
+          email
+          createdAt
+          numberOfOrders
+          tags
+          amountSpent {
+            amount
+            currencyCode
+          }
+        }
+      }
+    }
+  }`;
+
+const ORDERS_QUERY = `#graphql
+  query OrderSyncRows {
+    orders {
+      edges {
+        node {
+          id
+          customer {
+            id
+          }
+          name
+          createdAt
+          cancelledAt
+          totalPriceSet {
+            shopMoney {
+              amount
+              currencyCode
+            }
+            presentmentMoney {
+              amount
+              currencyCode
+            }
+          }
+          totalDiscountsSet {
+            shopMoney {
+              amount
+            }
+          }
+          totalRefundedSet {
+            shopMoney {
+              amount
+            }
+          }
+          totalShippingPriceSet {
+            shopMoney {
+              amount
+            }
+          }
+          totalTaxSet {
+            shopMoney {
+              amount
+            }
+          }
+          customerJourneySummary {
+            firstVisit {
+              source
+              sourceType
+              sourceDescription
+              referrerUrl
+              landingPage
+              utmParameters {
+                source
+                medium
+                campaign
+                term
+                content
+              }
+            }
+          }
+          lineItems {
+            edges {
+              node {
+                id
+                title
+                quantity
+                discountedTotalSet {
+                  shopMoney {
+                    amount
+                  }
+                }
+                product {
+                  id
+                }
+                variant {
+                  id
+                  inventoryItem {
+                    unitCost {
+                      amount
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }`;
+
+type BulkCustomerLine = AdminResult<
+  typeof CUSTOMERS_QUERY
+>["customers"]["edges"][number]["node"];
+
+type OrderNode = AdminResult<
+  typeof ORDERS_QUERY
+>["orders"]["edges"][number]["node"];
+
+type BulkOrderLine = Omit<OrderNode, "lineItems">;
+
+type BulkLineItemLine = OrderNode["lineItems"]["edges"][number]["node"] & {
+  __parentId: string;
+};
+
+const toSummary = (
+  state: {
+    status: string;
+    lastSyncedAt: Date | null;
+    startedAt: Date | null;
+    error: string | null;
+  } | null,
+): SyncSummary => ({
+  status: (state?.status as SyncStatus) || "idle",
+  lastSyncedAt: state?.lastSyncedAt?.toISOString() || null,
+  startedAt: state?.startedAt?.toISOString() || null,
+  error: state?.error || null,
+});
+
+export const getSyncSummary = async (shop: string) =>
+  toSummary(await prisma.syncState.findUnique({ where: { shop } }));
+
+const markFailed = async (shop: string, error: string) => {
+  const data = {
+    status: "failed",
+    phase: null,
+    bulkOperationId: null,
+    finishedOperationId: null,
+    customersUrl: null,
+    error,
+  };
+  await prisma.syncState.upsert({
+    where: { shop },
+    create: { shop, ...data },
+    update: data,
+  });
+};
+
+const runBulkQuery = async (admin: AdminApiContext, query: string) => {
+  const { bulkOperationRunQuery: result } = await adminGraphql(
+    admin,
+    `#graphql
+      mutation StartCustomerSync($query: String!) {
+        bulkOperationRunQuery(query: $query) {
+          bulkOperation {
+            id
+            status
+            createdAt
+          }
+          userErrors {
+            field
+            message
+          }
+        }
+      }`,
+    { query },
+  );
+
+  const userErrors = result?.userErrors || [];
+  const operation = result?.bulkOperation;
+  if (userErrors.length || !operation) {
+    return {
+      operation: null,
+      error:
+        userErrors.map((error) => error.message).join(", ") ||
+        "Shopify did not start the bulk operation.",
+    };
+  }
+  return { operation, error: null };
+};
+
+const isStalled = (state: SyncState, now = new Date()) =>
+  (state.status === "importing" ||
+    (state.status === "running" && !state.bulkOperationId)) &&
+  now.getTime() - state.updatedAt.getTime() > STALLED_AFTER_MS;
+
+/**
+ * Fails a stalled sync. Returns false when another request changed the state
+ * first.
+ */
+const failStalledSync = async (state: SyncState) => {
+  const claimed = await prisma.syncState.updateMany({
+    where: {
+      shop: state.shop,
+      status: state.status,
+      updatedAt: state.updatedAt,
+    },
+    data: {
+      status: "failed",
+      phase: null,
+      bulkOperationId: null,
+      finishedOperationId: null,
+      customersUrl: null,
+      error: "The sync stopped before it finished.",
+    },
+  });
+  return claimed.count > 0;
+};
+
+export const startSync = async (admin: AdminApiContext, shop: string) => {
+  const existing = await prisma.syncState.findUnique({ where: { shop } });
+  if (existing && isStalled(existing)) {
+    if (!(await failStalledSync(existing))) return getSyncSummary(shop);
+  } else if (
+    existing?.status === "running" ||
+    existing?.status === "importing"
+  ) {
+    return toSummary(existing);
+  }
+
+  const { operation, error } = await runBulkQuery(admin, CUSTOMERS_QUERY);
+  if (!operation) {
+    await markFailed(shop, error);
+    return getSyncSummary(shop);
+  }
+
+  const data = {
+    status: "running",
+    phase: "customers",
+    bulkOperationId: operation.id,
+    finishedOperationId: null,
+    customersUrl: null,
+    startedAt: new Date(operation.createdAt),
+    error: null,
+  };
+  await prisma.syncState.upsert({
+    where: { shop },
+    create: { shop, ...data },
+    update: data,
+  });
+
+  return getSyncSummary(shop);
+};
+
+type BulkLine = { id: string; __parentId?: string };
+
+const readJsonLines = async (
+  url: string,
+  handleNode: (node: BulkLine) => void,
+) => {
+  const response = await fetch(url);
+  if (!response.ok || !response.body) {
+    throw new Error(`Bulk result download failed with ${response.status}`);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  const handleLine = (line: string) => {
+    if (line.trim()) handleNode(JSON.parse(line));
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+    lines.forEach(handleLine);
+  }
+  handleLine(buffer);
+};
+
+type LineItemNode = Omit<BulkLineItemLine, "__parentId">;
+
+/**
+ * Maps a line item node to its stored columns. Shared with the order webhooks,
+ * which read line items with the same fields.
+ */
+export const toLineItemRow = (lineItem: LineItemNode) => {
+  const unitCost = lineItem.variant?.inventoryItem?.unitCost;
+  return {
+    id: lineItem.id,
+    productId: lineItem.product?.id || null,
+    variantId: lineItem.variant?.id || null,
+    title: lineItem.title,
+    quantity: Number(lineItem.quantity || 0),
+    discountedTotal: Number(
+      lineItem.discountedTotalSet?.shopMoney?.amount || 0,
+    ),
+    unitCost: unitCost ? Number(unitCost.amount) : null,
+  };
+};
+
+const chunk = <T>(items: T[], size: number) => {
+  const chunks: T[][] = [];
+  for (let index = 0; index < items.length; index += size) {
+    chunks.push(items.slice(index, index + size));
+  }
+  return chunks;
+};
+
+const importBulkResult = async (
+  shop: string,
+  startedAt: Date,
+  customersUrl: string | null,
+  ordersUrl: string | null,
+  shopCurrencyCode: string | null,
+) => {
+  // An operation that matched nothing finishes without a result file.
+  const customers = new Map<string, BulkCustomerLine>();
+  if (customersUrl) {
+    await readJsonLines(customersUrl, (node) => {
+      customers.set(node.id, node as BulkCustomerLine);
+    });
+  }
+
+  const orders: BulkOrderLine[] = [];
+  const lineItems: BulkLineItemLine[] = [];
+  if (ordersUrl) {
+    await readJsonLines(ordersUrl, (node) => {
+      if (node.__parentId) {
+        lineItems.push(node as BulkLineItemLine);
+      } else {
+        orders.push(node as BulkOrderLine);
+      }
+    });
+  }
+  const syncedAt = new Date();
+
+  const firstOrderAt = new Map<string, string>();
+  const lastOrderAt = new Map<string, string>();
+  const firstVisit = new Map<string, FirstVisit | null>();
+  for (const order of orders) {
+    const customerId = order.customer?.id;
+    if (!customerId) continue;
+    const first = firstOrderAt.get(customerId);
+    if (!first || order.createdAt < first) {
+      firstOrderAt.set(customerId, order.createdAt);
+      firstVisit.set(
+        customerId,
+        order.customerJourneySummary?.firstVisit || null,
+      );
+    }
+    const last = lastOrderAt.get(customerId);
+    if (!last || order.createdAt > last) {
+      lastOrderAt.set(customerId, order.createdAt);
+    }
+  }
+
+  const orderRows = orders.map((order) => ({
+    shop,
+    id: order.id,
+    customerId: order.customer?.id || null,
+    name: order.name,
+    createdAt: new Date(order.createdAt),
+    cancelledAt: order.cancelledAt ? new Date(order.cancelledAt) : null,
+    totalPrice: Number(order.totalPriceSet?.shopMoney?.amount || 0),
+    currencyCode: order.totalPriceSet?.shopMoney?.currencyCode || null,
+    presentmentTotal: Number(
+      order.totalPriceSet?.presentmentMoney?.amount || 0,
+    ),
+    presentmentCurrencyCode:
+      order.totalPriceSet?.presentmentMoney?.currencyCode || null,
+    totalDiscounts: Number(order.totalDiscountsSet?.shopMoney?.amount || 0),
+    totalRefunded: Number(order.totalRefundedSet?.shopMoney?.amount || 0),
+    totalShipping: Number(order.totalShippingPriceSet?.shopMoney?.amount || 0),
+    totalTax: Number(order.totalTaxSet?.shopMoney?.amount || 0),
+    syncedAt,
+  }));
+  const ordersByCustomer = new Map<string, typeof orderRows>();
+  for (const row of orderRows) {
+    if (!row.customerId) continue;
+    const customerOrders = ordersByCustomer.get(row.customerId) || [];
+    customerOrders.push(row);
+    ordersByCustomer.set(row.customerId, customerOrders);
+  }
+
+  const lineItemRows = lineItems.map((lineItem) => ({
+    shop,
+    ...toLineItemRow(lineItem),
+    orderId: lineItem.__parentId,
+    syncedAt,
+  }));
+
+  const customerRows = Array.from(customers.values()).map((customer) => ({
+    shop,
+    id: customer.id,
+    displayName: customer.displayName,
+    email: customer.email,
+    createdAt: customer.createdAt ? new Date(customer.createdAt) : null,
+    numberOfOrders: Number(customer.numberOfOrders || 0),
+    amountSpent: Number(customer.amountSpent?.amount || 0),
+    currencyCode: customer.amountSpent?.currencyCode || null,
+    amountSpentShop: shopCurrencySpend(
+      ordersByCustomer.get(customer.id) || [],
+      shopCurrencyCode,
+    ),
+    tags: JSON.stringify(customer.tags || []),
+    firstOrderAt: firstOrderAt.has(customer.id)
+      ? new Date(firstOrderAt.get(customer.id) as string)
+      : null,
+    lastOrderAt: lastOrderAt.has(customer.id)
+      ? new Date(lastOrderAt.get(customer.id) as string)
+      : null,
+    firstVisit: firstVisit.get(customer.id)
+      ? JSON.stringify(firstVisit.get(customer.id))
+      : null,
+    syncedAt,
+  }));
+
+  await prisma.$transaction(
+    async (tx) => {
+      // Rows written before the sync started are replaced by the snapshot.
+      // Deleting them first takes SQLite's write lock, so webhooks wait for
+      // the import and the rows read below cannot change under it.
+      const stale = { shop, syncedAt: { lt: startedAt } };
+      await tx.lineItem.deleteMany({ where: stale });
+      await tx.order.deleteMany({ where: stale });
+      await tx.customer.deleteMany({ where: stale });
+
+      // What webhooks wrote or deleted since the sync started is newer than
+      // the snapshot and wins over it.
+      const fresh = { shop, syncedAt: { gte: startedAt } };
+      const freshCustomers = await tx.customer.findMany({
+        where: fresh,
+        select: { id: true },
+      });
+      const deletedCustomers = await tx.webhookDelivery.findMany({
+        where: {
+          shop,
+          topic: "CUSTOMERS_DELETE",
+          receivedAt: { gte: startedAt },
+        },
+        select: { resourceId: true },
+      });
+      const freshOrders = await tx.order.findMany({
+        where: fresh,
+        select: { id: true },
+      });
+      const skipCustomers = new Set([
+        ...freshCustomers.map(({ id }) => id),
+        ...deletedCustomers.map(({ resourceId }) => resourceId),
+      ]);
+      const skipOrders = new Set(freshOrders.map(({ id }) => id));
+
+      for (const data of chunk(
+        customerRows.filter((row) => !skipCustomers.has(row.id)),
+        WRITE_BATCH_SIZE,
+      )) {
+        await tx.customer.createMany({ data });
+      }
+      for (const data of chunk(
+        orderRows.filter((row) => !skipOrders.has(row.id)),
+        WRITE_BATCH_SIZE,
+      )) {
+        await tx.order.createMany({ data });
+      }
+      for (const data of chunk(
+        lineItemRows.filter((row) => !skipOrders.has(row.orderId)),
+        WRITE_BATCH_SIZE,
+      )) {
+        await tx.lineItem.createMany({ data });
+      }
+    },
+    { timeout: IMPORT_TIMEOUT_MS },
+  );
+};
+
+/**
+ * Advances the sync when one of its bulk operations finishes. Safe to call from
+ * both the scheduler and page loads: the customers operation's result is kept
+ * while the orders operation runs, and only the caller that moves the state
+ * from "running" to "importing" imports both.
+ */
+export const completeSync = async (
+  admin: AdminApiContext,
+  shop: string,
+  bulkOperationId: string,
+) => {
+  const data = await adminGraphql(
+    admin,
+    `#graphql
+      query CustomerSyncStatus($id: ID!) {
+        node(id: $id) {
+          ... on BulkOperation {
+            id
+            status
+            errorCode
+            createdAt
+            url
+          }
+        }
+        shop {
+          currencyCode
+        }
+      }`,
+    { id: bulkOperationId },
+  );
+
+  const operation = data.node;
+  const shopCurrencyCode = data.shop.currencyCode || null;
+  if (
+    !operation ||
+    operation.status === "CREATED" ||
+    operation.status === "RUNNING"
+  ) {
+    return getSyncSummary(shop);
+  }
+
+  if (operation.status !== "COMPLETED") {
+    await prisma.syncState.updateMany({
+      where: { shop, bulkOperationId },
+      data: {
+        status: "failed",
+        bulkOperationId: null,
+        error: `Bulk operation ${operation.status.toLowerCase()}${
+          operation.errorCode ? ` (${operation.errorCode})` : ""
+        }.`,
+      },
+    });
+    return getSyncSummary(shop);
+  }
+
+  const advanced = await prisma.syncState.updateMany({
+    where: { shop, bulkOperationId, status: "running", phase: "customers" },
+    data: {
+      phase: "orders",
+      bulkOperationId: null,
+      customersUrl: operation.url,
+    },
+  });
+  if (advanced.count) {
+    const { operation: next, error } = await runBulkQuery(admin, ORDERS_QUERY);
+    if (!next) {
+      await markFailed(shop, error);
+    } else {
+      await prisma.syncState.update({
+        where: { shop },
+        data: { bulkOperationId: next.id },
+      });
+    }
+    return getSyncSummary(shop);
+  }
+
+  const claimed = await prisma.syncState.updateMany({
+    where: { shop, bulkOperationId, status: "running", phase: "orders" },
+    data: { status: "importing" },
+  });
+  if (!claimed.count) {
+    return getSyncSummary(shop);
+  }
+
+  const state = await prisma.syncState.findUnique({ where: { shop } });
+  const startedAt = state?.startedAt || new Date(operation.createdAt);
+  try {
+    await importBulkResult(
+      shop,
+      startedAt,
+      state?.customersUrl || null,
+      operation.url,
+      shopCurrencyCode,
+    );
+  } catch (error) {
+    await markFailed(
+      shop,
+      error instanceof Error ? error.message : "Import failed.",
+    );
+    return getSyncSummary(shop);
+  }
+
+  await prisma.syncState.update({
+    where: { shop },
+    data: {
+      status: "idle",
+      phase: null,
+      bulkOperationId: null,
+      customersUrl: null,
+      lastSyncedAt: startedAt,
+      shopCurrencyCode,
+      error: null,
+    },
+  });
+
+  return getSyncSummary(shop);
+};
+
+/**
+ * Notes that the sync's current bulk operation finished. The finish webhook
+ * must answer within seconds, so the download and import are left to
+ * completeFinishedSyncs.
+ */
+export const recordFinishedOperation = async (
+  shop: string,
+  bulkOperationId: string,
+) => {
+  await prisma.syncState.updateMany({
+    where: { shop, bulkOperationId, status: "running" },
+    data: { finishedOperationId: bulkOperationId },
+  });
+};
+
+/**
+ * Advances the syncs whose finished operation the webhook recorded. Run by the
+ * background scheduler; page loads still advance a sync whose webhook was
+ * missed.
+ */
+export const completeFinishedSyncs = async () => {
+  const finished = await prisma.syncState.findMany({
+    where: { status: "running", finishedOperationId: { not: null } },
+  });
+
+  for (const state of finished) {
+    const bulkOperationId = state.finishedOperationId as string;
+    try {
+      const { admin } = await unauthenticated.admin(state.shop);
+      await completeSync(admin, state.shop, bulkOperationId);
+    } catch (error) {
+      console.error(`Sync of ${state.shop} could not be advanced`, error);
+    } finally {
+      // The orders operation records its own id when it finishes, so only
+      // this one is cleared.
+      await prisma.syncState.updateMany({
+        where: { shop: state.shop, finishedOperationId: bulkOperationId },
+        data: { finishedOperationId: null },
+      });
+    }
+  }
+};
+
+/**
+ * Starts the first sync for a shop and advances a running one. Loaders call
+ * this so the warehouse fills in even when the finish webhook is missed.
+ * Shops synced before the shop currency was recorded are synced again.
+ */
+export const ensureSync = async (admin: AdminApiContext, shop: string) => {
+  const state = await prisma.syncState.findUnique({ where: { shop } });
+
+  if (!state) {
+    return startSync(admin, shop);
+  }
+
+  if (isStalled(state)) {
+    await failStalledSync(state);
+    return getSyncSummary(shop);
+  }
+
+  if (state.status === "running" && state.bulkOperationId) {
+    return completeSync(admin, shop, state.bulkOperationId);
+  }
+
+  // Shops synced before spend was kept in the shop currency have neither the
+  // currency nor converted spend; a fresh sync fills both in.
+  if (state.status === "idle" && !state.shopCurrencyCode) {
+    return startSync(admin, shop);
+  }
+
+  return toSummary(state);
+};
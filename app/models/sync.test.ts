@@ -0,0 +1,224 @@
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { adminGraphql } from "../admin-graphql.server";
+import prisma from "../db.server";
+import { completeSync } from "./sync.server";
+
+vi.mock("../db.server", () => ({
+  default: {
+    syncState: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      upsert: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+vi.mock("../admin-graphql.server", () => ({ adminGraphql: vi.fn() }));
+vi.mock("../shopify.server", () => ({ unauthenticated: {} }));
+
+const shop = "example.myshopify.com";
+const admin = {} as AdminApiContext;
+const startedAt = new Date("2026-03-01T00:00:00Z");
+
+const money = (amount: string) => ({
+  shopMoney: { amount, currencyCode: "USD" },
+});
+
+const customer = (id: string) => ({
+  id,
+  displayName: `Customer ${id}`,
+  email: null,
+  createdAt: "2025-01-01T00:00:00Z",
+  numberOfOrders: "1",
+  tags: ["vip"],
+  amountSpent: { amount: "10.00", currencyCode: "USD" },
+});
+
+const order = (id: string, customerId: string) => ({
+  id,
+  customer: { id: customerId },
+  name: `#${id}`,
+  createdAt: "2026-02-01T00:00:00Z",
+  cancelledAt: null,
+  totalPriceSet: {
+    ...money("10.00"),
+    presentmentMoney: { amount: "10.00", currencyCode: "USD" },
+  },
+  totalDiscountsSet: money("0"),
+  totalRefundedSet: money("0"),
+  totalShippingPriceSet: money("0"),
+  totalTaxSet: money("0"),
+  customerJourneySummary: null,
+});
+
+const lineItem = (id: string, orderId: string) => ({
+  id,
+  title: "Mug",
+  quantity: 1,
+  discountedTotalSet: { shopMoney: { amount: "10.00" } },
+  product: { id: "gid://shopify/Product/1" },
+  variant: null,
+  __parentId: orderId,
+});
+
+const jsonLines = (nodes: object[]) =>
+  nodes.map((node) => JSON.stringify(node)).join("\n");
+
+// Stands in for the interactive transaction's client.
+const tx = {
+  customer: { deleteMany: vi.fn(), findMany: vi.fn(), createMany: vi.fn() },
+  order: { deleteMany: vi.fn(), findMany: vi.fn(), createMany: vi.fn() },
+  lineItem: { deleteMany: vi.fn(), createMany: vi.fn() },
+  webhookDelivery: { findMany: vi.fn() },
+};
+
+const createdIds = (createMany: typeof tx.customer.createMany) =>
+  createMany.mock.calls.flatMap(([{ data }]) =>
+    data.map((row: { id: string }) => row.id),
+  );
+
+beforeEach(() => {
+  vi.resetAllMocks();
+
+  vi.mocked(adminGraphql).mockResolvedValue({
+    node: {
+      id: "gid://shopify/BulkOperation/2",
+      status: "COMPLETED",
+      errorCode: null,
+      createdAt: "2026-03-01T00:00:05Z",
+      url: "https://storage.example/orders.jsonl",
+    },
+    shop: { currencyCode: "USD" },
+  } as never);
+  vi.mocked(prisma.syncState.updateMany).mockImplementation((async ({
+    where,
+  }: {
+    where: { phase?: string };
+  }) => ({ count: where.phase === "orders" ? 1 : 0 })) as never);
+  vi.mocked(prisma.syncState.findUnique).mockResolvedValue({
+    shop,
+    status: "importing",
+    startedAt,
+    customersUrl: "https://storage.example/customers.jsonl",
+  } as never);
+  vi.mocked(prisma.$transaction).mockImplementation((async (
+    callback: (client: typeof tx) => Promise<void>,
+  ) => callback(tx)) as never);
+
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (url: string) =>
+      url.endsWith("customers.jsonl")
+        ? new Response(
+            jsonLines([
+              customer("gid://shopify/Customer/1"),
+              customer("gid://shopify/Customer/2"),
+              customer("gid://shopify/Customer/3"),
+            ]),
+          )
+        : new Response(
+            jsonLines([
+              order("gid://shopify/Order/1", "gid://shopify/Customer/1"),
+              lineItem("gid://shopify/LineItem/1", "gid://shopify/Order/1"),
+              order("gid://shopify/Order/2", "gid://shopify/Customer/2"),
+              lineItem("gid://shopify/LineItem/2", "gid://shopify/Order/2"),
+            ]),
+          ),
+    ),
+  );
+
+  tx.customer.findMany.mockResolvedValue([]);
+  tx.order.findMany.mockResolvedValue([]);
+  tx.webhookDelivery.findMany.mockResolvedValue([]);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("completeSync", () => {
+  it("replaces rows written before the sync started", async () => {
+    await completeSync(admin, shop, "gid://shopify/BulkOperation/2");
+
+    const stale = { where: { shop, syncedAt: { lt: startedAt } } };
+    expect(tx.lineItem.deleteMany).toHaveBeenCalledWith(stale);
+    expect(tx.order.deleteMany).toHaveBeenCalledWith(stale);
+    expect(tx.customer.deleteMany).toHaveBeenCalledWith(stale);
+
+    expect(createdIds(tx.customer.createMany)).toEqual([
+      "gid://shopify/Customer/1",
+      "gid://shopify/Customer/2",
+      "gid://shopify/Customer/3",
+    ]);
+    expect(createdIds(tx.order.createMany)).toEqual([
+      "gid://shopify/Order/1",
+      "gid://shopify/Order/2",
+    ]);
+    expect(tx.customer.createMany.mock.calls[0][0].data[0]).toMatchObject({
+      shop,
+      amountSpent: 10,
+      amountSpentShop: 10,
+      tags: '["vip"]',
+      firstOrderAt: new Date("2026-02-01T00:00:00Z"),
+    });
+
+    expect(prisma.syncState.update).toHaveBeenCalledWith({
+      where: { shop },
+      data: expect.objectContaining({
+        status: "idle",
+        lastSyncedAt: startedAt,
+        shopCurrencyCode: "USD",
+      }),
+    });
+  });
+
+  it("keeps what webhooks wrote or deleted while the sync ran", async () => {
+    tx.customer.findMany.mockResolvedValue([
+      { id: "gid://shopify/Customer/2" },
+    ]);
+    tx.webhookDelivery.findMany.mockResolvedValue([
+      { resourceId: "gid://shopify/Customer/3" },
+    ]);
+    tx.order.findMany.mockResolvedValue([{ id: "gid://shopify/Order/2" }]);
+
+    await completeSync(admin, shop, "gid://shopify/BulkOperation/2");
+
+    expect(tx.webhookDelivery.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          shop,
+          topic: "CUSTOMERS_DELETE",
+          receivedAt: { gte: startedAt },
+        },
+      }),
+    );
+    expect(createdIds(tx.customer.createMany)).toEqual([
+      "gid://shopify/Customer/1",
+    ]);
+    expect(createdIds(tx.order.createMany)).toEqual(["gid://shopify/Order/1"]);
+    expect(createdIds(tx.lineItem.createMany)).toEqual([
+      "gid://shopify/LineItem/1",
+    ]);
+  });
+
+  it("fails the sync when the result cannot be downloaded", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response(null, { status: 403 })),
+    );
+
+    await completeSync(admin, shop, "gid://shopify/BulkOperation/2");
+
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+    expect(prisma.syncState.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        update: expect.objectContaining({
+          status: "failed",
+          error: "Bulk result download failed with 403",
+        }),
+      }),
+    );
+  });
+});
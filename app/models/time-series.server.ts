@@ -0,0 +1,140 @@
+import type { Customer, Order } from "@prisma/client";
+import { startOfPeriod } from "./cohorts.server";
+import type { RevenueBasis } from "./revenue";
+import { orderRevenue } from "./revenue.server";
+
+export type TimeSeriesGranularity = "day" | "week" | "month";
+
+export type TimeSeriesPoint = {
+  period: string;
+  newCustomers: number;
+  orders: number;
+  revenue: number;
+  returningRevenue: number;
+};
+
+export const TIME_SERIES_GRANULARITIES: Array<{
+  key: TimeSeriesGranularity;
+  label: string;
+}> = [
+  { key: "day", label: "Daily" },
+  { key: "week", label: "Weekly" },
+  { key: "month", label: "Monthly" },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Reads the granularity from the URL. Without one, the range decides: daily
+ * up to two months, weekly up to a year and monthly beyond that.
+ */
+export const parseTimeSeriesGranularity = (
+  value: string | null,
+  start: Date,
+  end: Date,
+): TimeSeriesGranularity => {
+  const selected = TIME_SERIES_GRANULARITIES.find(
+    (granularity) => granularity.key === value,
+  );
+  if (selected) return selected.key;
+
+  const days = (end.getTime() - start.getTime()) / DAY_MS;
+  if (days <= 62) return "day";
+  return days <= 366 ? "week" : "month";
+};
+
+const startOfBucket = (date: Date, granularity: TimeSeriesGranularity) =>
+  granularity === "day"
+    ? new Date(
+        Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+      )
+    : startOfPeriod(date, granularity);
+
+const nextBucket = (date: Date, granularity: TimeSeriesGranularity) => {
+  const next = new Date(date);
+  if (granularity === "month") {
+    next.setUTCMonth(next.getUTCMonth() + 1);
+  } else {
+    next.setUTCDate(next.getUTCDate() + (granularity === "week" ? 7 : 1));
+  }
+  return next;
+};
+
+const bucketKey = (date: Date, granularity: TimeSeriesGranularity) => {
+  const start = startOfBucket(date, granularity);
+  return granularity === "month"
+    ? start.toISOString().slice(0, 7)
+    : start.toISOString().slice(0, 10);
+};
+
+/**
+ * Buckets the orders placed in the range by day, week or month. Every period
+ * in the range gets a point, so quiet periods show as zero. An order counts
+ * towards returning-customer revenue when its customer ordered before it; a
+ * customer counts as new in the period of their first order. Cancelled orders
+ * add no orders or revenue.
+ */
+export const buildTimeSeries = (
+  orders: Order[],
+  customersById: Map<string, Pick<Customer, "firstOrderAt">>,
+  {
+    start,
+    end,
+    granularity,
+    basis,
+  }: {
+    start: Date;
+    end: Date;
+    granularity: TimeSeriesGranularity;
+    basis: RevenueBasis;
+  },
+): TimeSeriesPoint[] => {
+  const points = new Map<string, TimeSeriesPoint>();
+  for (
+    let period = startOfBucket(start, granularity);
+    period <= end;
+    period = nextBucket(period, granularity)
+  ) {
+    const key = bucketKey(period, granularity);
+    points.set(key, {
+      period: key,
+      newCustomers: 0,
+      orders: 0,
+      revenue: 0,
+      returningRevenue: 0,
+    });
+  }
+
+  const counted = new Set<string>();
+  for (const order of orders) {
+    const firstOrderAt = order.customerId
+      ? customersById.get(order.customerId)?.firstOrderAt
+      : null;
+
+    // Matches the new customers list, which also counts cancelled orders.
+    if (
+      order.customerId &&
+      firstOrderAt &&
+      firstOrderAt >= start &&
+      firstOrderAt <= end &&
+      !counted.has(order.customerId)
+    ) {
+      counted.add(order.customerId);
+      const firstPoint = points.get(bucketKey(firstOrderAt, granularity));
+      if (firstPoint) firstPoint.newCustomers += 1;
+    }
+
+    if (order.cancelledAt) continue;
+    const point = points.get(bucketKey(order.createdAt, granularity));
+    if (!point) continue;
+
+    const revenue = orderRevenue(order, basis);
+    point.orders += 1;
+    point.revenue += revenue;
+    if (firstOrderAt && firstOrderAt < order.createdAt) {
+      point.returningRevenue += revenue;
+    }
+  }
+
+  return Array.from(points.values());
+};
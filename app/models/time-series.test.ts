@@ -0,0 +1,134 @@
+import type { Order } from "@prisma/client";
+import { describe, expect, it, vi } from "vitest";
+import { buildTimeSeries } from "./time-series.server";
+
+vi.mock("../db.server", () => ({ default: {} }));
+
+let nextId = 1;
+const order = (
+  customerId: string | null,
+  createdAt: string,
+  totalPrice: number,
+  overrides: Partial<Order> = {},
+): Order => ({
+  shop: "example.myshopify.com",
+  id: `gid://shopify/Order/${nextId++}`,
+  customerId,
+  name: null,
+  createdAt: new Date(createdAt),
+  cancelledAt: null,
+  totalPrice,
+  currencyCode: "USD",
+  presentmentTotal: totalPrice,
+  presentmentCurrencyCode: "USD",
+  totalDiscounts: 0,
+  totalRefunded: 0,
+  totalShipping: 0,
+  totalTax: 0,
+  syncedAt: new Date(),
+  ...overrides,
+});
+
+const range = {
+  start: new Date("2026-03-01T00:00:00Z"),
+  end: new Date("2026-03-03T23:59:59Z"),
+  granularity: "day" as const,
+  basis: "gross" as const,
+};
+
+describe("buildTimeSeries", () => {
+  it("gives every period in the range a point", () => {
+    expect(
+      buildTimeSeries([], new Map(), range).map((point) => point.period),
+    ).toEqual(["2026-03-01", "2026-03-02", "2026-03-03"]);
+  });
+
+  it("counts new customers, orders and returning revenue per period", () => {
+    const customers = new Map([
+      ["new", { firstOrderAt: new Date("2026-03-01T10:00:00Z") }],
+      ["returning", { firstOrderAt: new Date("2026-01-15T10:00:00Z") }],
+    ]);
+    const orders = [
+      order("new", "2026-03-01T10:00:00Z", 50),
+      order("returning", "2026-03-01T12:00:00Z", 30),
+      order("new", "2026-03-02T10:00:00Z", 20),
+      order(null, "2026-03-03T10:00:00Z", 10),
+    ];
+
+    expect(buildTimeSeries(orders, customers, range)).toEqual([
+      {
+        period: "2026-03-01",
+        newCustomers: 1,
+        orders: 2,
+        revenue: 80,
+        returningRevenue: 30,
+      },
+      {
+        period: "2026-03-02",
+        newCustomers: 0,
+        orders: 1,
+        revenue: 20,
+        returningRevenue: 20,
+      },
+      {
+        period: "2026-03-03",
+        newCustomers: 0,
+        orders: 1,
+        revenue: 10,
+        returningRevenue: 0,
+      },
+    ]);
+  });
+
+  it("leaves cancelled orders out of orders and revenue", () => {
+    const customers = new Map([
+      ["new", { firstOrderAt: new Date("2026-03-02T10:00:00Z") }],
+    ]);
+    const orders = [
+      order("new", "2026-03-02T10:00:00Z", 50, {
+        cancelledAt: new Date("2026-03-02T11:00:00Z"),
+      }),
+    ];
+
+    expect(buildTimeSeries(orders, customers, range)[1]).toMatchObject({
+      newCustomers: 1,
+      orders: 0,
+      revenue: 0,
+    });
+  });
+
+  it("applies the revenue basis", () => {
+    const orders = [
+      order(null, "2026-03-01T10:00:00Z", 100, {
+        totalRefunded: 20,
+        totalShipping: 5,
+        totalTax: 10,
+      }),
+    ];
+
+    expect(
+      buildTimeSeries(orders, new Map(), { ...range, basis: "net_refunds" })[0]
+        .revenue,
+    ).toBe(80);
+    expect(
+      buildTimeSeries(orders, new Map(), {
+        ...range,
+        basis: "net_merchandise",
+      })[0].revenue,
+    ).toBe(65);
+  });
+
+  it("buckets weeks from Monday", () => {
+    const orders = [
+      order(null, "2026-03-01T10:00:00Z", 10),
+      order(null, "2026-03-02T10:00:00Z", 20),
+    ];
+
+    expect(
+      buildTimeSeries(orders, new Map(), { ...range, granularity: "week" }),
+    ).toMatchObject([
+      { period: "2026-02-23", orders: 1, revenue: 10 },
+      { period: "2026-03-02", orders: 1, revenue: 20 },
+    ]);
+  });
+});
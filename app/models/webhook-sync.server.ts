@@ -0,0 +1,397 @@
+import { Prisma } from "@prisma/client";
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import { adminGraphql, adminNodes } from "../admin-graphql.server";
+import prisma from "../db.server";
+import { toLineItemRow } from "./sync.server";
+import { getShopCurrency, shopCurrencySpend } from "./currency.server";
+
+type SyncWebhookContext = {
+  admin?: AdminApiContext;
+  shop: string;
+  topic: string | number | symbol;
+  webhookId: string;
+  payload: Record<string, unknown>;
+};
+
+type ResourcePayload = {
+  id?: string | number;
+  admin_graphql_api_id?: string;
+};
+
+type MoneyPayload = {
+  amount: string;
+  currency_code: string;
+};
+
+type MoneySetPayload = {
+  shop_money?: MoneyPayload | null;
+  presentment_money?: MoneyPayload | null;
+} | null;
+
+type OrderPayload = ResourcePayload & {
+  name?: string | null;
+  created_at: string;
+  cancelled_at?: string | null;
+  total_price_set?: MoneySetPayload;
+  total_discounts_set?: MoneySetPayload;
+  total_shipping_price_set?: MoneySetPayload;
+  total_tax_set?: MoneySetPayload;
+  customer?: ResourcePayload | null;
+};
+
+type RefundPayload = {
+  order_id: string | number;
+};
+
+const DELIVERY_RETENTION_DAYS = 7;
+const LINE_ITEMS_PAGE_SIZE = 250;
+
+const toGid = (resource: string, payload: ResourcePayload) =>
+  payload.admin_graphql_api_id || `gid://shopify/${resource}/${payload.id}`;
+
+/**
+ * Records a webhook delivery. Returns false when Shopify has already delivered
+ * this webhook ID, so duplicate deliveries are acknowledged without work.
+ */
+const claimDelivery = async (
+  webhookId: string,
+  shop: string,
+  topic: string,
+  resourceId: string | null,
+) => {
+  const cutoff = new Date();
+  cutoff.setUTCDate(cutoff.getUTCDate() - DELIVERY_RETENTION_DAYS);
+  await prisma.webhookDelivery.deleteMany({
+    where: { receivedAt: { lt: cutoff } },
+  });
+
+  try {
+    await prisma.webhookDelivery.create({
+      data: { id: webhookId, shop, topic, resourceId },
+    });
+    return true;
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return false;
+    }
+    throw error;
+  }
+};
+
+const releaseDelivery = async (webhookId: string) => {
+  await prisma.webhookDelivery.deleteMany({ where: { id: webhookId } });
+};
+
+const removeCustomer = async (shop: string, customerId: string) => {
+  await prisma.customer.deleteMany({ where: { shop, id: customerId } });
+};
+
+/**
+ * Re-reads the customer's lifetime totals from Shopify and upserts the local
+ * row. Reading current state keeps every event idempotent regardless of the
+ * order in which Shopify delivers them.
+ */
+const refreshCustomer = async (
+  admin: AdminApiContext,
+  shop: string,
+  customerId: string,
+) => {
+  const result = await adminGraphql(
+    admin,
+    `#graphql
+      query WebhookCustomer($id: ID!) {
+        customer(id: $id) {
+          id
+          displayName
+          email
+          createdAt
+          numberOfOrders
+          tags
+          amountSpent {
+            amount
+            currencyCode
+          }
+          orders(first: 1, sortKey: CREATED_AT) {
+            nodes {
+              customerJourneySummary {
+                firstVisit {
+                  source
+                  sourceType
+                  sourceDescription
+                  referrerUrl
+                  landingPage
+                  utmParameters {
+                    source
+                    medium
+                    campaign
+                    term
+                    content
+                  }
+                }
+              }
+            }
+          }
+        }
+      }`,
+    { id: customerId },
+  );
+
+  const customer = result.customer;
+  if (!customer) {
+    await removeCustomer(shop, customerId);
+    return;
+  }
+
+  const [orderDates, orders, shopCurrencyCode] = await Promise.all([
+    prisma.order.aggregate({
+      where: { shop, customerId },
+      _min: { createdAt: true },
+      _max: { createdAt: true },
+    }),
+    prisma.order.findMany({
+      where: { shop, customerId },
+      select: { cancelledAt: true, totalPrice: true, currencyCode: true },
+    }),
+    getShopCurrency(shop),
+  ]);
+  const amountSpent = Number(customer.amountSpent?.amount || 0);
+  const firstVisit =
+    customer.orders.nodes[0]?.customerJourneySummary?.firstVisit || null;
+  const currencyCode = customer.amountSpent?.currencyCode || null;
+
+  const data = {
+    displayName: customer.displayName,
+    email: customer.email,
+    createdAt: customer.createdAt ? new Date(customer.createdAt) : null,
+    numberOfOrders: Number(customer.numberOfOrders || 0),
+    amountSpent,
+    currencyCode,
+    amountSpentShop: shopCurrencySpend(orders, shopCurrencyCode),
+    tags: JSON.stringify(customer.tags || []),
+    firstOrderAt: orderDates._min.createdAt,
+    lastOrderAt: orderDates._max.createdAt,
+    firstVisit: firstVisit ? JSON.stringify(firstVisit) : null,
+    syncedAt: new Date(),
+  };
+
+  await prisma.customer.upsert({
+    where: { shop_id: { shop, id: customer.id } },
+    create: { shop, id: customer.id, ...data },
+    update: data,
+  });
+};
+
+const upsertOrder = async (shop: string, payload: OrderPayload) => {
+  const id = toGid("Order", payload);
+  const customerId = payload.customer
+    ? toGid("Customer", payload.customer)
+    : null;
+
+  const data = {
+    customerId,
+    name: payload.name || null,
+    createdAt: new Date(payload.created_at),
+    cancelledAt: payload.cancelled_at ? new Date(payload.cancelled_at) : null,
+    totalPrice: Number(payload.total_price_set?.shop_money?.amount || 0),
+    currencyCode: payload.total_price_set?.shop_money?.currency_code || null,
+    presentmentTotal: Number(
+      payload.total_price_set?.presentment_money?.amount || 0,
+    ),
+    presentmentCurrencyCode:
+      payload.total_price_set?.presentment_money?.currency_code || null,
+    totalDiscounts: Number(
+      payload.total_discounts_set?.shop_money?.amount || 0,
+    ),
+    totalShipping: Number(
+      payload.total_shipping_price_set?.shop_money?.amount || 0,
+    ),
+    totalTax: Number(payload.total_tax_set?.shop_money?.amount || 0),
+    syncedAt: new Date(),
+  };
+
+  // Order payloads carry no refunded total; refunds/create keeps it current.
+  await prisma.order.upsert({
+    where: { shop_id: { shop, id } },
+    create: { shop, id, ...data },
+    update: data,
+  });
+
+  return customerId;
+};
+
+/**
+ * Replaces the order's stored line items. Webhook payloads omit inventory
+ * costs, so line items are read back through the API.
+ */
+const refreshLineItems = async (
+  admin: AdminApiContext,
+  shop: string,
+  orderId: string,
+) => {
+  const lineItems = await adminNodes(
+    admin,
+    `#graphql
+      query WebhookOrderLineItems($id: ID!, $first: Int!, $after: String) {
+        order(id: $id) {
+          lineItems(first: $first, after: $after) {
+            nodes {
+              id
+              title
+              quantity
+              discountedTotalSet {
+                shopMoney {
+                  amount
+                }
+              }
+              product {
+                id
+              }
+              variant {
+                id
+                inventoryItem {
+                  unitCost {
+                    amount
+                  }
+                }
+              }
+            }
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+          }
+        }
+      }`,
+    { id: orderId, first: LINE_ITEMS_PAGE_SIZE },
+    (data) => data.order?.lineItems,
+  );
+  if (!lineItems) return;
+
+  const syncedAt = new Date();
+  await prisma.$transaction([
+    prisma.lineItem.deleteMany({ where: { shop, orderId } }),
+    prisma.lineItem.createMany({
+      data: lineItems.map((lineItem) => ({
+        shop,
+        ...toLineItemRow(lineItem),
+        orderId,
+        syncedAt,
+      })),
+    }),
+  ]);
+};
+
+/**
+ * Re-reads an order's refunded total after a refund and returns the order's
+ * customer so their lifetime totals can be refreshed too.
+ */
+const refreshOrderRefunds = async (
+  admin: AdminApiContext,
+  shop: string,
+  orderId: string,
+) => {
+  const data = await adminGraphql(
+    admin,
+    `#graphql
+      query WebhookOrderRefunds($id: ID!) {
+        order(id: $id) {
+          id
+          totalRefundedSet {
+            shopMoney {
+              amount
+            }
+          }
+          customer {
+            id
+          }
+        }
+      }`,
+    { id: orderId },
+  );
+
+  const order = data.order;
+  if (!order) return null;
+
+  await prisma.order.updateMany({
+    where: { shop, id: orderId },
+    data: {
+      totalRefunded: Number(order.totalRefundedSet?.shopMoney?.amount || 0),
+    },
+  });
+
+  return order.customer?.id || null;
+};
+
+const applyWebhook = async (
+  admin: AdminApiContext,
+  shop: string,
+  topic: string,
+  payload: Record<string, unknown>,
+) => {
+  switch (topic) {
+    case "CUSTOMERS_CREATE":
+    case "CUSTOMERS_UPDATE":
+      await refreshCustomer(admin, shop, toGid("Customer", payload));
+      break;
+    case "CUSTOMERS_DELETE":
+      await removeCustomer(shop, toGid("Customer", payload));
+      break;
+    case "ORDERS_CREATE":
+    case "ORDERS_UPDATED":
+    case "ORDERS_CANCELLED": {
+      const customerId = await upsertOrder(shop, payload as OrderPayload);
+      await refreshLineItems(admin, shop, toGid("Order", payload));
+      if (customerId) {
+        await refreshCustomer(admin, shop, customerId);
+      }
+      break;
+    }
+    case "REFUNDS_CREATE": {
+      const customerId = await refreshOrderRefunds(
+        admin,
+        shop,
+        toGid("Order", { id: (payload as RefundPayload).order_id }),
+      );
+      if (customerId) {
+        await refreshCustomer(admin, shop, customerId);
+      }
+      break;
+    }
+    default:
+      console.warn(`Unhandled sync webhook topic ${topic}`);
+  }
+};
+
+/**
+ * Applies a customer, order or refund webhook to the local warehouse.
+ */
+export const processSyncWebhook = async ({
+  admin,
+  shop,
+  topic,
+  webhookId,
+  payload,
+}: SyncWebhookContext) => {
+  // Without a session the app has been uninstalled and cannot call the API.
+  if (!admin) return;
+
+  const topicName = String(topic);
+  // A running sync's import skips customers deleted after it started.
+  const resourceId =
+    topicName === "CUSTOMERS_DELETE" ? toGid("Customer", payload) : null;
+  if (!(await claimDelivery(webhookId, shop, topicName, resourceId))) {
+    console.log(`Skipping duplicate ${topicName} webhook ${webhookId}`);
+    return;
+  }
+
+  try {
+    await applyWebhook(admin, shop, topicName, payload);
+  } catch (error) {
+    // Let Shopify retry the delivery.
+    await releaseDelivery(webhookId);
+    throw error;
+  }
+};
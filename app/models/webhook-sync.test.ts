@@ -0,0 +1,108 @@
+import { Prisma } from "@prisma/client";
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import prisma from "../db.server";
+import { processSyncWebhook } from "./webhook-sync.server";
+
+vi.mock("../db.server", () => ({
+  default: {
+    webhookDelivery: {
+      create: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    customer: { deleteMany: vi.fn() },
+  },
+}));
+vi.mock("../shopify.server", () => ({ unauthenticated: {} }));
+
+const admin = {} as AdminApiContext;
+
+// Stands in for the table's primary key on the webhook ID.
+const delivered = new Set<string>();
+
+const deleteCustomer = (webhookId: string) =>
+  processSyncWebhook({
+    admin,
+    shop: "example.myshopify.com",
+    topic: "CUSTOMERS_DELETE",
+    webhookId,
+    payload: { id: 42 },
+  });
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  delivered.clear();
+  vi.mocked(prisma.webhookDelivery.create).mockImplementation((async ({
+    data,
+  }: {
+    data: { id: string };
+  }) => {
+    if (delivered.has(data.id)) {
+      throw new Prisma.PrismaClientKnownRequestError("Unique constraint", {
+        code: "P2002",
+        clientVersion: "test",
+      });
+    }
+    delivered.add(data.id);
+    return data;
+  }) as never);
+  vi.mocked(prisma.webhookDelivery.deleteMany).mockImplementation((async ({
+    where,
+  }: {
+    where: { id?: string };
+  }) => {
+    if (where.id) delivered.delete(where.id);
+    return { count: 0 };
+  }) as never);
+});
+
+describe("processSyncWebhook", () => {
+  it("applies a delivery once however often Shopify sends it", async () => {
+    await deleteCustomer("webhook-1");
+    await deleteCustomer("webhook-1");
+    await deleteCustomer("webhook-2");
+
+    expect(prisma.customer.deleteMany).toHaveBeenCalledTimes(2);
+    expect(prisma.customer.deleteMany).toHaveBeenCalledWith({
+      where: {
+        shop: "example.myshopify.com",
+        id: "gid://shopify/Customer/42",
+      },
+    });
+  });
+
+  it("records the deleted customer for a running sync", async () => {
+    await deleteCustomer("webhook-1");
+
+    expect(prisma.webhookDelivery.create).toHaveBeenCalledWith({
+      data: {
+        id: "webhook-1",
+        shop: "example.myshopify.com",
+        topic: "CUSTOMERS_DELETE",
+        resourceId: "gid://shopify/Customer/42",
+      },
+    });
+  });
+
+  it("releases a failed delivery so Shopify's retry is applied", async () => {
+    vi.mocked(prisma.customer.deleteMany).mockRejectedValueOnce(
+      new Error("database is locked"),
+    );
+
+    await expect(deleteCustomer("webhook-1")).rejects.toThrow(
+      "database is locked",
+    );
+    await deleteCustomer("webhook-1");
+
+    expect(prisma.customer.deleteMany).toHaveBeenCalledTimes(2);
+  });
+
+  it("rethrows other errors when recording a delivery", async () => {
+    vi.mocked(prisma.webhookDelivery.create).mockRejectedValueOnce(
+      new Error("disk full"),
+    );
+
+    await expect(deleteCustomer("webhook-1")).rejects.toThrow("disk full");
+    expect(prisma.customer.deleteMany).not.toHaveBeenCalled();
+  });
+});
@@ -1,24 +1,56 @@
-import type { HeadersFunction, LoaderFunctionArgs } from "react-router";
-import { Form, useLoaderData } from "react-router";
+import { useEffect } from "react";
+import type {
+  ActionFunctionArgs,
+  HeadersFunction,
+  LoaderFunctionArgs,
+} from "react-router";
+import { Form, useLoaderData, useRevalidator } from "react-router";
 import { boundary } from "@shopify/shopify-app-react-router/server";
 import { authenticate } from "../shopify.server";
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import { adminGraphql } from "../admin-graphql.server";
+import { customerPath } from "../models/customer";
+import prisma from "../db.server";
+import type { SyncSummary } from "../models/sync.server";
+import { ensureSync, startSync } from "../models/sync.server";
+import { getClvPredictions } from "../models/clv-model.server";
+import { getShopCurrency } from "../models/currency.server";
+import { findFirstOrders } from "../models/first-orders.server";
+import { formatReferrerChannel, formatUtm } from "../models/attribution";
+import type {
+  TimeSeriesGranularity,
+  TimeSeriesPoint,
+} from "../models/time-series.server";
+import {
+  TIME_SERIES_GRANULARITIES,
+  buildTimeSeries,
+  parseTimeSeriesGranularity,
+} from "../models/time-series.server";
+import type { RepeatPurchaseStats } from "../models/repeat-purchase.server";
+import {
+  CONVERSION_WINDOWS,
+  getRepeatPurchaseStats,
+} from "../models/repeat-purchase.server";
+import {
+  getRevenueBreakdown,
+  loadRevenueDeductions,
+  netRevenue,
+} from "../models/revenue.server";
+import type { RevenueBasis } from "../models/revenue";
+import {
+  REVENUE_BASES,
+  parseRevenueBasis,
+  revenueBasisLabel,
+} from "../models/revenue";
 
-type Money = {
-  amount: string;
-  currencyCode: string;
-};
+type ComparisonMode = "none" | "previous" | "last_year" | "custom";
 
-type CustomerNode = {
-  id: string;
-  displayName: string | null;
-  email: string | null;
-  numberOfOrders: number | null;
-  amountSpent: Money | null;
-  orders?: {
-    nodes?: Array<{
-      createdAt?: string | null;
-    }>;
-  } | null;
+type RangeKpis = {
+  newCustomers: number;
+  orders: number;
+  revenue: number;
+  returningRevenue: number;
+  averageOrderValue: number | null;
 };
 
 type LoaderData = {
@@ -26,6 +58,20 @@ type LoaderData = {
     start: string;
     end: string;
   };
+  kpis: RangeKpis;
+  comparisonMode: ComparisonMode;
+  customComparison: {
+    start: string;
+    end: string;
+  };
+  comparison: {
+    start: string;
+    end: string;
+    kpis: RangeKpis;
+    timeSeries: TimeSeriesPoint[];
+  } | null;
+  basis: RevenueBasis;
+  granularity: TimeSeriesGranularity;
   customerLookup: {
     query: string;
     result:
@@ -34,6 +80,7 @@ type LoaderData = {
           name: string;
           email: string;
           totalSpent: number;
+          currencyCode: string;
           ordersCount: number;
           firstOrderDate: string | null;
           referrerChannel: string;
@@ -44,10 +91,28 @@ type LoaderData = {
   };
   totals: {
     customers: number;
+    notConverted: number;
     totalClv: number;
     averageClv: number;
+    predictedClv: number | null;
     currencyCode: string;
   };
+  revenueBreakdown: {
+    gross: number;
+    discounts: number;
+    refunds: number;
+    shipping: number;
+    taxes: number;
+    netOfRefunds: number;
+    netMerchandise: number;
+  };
+  currencyBreakdown: Array<{
+    currencyCode: string;
+    customers: number;
+    amountSpent: number;
+    amountSpentShop: number | null;
+    unconverted: number;
+  }>;
   topCustomers: Array<{
     id: string;
     name: string;
@@ -60,20 +125,16 @@ type LoaderData = {
     name: string;
     email: string;
     firstOrderDate: string;
-    totalSpent: number;
+    totalSpent: number | null;
     ordersCount: number;
   }>;
-  notes: {
-    customersTruncated: boolean;
-    ordersTruncated: boolean;
-    usedNewCustomerFallback: boolean;
-  };
+  timeSeries: TimeSeriesPoint[];
+  repeatPurchases: RepeatPurchaseStats;
+  sync: SyncSummary;
 };
 
 const DEFAULT_RANGE_DAYS = 30;
-const PAGE_SIZE = 250;
-const MAX_CUSTOMERS = 2000;
-const MAX_ORDERS = 2000;
+const SYNC_POLL_INTERVAL_MS = 5000;
 
 const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
 
@@ -125,6 +186,76 @@ const getDateRange = (url: URL) => {
   return { start: normalizedStart, end: normalizedEnd };
 };
 
+const COMPARISON_MODES: Array<{ key: ComparisonMode; label: string }> = [
+  { key: "none", label: "No comparison" },
+  { key: "previous", label: "Previous period" },
+  { key: "last_year", label: "Same period last year" },
+  { key: "custom", label: "Custom range" },
+];
+
+const parseComparisonMode = (value: string | null): ComparisonMode =>
+  COMPARISON_MODES.find((mode) => mode.key === value)?.key || "none";
+
+/**
+ * Resolves the range to compare against. The previous period is the same
+ * number of days immediately before the start. A custom range that is missing
+ * or reversed falls back to the previous period.
+ */
+const getComparisonRange = (
+  url: URL,
+  mode: ComparisonMode,
+  start: Date,
+  end: Date,
+) => {
+  if (mode === "none") return null;
+
+  if (mode === "last_year") {
+    const comparisonStart = new Date(start);
+    comparisonStart.setUTCFullYear(comparisonStart.getUTCFullYear() - 1);
+    const comparisonEnd = new Date(end);
+    comparisonEnd.setUTCFullYear(comparisonEnd.getUTCFullYear() - 1);
+    return { start: comparisonStart, end: comparisonEnd };
+  }
+
+  if (mode === "custom") {
+    const customStart = new Date(
+      `${url.searchParams.get("compare_start")}T00:00:00Z`,
+    );
+    const customEnd = new Date(
+      `${url.searchParams.get("compare_end")}T23:59:59Z`,
+    );
+    // Invalid dates never compare as less or equal.
+    if (customStart <= customEnd) {
+      return { start: customStart, end: customEnd };
+    }
+  }
+
+  const length = end.getTime() - start.getTime();
+  const comparisonEnd = new Date(start.getTime() - 1000);
+  return {
+    start: new Date(comparisonEnd.getTime() - length),
+    end: comparisonEnd,
+  };
+};
+
+const summarizeRange = (
+  newCustomers: number,
+  timeSeries: TimeSeriesPoint[],
+): RangeKpis => {
+  const orders = timeSeries.reduce((sum, point) => sum + point.orders, 0);
+  const revenue = timeSeries.reduce((sum, point) => sum + point.revenue, 0);
+  return {
+    newCustomers,
+    orders,
+    revenue,
+    returningRevenue: timeSeries.reduce(
+      (sum, point) => sum + point.returningRevenue,
+      0,
+    ),
+    averageOrderValue: orders ? revenue / orders : null,
+  };
+};
+
 const formatCurrency = (value: number, currencyCode: string) => {
   if (!Number.isFinite(value)) return "-";
   return new Intl.NumberFormat("en-US", {
@@ -134,158 +265,254 @@ const formatCurrency = (value: number, currencyCode: string) => {
   }).format(value);
 };
 
-const formatUtm = (utm?: {
-  source?: string | null;
-  medium?: string | null;
-  campaign?: string | null;
-  term?: string | null;
-  content?: string | null;
-} | null) => {
-  if (!utm) return null;
-  const parts = [
-    utm.source ? `source=${utm.source}` : null,
-    utm.medium ? `medium=${utm.medium}` : null,
-    utm.campaign ? `campaign=${utm.campaign}` : null,
-    utm.term ? `term=${utm.term}` : null,
-    utm.content ? `content=${utm.content}` : null,
-  ].filter(Boolean);
-
-  return parts.length ? parts.join(", ") : null;
-};
+const formatCount = (value: number) => value.toLocaleString("en-US");
 
-const formatReferrerChannel = (visit?: {
-  source?: string | null;
-  sourceType?: string | null;
-  sourceDescription?: string | null;
-  referrerUrl?: string | null;
-  landingPage?: string | null;
-  utmParameters?: {
-    source?: string | null;
-    medium?: string | null;
-    campaign?: string | null;
-    term?: string | null;
-    content?: string | null;
-  } | null;
-} | null) => {
-  if (!visit) return "Unknown";
+const formatPercent = (value: number | null) =>
+  value === null ? "-" : `${(value * 100).toFixed(1)}%`;
 
-  if (visit.utmParameters?.source || visit.utmParameters?.medium) {
-    const utm = formatUtm(visit.utmParameters);
-    return utm ? `UTM (${utm})` : "UTM";
-  }
+const formatDayCount = (days: number | null) =>
+  days === null ? "-" : `${days.toFixed(days < 10 ? 1 : 0)} days`;
 
-  if (visit.source) {
-    const description = visit.sourceDescription
-      ? ` - ${visit.sourceDescription}`
-      : "";
-    return `${visit.source}${description}`;
+/**
+ * Shows how a KPI moved against the comparison range, as an absolute and a
+ * percentage change. Every KPI on the dashboard is better when higher.
+ */
+function Delta({
+  current,
+  previous,
+  format,
+}: {
+  current: number | null;
+  previous: number | null;
+  format: (value: number) => string;
+}) {
+  if (current === null || previous === null) {
+    return <s-badge>No comparison</s-badge>;
   }
 
-  if (visit.referrerUrl) {
-    try {
-      return new URL(visit.referrerUrl).hostname;
-    } catch {
-      return visit.referrerUrl;
-    }
-  }
+  const change = current - previous;
+  const percent = previous ? (change / Math.abs(previous)) * 100 : null;
+  const sign = change > 0 ? "+" : change < 0 ? "-" : "";
+  const text = `${sign}${format(Math.abs(change))}${
+    percent === null ? "" : ` (${sign}${Math.abs(percent).toFixed(1)}%)`
+  }`;
 
-  return "Unknown";
-};
+  if (change > 0) return <s-badge tone="success">▲ {text}</s-badge>;
+  if (change < 0) return <s-badge tone="critical">▼ {text}</s-badge>;
+  return <s-badge>No change</s-badge>;
+}
 
-const insertTopCustomer = (
-  list: LoaderData["topCustomers"],
-  customer: LoaderData["topCustomers"][number],
-) => {
-  const next = [...list, customer].sort((a, b) => b.totalSpent - a.totalSpent);
-  return next.slice(0, 10);
+type ChartSeries = {
+  label: string;
+  color: string;
+  values: number[];
+  // Periods for hover labels when they differ from the chart's, such as a
+  // comparison range.
+  periods?: string[];
 };
 
-const fetchAllCustomers = async (admin: any) => {
-  let hasNextPage = true;
-  let after: string | null = null;
-  let customersCount = 0;
-  let totalClv = 0;
-  let topCustomers: LoaderData["topCustomers"] = [];
-  let currencyCode = "USD";
-  let truncated = false;
-
-  while (hasNextPage && customersCount < MAX_CUSTOMERS) {
-    const response = await admin.graphql(
-      `#graphql
-        query Customers($first: Int!, $after: String) {
-          customers(first: $first, after: $after) {
-            pageInfo {
-              hasNextPage
-              endCursor
-            }
-            nodes {
-              id
-              displayName
-              email
-              numberOfOrders
-              amountSpent {
-                amount
-                currencyCode
-              }
-            }
-          }
-        }`,
-      {
-        variables: {
-          first: PAGE_SIZE,
-          after,
-        },
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 180;
+
+/**
+ * Draws one or more series over the same periods, as bars or lines. Series
+ * are aligned by position, and bars of several series sit side by side.
+ * Hovering a bar or point shows its value.
+ */
+function TrendChart({
+  kind,
+  periods,
+  series,
+  format,
+}: {
+  kind: "bar" | "line";
+  periods: string[];
+  series: ChartSeries[];
+  format: (value: number) => string;
+}) {
+  const max = Math.max(1, ...series.flatMap((entry) => entry.values));
+  const slot = CHART_WIDTH / Math.max(periods.length, 1);
+  const y = (value: number) => CHART_HEIGHT - (value / max) * CHART_HEIGHT;
+  const x = (index: number) => slot * index + slot / 2;
+  const barWidth = (slot * 0.8) / Math.max(series.length, 1);
+
+  return (
+    <s-stack direction="block" gap="small-200">
+      <s-stack direction="inline" gap="base" alignItems="center">
+        <s-text>Peak: {format(max)}</s-text>
+        {series.length > 1 &&
+          series.map((entry) => (
+            <s-stack
+              key={entry.label}
+              direction="inline"
+              gap="small-200"
+              alignItems="center"
+            >
+              <span
+                style={{
+                  display: "inline-block",
+                  width: "12px",
+                  height: "12px",
+                  background: entry.color,
+                  borderRadius: "2px",
+                }}
+              />
+              <s-text>{entry.label}</s-text>
+            </s-stack>
+          ))}
+      </s-stack>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        role="img"
+        aria-label={series.map((entry) => entry.label).join(", ")}
+        style={{ width: "100%", height: "auto" }}
+      >
+        <line
+          x1={0}
+          x2={CHART_WIDTH}
+          y1={CHART_HEIGHT}
+          y2={CHART_HEIGHT}
+          stroke="#c9cccf"
+        />
+        {series.map((entry, seriesIndex) =>
+          kind === "bar" ? (
+            <g key={entry.label} fill={entry.color}>
+              {entry.values.slice(0, periods.length).map((value, index) => (
+                <rect
+                  key={index}
+                  x={slot * index + slot * 0.1 + barWidth * seriesIndex}
+                  y={y(value)}
+                  width={barWidth}
+                  height={CHART_HEIGHT - y(value)}
+                >
+                  <title>
+                    {`${(entry.periods || periods)[index]} (${entry.label}): ${format(value)}`}
+                  </title>
+                </rect>
+              ))}
+            </g>
+          ) : (
+            <g key={entry.label}>
+              <polyline
+                fill="none"
+                stroke={entry.color}
+                strokeWidth={2}
+                points={entry.values
+                  .slice(0, periods.length)
+                  .map((value, index) => `${x(index)},${y(value)}`)
+                  .join(" ")}
+              />
+              {entry.values.slice(0, periods.length).map((value, index) => (
+                <circle
+                  key={index}
+                  cx={x(index)}
+                  cy={y(value)}
+                  r={3}
+                  fill={entry.color}
+                >
+                  <title>
+                    {`${(entry.periods || periods)[index]} (${entry.label}): ${format(value)}`}
+                  </title>
+                </circle>
+              ))}
+            </g>
+          ),
+        )}
+      </svg>
+      <s-stack direction="inline" gap="base" justifyContent="space-between">
+        <s-text>{periods[0]}</s-text>
+        <s-text>{periods[periods.length - 1]}</s-text>
+      </s-stack>
+    </s-stack>
+  );
+}
+
+const fetchAllCustomers = async (
+  shop: string,
+  deductions: Map<string, number>,
+) => {
+  const [rows, shopCurrencyCode, byCurrency] = await Promise.all([
+    prisma.customer.findMany({
+      where: { shop },
+      select: {
+        id: true,
+        displayName: true,
+        email: true,
+        numberOfOrders: true,
+        amountSpentShop: true,
       },
-    );
+    }),
+    getShopCurrency(shop),
+    prisma.customer.groupBy({
+      by: ["currencyCode"],
+      where: { shop },
+      _count: { _all: true, amountSpentShop: true },
+      _sum: { amountSpent: true, amountSpentShop: true },
+    }),
+  ]);
 
-    const json = await response.json();
-    if (json.errors) {
-      throw new Error(JSON.stringify(json.errors));
-    }
+  // Customers whose spend is not in the shop currency stay out of totals,
+  // averages and rankings.
+  const valued = rows
+    .filter((customer) => customer.amountSpentShop !== null)
+    .map((customer) => ({
+      ...customer,
+      totalSpent: netRevenue(
+        customer.amountSpentShop as number,
+        customer.id,
+        deductions,
+      ),
+    }));
 
-    const customers = json.data.customers.nodes as CustomerNode[];
-    for (const customer of customers) {
-      const amount = Number(customer.amountSpent?.amount || 0);
-      const ordersCount = customer.numberOfOrders || 0;
-      const name = customer.displayName || customer.email || "Unknown";
-      const email = customer.email || "-";
-
-      if (customer.amountSpent?.currencyCode) {
-        currencyCode = customer.amountSpent.currencyCode;
-      }
-
-      customersCount += 1;
-      totalClv += amount;
-
-      topCustomers = insertTopCustomer(topCustomers, {
-        id: customer.id,
-        name,
-        email,
-        totalSpent: amount,
-        ordersCount,
-      });
-    }
+  const customersCount = rows.length;
+  const totalClv = valued.reduce(
+    (sum, customer) => sum + customer.totalSpent,
+    0,
+  );
+  const currencyCode = shopCurrencyCode || "USD";
 
-    hasNextPage = json.data.customers.pageInfo.hasNextPage;
-    after = json.data.customers.pageInfo.endCursor;
+  // Spend is kept in each customer's own currency alongside its conversion,
+  // so mixed-currency stores can see what was converted and at what total.
+  const currencyBreakdown: LoaderData["currencyBreakdown"] = byCurrency
+    .map((group) => ({
+      currencyCode: group.currencyCode || currencyCode,
+      customers: group._count._all,
+      amountSpent: group._sum.amountSpent || 0,
+      amountSpentShop: group._count.amountSpentShop
+        ? group._sum.amountSpentShop || 0
+        : null,
+      unconverted: group._count._all - group._count.amountSpentShop,
+    }))
+    .sort((a, b) => (b.amountSpentShop ?? -1) - (a.amountSpentShop ?? -1));
 
-    if (customersCount >= MAX_CUSTOMERS && hasNextPage) {
-      truncated = true;
-    }
-  }
+  const topCustomers: LoaderData["topCustomers"] = valued
+    .sort(
+      (a, b) =>
+        b.totalSpent - a.totalSpent || b.numberOfOrders - a.numberOfOrders,
+    )
+    .slice(0, 10)
+    .map((customer) => ({
+      id: customer.id,
+      name: customer.displayName || customer.email || "Unknown",
+      email: customer.email || "-",
+      totalSpent: customer.totalSpent,
+      ordersCount: customer.numberOfOrders,
+    }));
 
   return {
     customersCount,
     totalClv,
-    averageClv: customersCount ? totalClv / customersCount : 0,
+    notConverted: customersCount - valued.length,
+    averageClv: valued.length ? totalClv / valued.length : 0,
     currencyCode,
+    currencyBreakdown,
     topCustomers,
-    truncated,
   };
 };
 
-const fetchCustomerLookup = async (admin: any, email: string) => {
-  const response = await admin.graphql(
+const fetchCustomerLookup = async (admin: AdminApiContext, email: string) => {
+  const data = await adminGraphql(
+    admin,
     `#graphql
       query CustomerLookup($first: Int!, $query: String!) {
         customers(first: $first, query: $query) {
@@ -323,19 +550,12 @@ const fetchCustomerLookup = async (admin: any, email: string) => {
         }
       }`,
     {
-      variables: {
-        first: 1,
-        query: `email:${email}`,
-      },
+      first: 1,
+      query: `email:${email}`,
     },
   );
 
-  const json = await response.json();
-  if (json.errors) {
-    throw new Error(JSON.stringify(json.errors));
-  }
-
-  const customer = (json.data.customers.nodes as CustomerNode[])[0];
+  const customer = data.customers.nodes[0];
   if (!customer) return null;
 
   const name = customer.displayName || customer.email || "Unknown";
@@ -349,6 +569,7 @@ const fetchCustomerLookup = async (admin: any, email: string) => {
     name,
     email: customer.email || "-",
     totalSpent,
+    currencyCode: customer.amountSpent?.currencyCode || "USD",
     ordersCount,
     firstOrderDate: firstOrder?.createdAt || null,
     referrerChannel: formatReferrerChannel(visit),
@@ -358,132 +579,111 @@ const fetchCustomerLookup = async (admin: any, email: string) => {
 };
 
 const fetchOrdersInRange = async (
-  admin: any,
+  shop: string,
   start: Date,
   end: Date,
+  deductions: Map<string, number>,
+  options: { granularity: TimeSeriesGranularity; basis: RevenueBasis },
 ) => {
-  let hasNextPage = true;
-  let after: string | null = null;
-  let ordersCount = 0;
-  let truncated = false;
-  let usedFallback = false;
-
-  const newCustomersMap = new Map<string, LoaderData["newCustomers"][number]>();
-
-  const query = `created_at:>=${start.toISOString()} created_at:<=${end.toISOString()}`;
-
-  while (hasNextPage && ordersCount < MAX_ORDERS) {
-    const response = await admin.graphql(
-      `#graphql
-        query OrdersInRange($first: Int!, $after: String, $query: String!) {
-          orders(first: $first, after: $after, query: $query, sortKey: CREATED_AT) {
-            pageInfo {
-              hasNextPage
-              endCursor
-            }
-            nodes {
-              createdAt
-              customer {
-                id
-                displayName
-                email
-                numberOfOrders
-                amountSpent {
-                  amount
-                  currencyCode
-                }
-                orders(first: 1, sortKey: CREATED_AT) {
-                  nodes {
-                    createdAt
-                  }
-                }
-              }
-            }
-          }
-        }`,
-      {
-        variables: {
-          first: PAGE_SIZE,
-          after,
-          query,
-        },
-      },
-    );
-
-    const json = await response.json();
-    if (json.errors) {
-      throw new Error(JSON.stringify(json.errors));
-    }
-
-    const orders = json.data.orders.nodes as Array<{
-      createdAt: string;
-      customer: CustomerNode | null;
-    }>;
-
-    for (const order of orders) {
-      ordersCount += 1;
-      const customer = order.customer;
-      if (!customer?.id) continue;
-
-      const amount = Number(customer.amountSpent?.amount || 0);
-      const ordersCountCustomer = customer.numberOfOrders || 0;
-      const name = customer.displayName || customer.email || "Unknown";
-      const email = customer.email || "-";
-
-      const firstOrderDateRaw =
-        customer.orders?.nodes?.[0]?.createdAt || null;
-
-      let isNewCustomer = false;
-      let firstOrderDate = firstOrderDateRaw || "";
-
-      if (firstOrderDateRaw) {
-        const firstOrder = new Date(firstOrderDateRaw);
-        isNewCustomer = firstOrder >= start && firstOrder <= end;
-      } else if (ordersCountCustomer === 1) {
-        usedFallback = true;
-        isNewCustomer = true;
-        firstOrderDate = order.createdAt;
-      }
-
-      if (!isNewCustomer) continue;
-
-      if (!newCustomersMap.has(customer.id)) {
-        newCustomersMap.set(customer.id, {
-          id: customer.id,
-          name,
-          email,
-          firstOrderDate: firstOrderDate || order.createdAt,
-          totalSpent: amount,
-          ordersCount: ordersCountCustomer,
-        });
-      }
-    }
+  const orders = await prisma.order.findMany({
+    where: { shop, createdAt: { gte: start, lte: end } },
+    orderBy: { createdAt: "asc" },
+  });
 
-    hasNextPage = json.data.orders.pageInfo.hasNextPage;
-    after = json.data.orders.pageInfo.endCursor;
+  const customerIds = Array.from(
+    new Set(
+      orders
+        .map((order) => order.customerId)
+        .filter((id): id is string => Boolean(id)),
+    ),
+  );
+  const customers = await prisma.customer.findMany({
+    where: { shop, id: { in: customerIds } },
+  });
+  const customersById = new Map(
+    customers.map((customer) => [customer.id, customer]),
+  );
 
-    if (ordersCount >= MAX_ORDERS && hasNextPage) {
-      truncated = true;
-    }
-  }
+  const firstOrders = findFirstOrders(orders, customersById, start, end);
+  const newCustomers: LoaderData["newCustomers"] = Array.from(
+    firstOrders.values(),
+    ({ customer, order }) => ({
+      id: customer.id,
+      name: customer.displayName || customer.email || "Unknown",
+      email: customer.email || "-",
+      firstOrderDate: order.createdAt.toISOString(),
+      totalSpent:
+        customer.amountSpentShop === null
+          ? null
+          : netRevenue(customer.amountSpentShop, customer.id, deductions),
+      ordersCount: customer.numberOfOrders,
+    }),
+  );
 
   return {
-    newCustomers: Array.from(newCustomersMap.values()).sort((a, b) =>
+    newCustomers: newCustomers.sort((a, b) =>
       a.firstOrderDate.localeCompare(b.firstOrderDate),
     ),
-    truncated,
-    usedFallback,
+    timeSeries: buildTimeSeries(orders, customersById, {
+      start,
+      end,
+      ...options,
+    }),
   };
 };
 
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const intent = String(formData.get("intent") || "");
+
+  if (intent === "resync") {
+    await startSync(admin, session.shop);
+    return { ok: true };
+  }
+
+  return { ok: false, error: "Unknown action." };
+};
+
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  const { admin } = await authenticate.admin(request);
+  const { admin, session } = await authenticate.admin(request);
   const url = new URL(request.url);
   const { start, end } = getDateRange(url);
   const lookupEmail = url.searchParams.get("customer_email")?.trim() || "";
+  const basis = parseRevenueBasis(url.searchParams.get("basis"));
+  const granularity = parseTimeSeriesGranularity(
+    url.searchParams.get("granularity"),
+    start,
+    end,
+  );
+  const comparisonMode = parseComparisonMode(url.searchParams.get("compare"));
+  const comparisonRange = getComparisonRange(url, comparisonMode, start, end);
 
-  const customerSummary = await fetchAllCustomers(admin);
-  const ordersSummary = await fetchOrdersInRange(admin, start, end);
+  const sync = await ensureSync(admin, session.shop);
+  const deductions = await loadRevenueDeductions(session.shop, basis);
+  const customerSummary = await fetchAllCustomers(session.shop, deductions);
+  const ordersSummary = await fetchOrdersInRange(
+    session.shop,
+    start,
+    end,
+    deductions,
+    { granularity, basis },
+  );
+  const comparisonSummary = comparisonRange
+    ? await fetchOrdersInRange(
+        session.shop,
+        comparisonRange.start,
+        comparisonRange.end,
+        deductions,
+        { granularity, basis },
+      )
+    : null;
+  const repeatPurchases = await getRepeatPurchaseStats(session.shop, {
+    start,
+    end,
+  });
+  const revenueBreakdown = await getRevenueBreakdown(session.shop);
+  const clv = await getClvPredictions(session.shop);
   const lookupResult = lookupEmail
     ? await fetchCustomerLookup(admin, lookupEmail)
     : null;
@@ -493,23 +693,53 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       start: toDateInput(start),
       end: toDateInput(end),
     },
+    kpis: summarizeRange(
+      ordersSummary.newCustomers.length,
+      ordersSummary.timeSeries,
+    ),
+    comparisonMode,
+    customComparison: {
+      start: url.searchParams.get("compare_start") || "",
+      end: url.searchParams.get("compare_end") || "",
+    },
+    comparison:
+      comparisonRange && comparisonSummary
+        ? {
+            start: toDateInput(comparisonRange.start),
+            end: toDateInput(comparisonRange.end),
+            kpis: summarizeRange(
+              comparisonSummary.newCustomers.length,
+              comparisonSummary.timeSeries,
+            ),
+            timeSeries: comparisonSummary.timeSeries,
+          }
+        : null,
+    basis,
+    granularity,
     customerLookup: {
       query: lookupEmail,
       result: lookupResult,
     },
     totals: {
       customers: customerSummary.customersCount,
+      notConverted: customerSummary.notConverted,
       totalClv: customerSummary.totalClv,
       averageClv: customerSummary.averageClv,
+      predictedClv: clv.fittedAt
+        ? Array.from(clv.predictions.values()).reduce(
+            (sum, prediction) => sum + prediction.predictedClv,
+            0,
+          )
+        : null,
       currencyCode: customerSummary.currencyCode,
     },
+    revenueBreakdown,
+    currencyBreakdown: customerSummary.currencyBreakdown,
     topCustomers: customerSummary.topCustomers,
     newCustomers: ordersSummary.newCustomers,
-    notes: {
-      customersTruncated: customerSummary.truncated,
-      ordersTruncated: ordersSummary.truncated,
-      usedNewCustomerFallback: ordersSummary.usedFallback,
-    },
+    timeSeries: ordersSummary.timeSeries,
+    repeatPurchases,
+    sync,
   };
 
   return data;
@@ -517,9 +747,45 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
 
 export default function Index() {
   const data = useLoaderData<typeof loader>();
+  const revalidator = useRevalidator();
+  const syncInProgress =
+    data.sync.status === "running" || data.sync.status === "importing";
+
+  useEffect(() => {
+    if (!syncInProgress) return;
+    const timer = setInterval(() => {
+      if (revalidator.state === "idle") revalidator.revalidate();
+    }, SYNC_POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [syncInProgress, revalidator]);
+
+  const periods = data.timeSeries.map((point) => point.period);
+  const formatMoney = (value: number) =>
+    formatCurrency(value, data.totals.currencyCode);
 
   return (
     <s-page heading="Customer analytics">
+      <s-section heading="Data sync">
+        <Form method="post">
+          <input type="hidden" name="intent" value="resync" />
+          <s-stack direction="inline" gap="base" alignItems="center">
+            <s-text>
+              Last synced:{" "}
+              {data.sync.lastSyncedAt
+                ? new Date(data.sync.lastSyncedAt).toLocaleString()
+                : "Never"}
+            </s-text>
+            {syncInProgress && <s-badge tone="info">Sync in progress</s-badge>}
+            <s-button type="submit" disabled={syncInProgress}>
+              Resync now
+            </s-button>
+          </s-stack>
+        </Form>
+        {data.sync.status === "failed" && data.sync.error && (
+          <s-paragraph>Last sync failed: {data.sync.error}</s-paragraph>
+        )}
+      </s-section>
+
       <s-section heading="Customer lookup">
         <Form method="get">
           <s-stack direction="inline" gap="base" align="center">
@@ -542,12 +808,15 @@ export default function Index() {
           <s-box padding="base" borderWidth="base" borderRadius="base">
             <s-stack direction="block" gap="base">
               <s-heading>{data.customerLookup.result.name}</s-heading>
+              <s-link href={customerPath(data.customerLookup.result.id)}>
+                View customer details
+              </s-link>
               <s-paragraph>Email: {data.customerLookup.result.email}</s-paragraph>
               <s-paragraph>
                 Total spent:{" "}
                 {formatCurrency(
                   data.customerLookup.result.totalSpent,
-                  data.totals.currencyCode,
+                  data.customerLookup.result.currencyCode,
                 )}
               </s-paragraph>
               <s-paragraph>
@@ -589,9 +858,251 @@ export default function Index() {
               <s-text>End</s-text>
               <input type="date" name="end" defaultValue={data.range.end} />
             </label>
+            <label>
+              <s-text>Revenue basis</s-text>
+              <select name="basis" defaultValue={data.basis}>
+                {REVENUE_BASES.map((basis) => (
+                  <option key={basis.key} value={basis.key}>
+                    {basis.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              <s-text>Chart periods</s-text>
+              <select name="granularity" defaultValue={data.granularity}>
+                {TIME_SERIES_GRANULARITIES.map((granularity) => (
+                  <option key={granularity.key} value={granularity.key}>
+                    {granularity.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              <s-text>Compare with</s-text>
+              <select name="compare" defaultValue={data.comparisonMode}>
+                {COMPARISON_MODES.map((mode) => (
+                  <option key={mode.key} value={mode.key}>
+                    {mode.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              <s-text>Custom comparison start</s-text>
+              <input
+                type="date"
+                name="compare_start"
+                defaultValue={data.customComparison.start}
+              />
+            </label>
+            <label>
+              <s-text>Custom comparison end</s-text>
+              <input
+                type="date"
+                name="compare_end"
+                defaultValue={data.customComparison.end}
+              />
+            </label>
             <s-button type="submit">Update</s-button>
           </s-stack>
         </Form>
+        {data.comparison && (
+          <s-paragraph>
+            Comparing {data.range.start} to {data.range.end} with{" "}
+            {data.comparison.start} to {data.comparison.end}.
+          </s-paragraph>
+        )}
+      </s-section>
+
+      <s-section heading="Trends">
+        <s-stack direction="block" gap="base">
+          <s-box padding="base" borderWidth="base" borderRadius="base">
+            <s-heading>New customers</s-heading>
+            <TrendChart
+              kind="bar"
+              periods={periods}
+              series={[
+                {
+                  label: "New customers",
+                  color: "#2d6cdf",
+                  values: data.timeSeries.map((point) => point.newCustomers),
+                },
+                ...(data.comparison
+                  ? [
+                      {
+                        label: "Comparison range",
+                        color: "#b5b5b5",
+                        values: data.comparison.timeSeries.map(
+                          (point) => point.newCustomers,
+                        ),
+                        periods: data.comparison.timeSeries.map(
+                          (point) => point.period,
+                        ),
+                      },
+                    ]
+                  : []),
+              ]}
+              format={formatCount}
+            />
+          </s-box>
+          <s-box padding="base" borderWidth="base" borderRadius="base">
+            <s-heading>Orders</s-heading>
+            <TrendChart
+              kind="bar"
+              periods={periods}
+              series={[
+                {
+                  label: "Orders",
+                  color: "#47b881",
+                  values: data.timeSeries.map((point) => point.orders),
+                },
+              ]}
+              format={formatCount}
+            />
+          </s-box>
+          <s-box padding="base" borderWidth="base" borderRadius="base">
+            <s-heading>Revenue ({revenueBasisLabel(data.basis)})</s-heading>
+            <TrendChart
+              kind="line"
+              periods={periods}
+              series={[
+                {
+                  label: "All customers",
+                  color: "#2d6cdf",
+                  values: data.timeSeries.map((point) => point.revenue),
+                },
+                {
+                  label: "Returning customers",
+                  color: "#de8e2a",
+                  values: data.timeSeries.map(
+                    (point) => point.returningRevenue,
+                  ),
+                },
+              ]}
+              format={formatMoney}
+            />
+          </s-box>
+        </s-stack>
+      </s-section>
+
+      <s-section heading="Repeat purchases">
+        {data.repeatPurchases.customers === 0 ? (
+          <s-paragraph>
+            No customers placed a first order in this range.
+          </s-paragraph>
+        ) : (
+          <s-stack direction="block" gap="base">
+            <s-stack direction="inline" gap="base">
+              {(
+                [
+                  [
+                    "Customers acquired",
+                    formatCount(data.repeatPurchases.customers),
+                  ],
+                  [
+                    "Repeat rate",
+                    formatPercent(data.repeatPurchases.repeatRate),
+                  ],
+                  [
+                    "Median days to second order",
+                    formatDayCount(
+                      data.repeatPurchases.medianDaysToSecondOrder,
+                    ),
+                  ],
+                  [
+                    "Median days between orders",
+                    formatDayCount(
+                      data.repeatPurchases.medianDaysBetweenOrders,
+                    ),
+                  ],
+                ] as Array<[string, string]>
+              ).map(([label, value]) => (
+                <s-box
+                  key={label}
+                  padding="base"
+                  borderWidth="base"
+                  borderRadius="base"
+                >
+                  <s-heading>{label}</s-heading>
+                  <s-paragraph>{value}</s-paragraph>
+                </s-box>
+              ))}
+            </s-stack>
+            <s-stack direction="inline" gap="base" alignItems="start">
+              <s-box padding="base" borderWidth="base" borderRadius="base">
+                <s-heading>Days from first to second order</s-heading>
+                <div style={{ display: "grid", gap: "6px", minWidth: "240px" }}>
+                  {data.repeatPurchases.secondOrderBuckets.map((bucket) => (
+                    <div
+                      key={bucket.label}
+                      style={{ display: "flex", gap: "8px" }}
+                    >
+                      <span style={{ minWidth: "90px" }}>{bucket.label}</span>
+                      <div
+                        style={{
+                          flex: 1,
+                          background: "#e6e6e6",
+                          borderRadius: "999px",
+                          overflow: "hidden",
+                        }}
+                      >
+                        <div
+                          style={{
+                            height: "8px",
+                            width: `${
+                              data.repeatPurchases.repeatCustomers
+                                ? (bucket.count /
+                                    data.repeatPurchases.repeatCustomers) *
+                                  100
+                                : 0
+                            }%`,
+                            background: "#16a085",
+                          }}
+                        />
+                      </div>
+                      <s-text>{bucket.count}</s-text>
+                    </div>
+                  ))}
+                </div>
+              </s-box>
+              <s-box padding="base" borderWidth="base" borderRadius="base">
+                <s-heading>Second order by acquisition month</s-heading>
+                <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                  <thead>
+                    <tr>
+                      <th align="left">Month</th>
+                      <th align="right">Customers</th>
+                      <th align="right">Repeat customers</th>
+                      {CONVERSION_WINDOWS.map((days) => (
+                        <th key={days} align="right">
+                          Within {days} days
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.repeatPurchases.cohorts.map((cohort) => (
+                      <tr key={cohort.month}>
+                        <td>{cohort.month}</td>
+                        <td align="right">{cohort.customers}</td>
+                        <td align="right">{cohort.repeatCustomers}</td>
+                        {cohort.conversion.map((entry) => (
+                          <td key={entry.days} align="right">
+                            {formatPercent(entry.rate)}
+                            {entry.rate !== null &&
+                              entry.eligible < cohort.customers &&
+                              ` of ${entry.eligible}`}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </s-box>
+            </s-stack>
+          </s-stack>
+        )}
       </s-section>
 
       <s-section heading="Overview">
@@ -601,22 +1112,138 @@ export default function Index() {
             <s-paragraph>{data.totals.customers}</s-paragraph>
           </s-box>
           <s-box padding="base" borderWidth="base" borderRadius="base">
-            <s-heading>Total CLV</s-heading>
+            <s-heading>Total CLV ({revenueBasisLabel(data.basis)})</s-heading>
             <s-paragraph>
               {formatCurrency(data.totals.totalClv, data.totals.currencyCode)}
             </s-paragraph>
+            {data.totals.notConverted > 0 && (
+              <s-text>
+                Excludes {data.totals.notConverted} customers not converted to{" "}
+                {data.totals.currencyCode}
+              </s-text>
+            )}
           </s-box>
           <s-box padding="base" borderWidth="base" borderRadius="base">
-            <s-heading>Average CLV</s-heading>
+            <s-heading>Predicted 12-month CLV</s-heading>
             <s-paragraph>
-              {formatCurrency(data.totals.averageClv, data.totals.currencyCode)}
+              {data.totals.predictedClv === null
+                ? "Not enough history"
+                : formatCurrency(
+                    data.totals.predictedClv,
+                    data.totals.currencyCode,
+                  )}
             </s-paragraph>
           </s-box>
           <s-box padding="base" borderWidth="base" borderRadius="base">
-            <s-heading>New customers</s-heading>
-            <s-paragraph>{data.newCustomers.length}</s-paragraph>
+            <s-heading>Average CLV ({revenueBasisLabel(data.basis)})</s-heading>
+            <s-paragraph>
+              {formatCurrency(data.totals.averageClv, data.totals.currencyCode)}
+            </s-paragraph>
           </s-box>
         </s-stack>
+        <s-stack direction="inline" gap="base">
+          {(
+            [
+              ["New customers", "newCustomers", formatCount],
+              ["Orders", "orders", formatCount],
+              [
+                `Revenue (${revenueBasisLabel(data.basis)})`,
+                "revenue",
+                formatMoney,
+              ],
+              ["Returning-customer revenue", "returningRevenue", formatMoney],
+              ["Average order value", "averageOrderValue", formatMoney],
+            ] as Array<
+              [string, keyof LoaderData["kpis"], (value: number) => string]
+            >
+          ).map(([label, key, format]) => {
+            const value = data.kpis[key];
+            return (
+              <s-box
+                key={key}
+                padding="base"
+                borderWidth="base"
+                borderRadius="base"
+              >
+                <s-stack direction="block" gap="small-200">
+                  <s-heading>{label}</s-heading>
+                  <s-paragraph>
+                    {value === null ? "-" : format(value)}
+                  </s-paragraph>
+                  {data.comparison && (
+                    <Delta
+                      current={value}
+                      previous={data.comparison.kpis[key]}
+                      format={format}
+                    />
+                  )}
+                </s-stack>
+              </s-box>
+            );
+          })}
+        </s-stack>
+        <s-box padding="base" borderWidth="base" borderRadius="base">
+          <s-heading>Order revenue</s-heading>
+          <table style={{ width: "100%", borderCollapse: "collapse" }}>
+            <tbody>
+              {(
+                [
+                  ["Gross sales (after discounts)", data.revenueBreakdown.gross],
+                  ["Discounts given", data.revenueBreakdown.discounts],
+                  ["Refunds", -data.revenueBreakdown.refunds],
+                  ["Net of refunds", data.revenueBreakdown.netOfRefunds],
+                  ["Shipping", -data.revenueBreakdown.shipping],
+                  ["Taxes", -data.revenueBreakdown.taxes],
+                  ["Net merchandise", data.revenueBreakdown.netMerchandise],
+                ] as Array<[string, number]>
+              ).map(([label, value]) => (
+                <tr key={label}>
+                  <td>{label}</td>
+                  <td align="right">
+                    {formatCurrency(value, data.totals.currencyCode)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </s-box>
+        {data.currencyBreakdown.length > 1 && (
+          <s-box padding="base" borderWidth="base" borderRadius="base">
+            <s-heading>Spend by customer currency</s-heading>
+            <table style={{ width: "100%", borderCollapse: "collapse" }}>
+              <thead>
+                <tr>
+                  <th align="left">Currency</th>
+                  <th align="right">Customers</th>
+                  <th align="right">Spent</th>
+                  <th align="right">In {data.totals.currencyCode}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.currencyBreakdown.map((row) => (
+                  <tr key={row.currencyCode}>
+                    <td>{row.currencyCode}</td>
+                    <td align="right">{row.customers}</td>
+                    <td align="right">
+                      {formatCurrency(row.amountSpent, row.currencyCode)}
+                    </td>
+                    <td align="right">
+                      {row.amountSpentShop === null
+                        ? "Not converted"
+                        : formatCurrency(
+                            row.amountSpentShop,
+                            data.totals.currencyCode,
+                          )}
+                      {row.amountSpentShop !== null &&
+                        row.unconverted > 0 &&
+                        ` (${row.unconverted} not converted)`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </s-box>
+        )}
       </s-section>
 
       <s-section heading="New customers (first order in range)">
@@ -631,21 +1258,29 @@ export default function Index() {
                   <th align="left">Email</th>
                   <th align="left">First order</th>
                   <th align="right">Orders</th>
-                  <th align="right">Total spent</th>
+                  <th align="right">
+                    Total spent ({revenueBasisLabel(data.basis)})
+                  </th>
                 </tr>
               </thead>
               <tbody>
                 {data.newCustomers.map((customer) => (
                   <tr key={customer.id}>
-                    <td>{customer.name}</td>
+                    <td>
+                      <s-link href={customerPath(customer.id)}>
+                        {customer.name}
+                      </s-link>
+                    </td>
                     <td>{customer.email}</td>
                     <td>{customer.firstOrderDate.slice(0, 10)}</td>
                     <td align="right">{customer.ordersCount}</td>
                     <td align="right">
-                      {formatCurrency(
-                        customer.totalSpent,
-                        data.totals.currencyCode,
-                      )}
+                      {customer.totalSpent === null
+                        ? "Not converted"
+                        : formatCurrency(
+                            customer.totalSpent,
+                            data.totals.currencyCode,
+                          )}
                     </td>
                   </tr>
                 ))}
@@ -666,13 +1301,19 @@ export default function Index() {
                   <th align="left">Customer</th>
                   <th align="left">Email</th>
                   <th align="right">Orders</th>
-                  <th align="right">Total spent</th>
+                  <th align="right">
+                    Total spent ({revenueBasisLabel(data.basis)})
+                  </th>
                 </tr>
               </thead>
               <tbody>
                 {data.topCustomers.map((customer) => (
                   <tr key={customer.id}>
-                    <td>{customer.name}</td>
+                    <td>
+                      <s-link href={customerPath(customer.id)}>
+                        {customer.name}
+                      </s-link>
+                    </td>
                     <td>{customer.email}</td>
                     <td align="right">{customer.ordersCount}</td>
                     <td align="right">
@@ -691,26 +1332,53 @@ export default function Index() {
 
       <s-section heading="Notes">
         <s-paragraph>
-          CLV is calculated as total spend to date per customer.
+          CLV is calculated as total spend to date per customer, converted to
+          the shop currency ({data.totals.currencyCode}) using the exchange
+          rates recorded on orders placed in each currency. Customers whose
+          currency has no recorded rate are left out of the totals.
+        </s-paragraph>
+        <s-paragraph>
+          The revenue basis controls what counts as spend. Gross uses lifetime
+          spend as reported by Shopify, which is already net of discounts. Net
+          of refunds subtracts refunded amounts, and net merchandise also
+          subtracts shipping and taxes charged on the customer&apos;s orders.
+          Predicted CLV is always based on order totals.
+        </s-paragraph>
+        <s-paragraph>
+          Predicted 12-month CLV is the revenue customers are expected to
+          generate over the next year. It combines a BG/NBD model of how often
+          each customer buys and whether they are still active with a
+          Gamma-Gamma model of how much they spend, both fitted to this
+          shop&apos;s order history. The models are refitted in the background
+          daily and after each sync.
+        </s-paragraph>
+        <s-paragraph>
+          New customers, orders, revenue and average order value cover the date
+          range and can be compared with the previous period of the same length,
+          the same dates a year earlier or a custom range. Customer counts and
+          CLV are lifetime figures and have no comparison. In the new customers
+          chart the comparison range is drawn alongside, period by period.
+        </s-paragraph>
+        <s-paragraph>
+          Repeat purchases follow the customers whose first order falls in the
+          date range through every order they have placed since, ignoring
+          cancelled orders. The repeat rate is the share who ordered again.
+          Second-order conversion only counts customers whose first order was at
+          least that many days ago, so recent months show how many were
+          eligible. The order count histogram on the customer report covers
+          every customer.
+        </s-paragraph>
+        <s-paragraph>
+          Trends cover the orders placed in the date range, grouped by day, week
+          (starting Monday) or month in UTC. Cancelled orders are left out.
+          Returning-customer revenue comes from orders placed by customers who
+          had ordered before, and revenue follows the revenue basis.
+        </s-paragraph>
+        <s-paragraph>
+          Figures are read from the app&apos;s local copy of your customers and
+          orders. A Shopify bulk operation loads the full history and webhooks
+          keep it up to date; use Resync now if the two have drifted apart.
         </s-paragraph>
-        {data.notes.usedNewCustomerFallback && (
-          <s-paragraph>
-            Some customers were counted as new based on having only one order
-            because their first order date was unavailable.
-          </s-paragraph>
-        )}
-        {data.notes.customersTruncated && (
-          <s-paragraph>
-            Customer totals were truncated at {MAX_CUSTOMERS} customers to keep
-            the dashboard fast.
-          </s-paragraph>
-        )}
-        {data.notes.ordersTruncated && (
-          <s-paragraph>
-            New customer calculation was truncated at {MAX_ORDERS} orders to keep
-            the dashboard fast.
-          </s-paragraph>
-        )}
       </s-section>
     </s-page>
   );
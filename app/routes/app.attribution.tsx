@@ -0,0 +1,286 @@
+import type { HeadersFunction, LoaderFunctionArgs } from "react-router";
+import { Form, useLoaderData } from "react-router";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import { authenticate } from "../shopify.server";
+import type { AttributionRow } from "../models/attribution.server";
+import { buildAttributionReport } from "../models/attribution.server";
+import type { AttributionDimension } from "../models/attribution";
+import {
+  ATTRIBUTION_DIMENSIONS,
+  parseAttributionDimension,
+} from "../models/attribution";
+import { getShopCurrency } from "../models/currency.server";
+import { loadRevenueDeductions } from "../models/revenue.server";
+import type { RevenueBasis } from "../models/revenue";
+import {
+  REVENUE_BASES,
+  parseRevenueBasis,
+  revenueBasisLabel,
+} from "../models/revenue";
+
+type LoaderData = {
+  range: {
+    start: string;
+    end: string;
+  };
+  dimension: AttributionDimension;
+  basis: RevenueBasis;
+  currencyCode: string;
+  customers: number;
+  rows: AttributionRow[];
+};
+
+const DEFAULT_RANGE_DAYS = 90;
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+const parseDateParam = (value: string | null, fallback: Date) => {
+  if (!value) return fallback;
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return Number.isNaN(parsed.getTime()) ? fallback : parsed;
+};
+
+const getDateRange = (url: URL) => {
+  const today = new Date();
+  const endDefault = new Date(
+    Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate()),
+  );
+  const startDefault = new Date(endDefault);
+  startDefault.setUTCDate(startDefault.getUTCDate() - (DEFAULT_RANGE_DAYS - 1));
+
+  const startDate = parseDateParam(url.searchParams.get("start"), startDefault);
+  const endDate = parseDateParam(url.searchParams.get("end"), endDefault);
+  const normalizedEnd = new Date(endDate);
+  normalizedEnd.setUTCHours(23, 59, 59);
+
+  if (startDate > normalizedEnd) {
+    const fallbackEnd = new Date(endDefault);
+    fallbackEnd.setUTCHours(23, 59, 59);
+    return { start: startDefault, end: fallbackEnd };
+  }
+
+  return { start: startDate, end: normalizedEnd };
+};
+
+const formatCurrency = (value: number, currencyCode: string) => {
+  if (!Number.isFinite(value)) return "-";
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: currencyCode || "USD",
+    maximumFractionDigits: 2,
+  }).format(value);
+};
+
+const escapeCsv = (value: string | number | null) => {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  if (/[",\n]/.test(text)) {
+    return `"${text.replace(/"/g, "\"\"")}"`;
+  }
+  return text;
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const url = new URL(request.url);
+  const { start, end } = getDateRange(url);
+  const dimension = parseAttributionDimension(
+    url.searchParams.get("dimension"),
+  );
+  const basis = parseRevenueBasis(url.searchParams.get("basis"));
+  const exportCsv = url.searchParams.get("export") === "csv";
+
+  const [deductions, shopCurrencyCode] = await Promise.all([
+    loadRevenueDeductions(session.shop, basis),
+    getShopCurrency(session.shop),
+  ]);
+  const rows = await buildAttributionReport(session.shop, {
+    start,
+    end,
+    dimension,
+    deductions,
+  });
+
+  if (exportCsv) {
+    const csvRows = [
+      [
+        "Group",
+        "Customers",
+        "RepeatCustomers",
+        "RepeatRate",
+        "AverageClv",
+        "TotalClv",
+      ],
+      ...rows.map((row) => [
+        row.group,
+        row.customers,
+        row.repeatCustomers,
+        row.repeatRate.toFixed(4),
+        row.averageClv.toFixed(2),
+        row.totalClv.toFixed(2),
+      ]),
+    ];
+
+    const csv = csvRows.map((row) => row.map(escapeCsv).join(",")).join("\n");
+    const filename = `attribution-${dimension}-${new Date()
+      .toISOString()
+      .slice(0, 10)}.csv`;
+
+    return new Response(csv, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  }
+
+  const data: LoaderData = {
+    range: {
+      start: toDateInput(start),
+      end: toDateInput(end),
+    },
+    dimension,
+    basis,
+    currencyCode: shopCurrencyCode || "USD",
+    customers: rows.reduce((sum, row) => sum + row.customers, 0),
+    rows,
+  };
+
+  return data;
+};
+
+export default function Attribution() {
+  const data = useLoaderData<typeof loader>();
+  const maxTotal = Math.max(0, ...data.rows.map((row) => row.totalClv));
+  const dimensionLabel =
+    ATTRIBUTION_DIMENSIONS.find(
+      (dimension) => dimension.key === data.dimension,
+    )?.label || data.dimension;
+
+  const exportParams = new URLSearchParams({
+    start: data.range.start,
+    end: data.range.end,
+    dimension: data.dimension,
+    basis: data.basis,
+    export: "csv",
+  });
+
+  return (
+    <s-page heading="Acquisition channels">
+      <s-section heading="Attribution">
+        <Form method="get">
+          <s-stack direction="inline" gap="base" alignItems="center">
+            <label>
+              <s-text>First order start</s-text>
+              <input type="date" name="start" defaultValue={data.range.start} />
+            </label>
+            <label>
+              <s-text>First order end</s-text>
+              <input type="date" name="end" defaultValue={data.range.end} />
+            </label>
+            <label>
+              <s-text>Group by</s-text>
+              <select name="dimension" defaultValue={data.dimension}>
+                {ATTRIBUTION_DIMENSIONS.map((dimension) => (
+                  <option key={dimension.key} value={dimension.key}>
+                    {dimension.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              <s-text>Revenue basis</s-text>
+              <select name="basis" defaultValue={data.basis}>
+                {REVENUE_BASES.map((basis) => (
+                  <option key={basis.key} value={basis.key}>
+                    {basis.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <s-button type="submit">Update</s-button>
+          </s-stack>
+        </Form>
+        <s-stack direction="inline" gap="base" alignItems="center">
+          <s-link href={`?${exportParams.toString()}`}>Export CSV</s-link>
+        </s-stack>
+      </s-section>
+
+      <s-section heading={`New customers by ${dimensionLabel.toLowerCase()}`}>
+        {data.rows.length === 0 ? (
+          <s-paragraph>No customers placed a first order in this range.</s-paragraph>
+        ) : (
+          <s-box padding="base" borderWidth="base" borderRadius="base">
+            <table style={{ width: "100%", borderCollapse: "collapse" }}>
+              <thead>
+                <tr>
+                  <th align="left">{dimensionLabel}</th>
+                  <th align="right">Customers</th>
+                  <th align="right">Share</th>
+                  <th align="right">Repeat rate</th>
+                  <th align="right">
+                    Average CLV ({revenueBasisLabel(data.basis)})
+                  </th>
+                  <th align="right">
+                    Total CLV ({revenueBasisLabel(data.basis)})
+                  </th>
+                  <th align="left"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.rows.map((row) => (
+                  <tr key={row.group}>
+                    <td>{row.group}</td>
+                    <td align="right">{row.customers}</td>
+                    <td align="right">
+                      {data.customers
+                        ? `${((row.customers / data.customers) * 100).toFixed(1)}%`
+                        : "-"}
+                    </td>
+                    <td align="right">
+                      {`${(row.repeatRate * 100).toFixed(1)}%`}
+                    </td>
+                    <td align="right">
+                      {formatCurrency(row.averageClv, data.currencyCode)}
+                    </td>
+                    <td align="right">
+                      {formatCurrency(row.totalClv, data.currencyCode)}
+                    </td>
+                    <td style={{ minWidth: "120px" }}>
+                      <div
+                        style={{
+                          height: "8px",
+                          width: `${maxTotal ? (row.totalClv / maxTotal) * 100 : 0}%`,
+                          background: "#2d6cdf",
+                          borderRadius: "999px",
+                        }}
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </s-box>
+        )}
+      </s-section>
+
+      <s-section heading="Notes">
+        <s-paragraph>
+          Customers are attributed to the first visit Shopify recorded in the
+          customer journey of their first order. Customers whose first order has
+          no journey data, or whose first visit has no value for the selected
+          grouping, are shown as Unknown.
+        </s-paragraph>
+        <s-paragraph>
+          CLV is lifetime spend in the shop currency on the selected revenue
+          basis. Repeat rate is the share of customers who have placed more than
+          one order.
+        </s-paragraph>
+      </s-section>
+    </s-page>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
@@ -0,0 +1,391 @@
+import type { HeadersFunction, LoaderFunctionArgs } from "react-router";
+import { Form, useLoaderData } from "react-router";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import { authenticate } from "../shopify.server";
+import type { BundleSuggestion } from "../models/product-affinity.server";
+import { buildBundleSuggestions } from "../models/product-affinity.server";
+import type { BundleSize, BundleSort } from "../models/product-affinity";
+import {
+  BUNDLE_SIZES,
+  BUNDLE_SORTS,
+  parseBundleSize,
+  parseBundleSort,
+} from "../models/product-affinity";
+import { getShopCurrency } from "../models/currency.server";
+import type { RevenueBasis } from "../models/revenue";
+import {
+  REVENUE_BASES,
+  parseRevenueBasis,
+  revenueBasisLabel,
+} from "../models/revenue";
+
+type LoaderData = {
+  range: {
+    start: string;
+    end: string;
+  };
+  size: BundleSize;
+  sort: BundleSort;
+  minOrders: number;
+  basis: RevenueBasis;
+  currencyCode: string;
+  totalOrders: number;
+  skippedOrders: number;
+  totalSuggestions: number;
+  suggestions: BundleSuggestion[];
+};
+
+const DEFAULT_RANGE_DAYS = 90;
+const DEFAULT_MIN_ORDERS = 3;
+const MAX_SUGGESTIONS = 100;
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+const parseDateParam = (value: string | null, fallback: Date) => {
+  if (!value) return fallback;
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return Number.isNaN(parsed.getTime()) ? fallback : parsed;
+};
+
+const getDateRange = (url: URL) => {
+  const today = new Date();
+  const endDefault = new Date(
+    Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate()),
+  );
+  const startDefault = new Date(endDefault);
+  startDefault.setUTCDate(startDefault.getUTCDate() - (DEFAULT_RANGE_DAYS - 1));
+
+  const startDate = parseDateParam(url.searchParams.get("start"), startDefault);
+  const endDate = parseDateParam(url.searchParams.get("end"), endDefault);
+  const normalizedEnd = new Date(endDate);
+  normalizedEnd.setUTCHours(23, 59, 59);
+
+  if (startDate > normalizedEnd) {
+    const fallbackEnd = new Date(endDefault);
+    fallbackEnd.setUTCHours(23, 59, 59);
+    return { start: startDefault, end: fallbackEnd };
+  }
+
+  return { start: startDate, end: normalizedEnd };
+};
+
+const parseMinOrders = (value: string | null) => {
+  const parsed = Number(value);
+  return value && Number.isInteger(parsed) && parsed > 0
+    ? parsed
+    : DEFAULT_MIN_ORDERS;
+};
+
+const formatCurrency = (value: number, currencyCode: string) => {
+  if (!Number.isFinite(value)) return "-";
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: currencyCode || "USD",
+    maximumFractionDigits: 2,
+  }).format(value);
+};
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const productTitles = (suggestion: BundleSuggestion, ids: string[]) =>
+  ids
+    .map(
+      (id) =>
+        suggestion.products.find((product) => product.id === id)?.title || id,
+    )
+    .join(" + ");
+
+const escapeCsv = (value: string | number | null) => {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  if (/[",\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const url = new URL(request.url);
+  const { start, end } = getDateRange(url);
+  const size = parseBundleSize(url.searchParams.get("size"));
+  const sort = parseBundleSort(url.searchParams.get("sort"));
+  const minOrders = parseMinOrders(url.searchParams.get("min_orders"));
+  const basis = parseRevenueBasis(url.searchParams.get("basis"));
+  const exportCsv = url.searchParams.get("export") === "csv";
+
+  const [report, shopCurrencyCode] = await Promise.all([
+    buildBundleSuggestions(session.shop, {
+      start,
+      end,
+      size,
+      sort,
+      minOrders,
+      basis,
+      limit: exportCsv ? Number.POSITIVE_INFINITY : MAX_SUGGESTIONS,
+    }),
+    getShopCurrency(session.shop),
+  ]);
+
+  if (exportCsv) {
+    const csvRows = [
+      [
+        "Products",
+        "ProductIds",
+        "Orders",
+        "Support",
+        "Rule",
+        "Confidence",
+        "Lift",
+        "OrderRevenue",
+        "Customers",
+        "AverageClv",
+      ],
+      ...report.suggestions.map((suggestion) => [
+        productTitles(
+          suggestion,
+          suggestion.products.map(({ id }) => id),
+        ),
+        suggestion.products.map(({ id }) => id).join(" "),
+        suggestion.orders,
+        suggestion.support.toFixed(4),
+        `${productTitles(suggestion, suggestion.antecedent)} -> ${productTitles(
+          suggestion,
+          [suggestion.consequent],
+        )}`,
+        suggestion.confidence.toFixed(4),
+        suggestion.lift.toFixed(4),
+        suggestion.revenue.toFixed(2),
+        suggestion.customers,
+        suggestion.averageClv.toFixed(2),
+      ]),
+    ];
+
+    const csv = csvRows.map((row) => row.map(escapeCsv).join(",")).join("\n");
+    const filename = `bundle-suggestions-${new Date()
+      .toISOString()
+      .slice(0, 10)}.csv`;
+
+    return new Response(csv, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  }
+
+  const data: LoaderData = {
+    range: {
+      start: toDateInput(start),
+      end: toDateInput(end),
+    },
+    size,
+    sort,
+    minOrders,
+    basis,
+    currencyCode: shopCurrencyCode || "USD",
+    ...report,
+  };
+
+  return data;
+};
+
+export default function BundleSuggestions() {
+  const data = useLoaderData<typeof loader>();
+
+  const exportParams = new URLSearchParams({
+    start: data.range.start,
+    end: data.range.end,
+    size: data.size,
+    sort: data.sort,
+    min_orders: String(data.minOrders),
+    basis: data.basis,
+    export: "csv",
+  });
+
+  return (
+    <s-page heading="Bundle suggestions">
+      <s-section heading="Products bought together">
+        <Form method="get">
+          <s-stack direction="inline" gap="base" alignItems="center">
+            <label>
+              <s-text>Orders from</s-text>
+              <input type="date" name="start" defaultValue={data.range.start} />
+            </label>
+            <label>
+              <s-text>Orders to</s-text>
+              <input type="date" name="end" defaultValue={data.range.end} />
+            </label>
+            <label>
+              <s-text>Combinations</s-text>
+              <select name="size" defaultValue={data.size}>
+                {BUNDLE_SIZES.map((size) => (
+                  <option key={size.key} value={size.key}>
+                    {size.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              <s-text>Sort by</s-text>
+              <select name="sort" defaultValue={data.sort}>
+                {BUNDLE_SORTS.map((sort) => (
+                  <option key={sort.key} value={sort.key}>
+                    {sort.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              <s-text>Min orders together</s-text>
+              <input
+                type="number"
+                name="min_orders"
+                min={1}
+                defaultValue={data.minOrders}
+              />
+            </label>
+            <label>
+              <s-text>Revenue basis</s-text>
+              <select name="basis" defaultValue={data.basis}>
+                {REVENUE_BASES.map((basis) => (
+                  <option key={basis.key} value={basis.key}>
+                    {basis.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <s-button type="submit">Update</s-button>
+          </s-stack>
+        </Form>
+        <s-stack direction="inline" gap="base" alignItems="center">
+          <s-paragraph>
+            {data.totalSuggestions > data.suggestions.length
+              ? `Showing the top ${data.suggestions.length} of ${data.totalSuggestions} combinations`
+              : `${data.totalSuggestions} combinations`}{" "}
+            from {data.totalOrders} orders.
+            {data.skippedOrders > 0 &&
+              ` ${data.skippedOrders} very large orders were left out.`}
+          </s-paragraph>
+          <s-link href={`?${exportParams.toString()}`}>Export CSV</s-link>
+        </s-stack>
+      </s-section>
+
+      <s-section heading="Suggested bundles">
+        {data.suggestions.length === 0 ? (
+          <s-paragraph>
+            No products were bought together often enough in this range.
+          </s-paragraph>
+        ) : (
+          <s-box padding="base" borderWidth="base" borderRadius="base">
+            <table style={{ width: "100%", borderCollapse: "collapse" }}>
+              <thead>
+                <tr>
+                  <th align="left">Products</th>
+                  <th align="right">Orders</th>
+                  <th align="right">Support</th>
+                  <th align="left">Strongest rule</th>
+                  <th align="right">Confidence</th>
+                  <th align="right">Lift</th>
+                  <th align="right">
+                    Order revenue ({revenueBasisLabel(data.basis)})
+                  </th>
+                  <th align="right">Average customer CLV</th>
+                  <th align="right"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.suggestions.map((suggestion) => (
+                  <tr key={suggestion.key}>
+                    <td>
+                      {productTitles(
+                        suggestion,
+                        suggestion.products.map(({ id }) => id),
+                      )}
+                    </td>
+                    <td align="right">{suggestion.orders}</td>
+                    <td align="right">{formatPercent(suggestion.support)}</td>
+                    <td>
+                      {productTitles(suggestion, suggestion.antecedent)} →{" "}
+                      {productTitles(suggestion, [suggestion.consequent])}
+                    </td>
+                    <td align="right">
+                      {formatPercent(suggestion.confidence)}
+                    </td>
+                    <td align="right">{suggestion.lift.toFixed(2)}</td>
+                    <td align="right">
+                      {formatCurrency(suggestion.revenue, data.currencyCode)}
+                    </td>
+                    <td align="right">
+                      {formatCurrency(suggestion.averageClv, data.currencyCode)}
+                      {suggestion.notConverted > 0 &&
+                        ` (${suggestion.notConverted} not converted)`}
+                    </td>
+                    <td align="right">
+                      <Form method="post" action="/app/bundles">
+                        <input type="hidden" name="intent" value="create" />
+                        <input
+                          type="hidden"
+                          name="bundle_name"
+                          value={productTitles(
+                            suggestion,
+                            suggestion.products.map(({ id }) => id),
+                          )}
+                        />
+                        <input
+                          type="hidden"
+                          name="items"
+                          value={JSON.stringify(
+                            suggestion.products.map((product) => ({
+                              productId: product.id,
+                              variantId: null,
+                              title: product.title,
+                            })),
+                          )}
+                        />
+                        <s-button type="submit" variant="tertiary">
+                          Save as bundle
+                        </s-button>
+                      </Form>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </s-box>
+        )}
+      </s-section>
+
+      <s-section heading="Notes">
+        <s-paragraph>
+          Combinations are counted over the orders placed in the range that were
+          not cancelled, by product, ignoring quantities, custom items and
+          orders with more than 50 different products. A triple is only
+          considered when each of its pairs was bought together in at least the
+          minimum number of orders.
+        </s-paragraph>
+        <s-paragraph>
+          Support is the share of orders containing every product of the
+          combination. The strongest rule is the product the others predict
+          best: confidence is the share of orders with the other products that
+          also contain it, and lift compares that with how often it is bought at
+          all. Only combinations with a lift above 1, bought together more often
+          than chance, are suggested.
+        </s-paragraph>
+        <s-paragraph>
+          Order revenue is the whole revenue of the orders containing the
+          combination, on the selected revenue basis. Average customer CLV is
+          the lifetime spend of the customers who placed those orders.
+        </s-paragraph>
+        <s-paragraph>
+          Save as bundle adds the combination to Bundles, named after its
+          products, where its performance can be followed over time.
+        </s-paragraph>
+      </s-section>
+    </s-page>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
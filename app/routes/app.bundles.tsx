@@ -0,0 +1,426 @@
+import type {
+  ActionFunctionArgs,
+  HeadersFunction,
+  LoaderFunctionArgs,
+} from "react-router";
+import { useState } from "react";
+import { Form, useActionData, useLoaderData } from "react-router";
+import { useAppBridge } from "@shopify/app-bridge-react";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import { authenticate } from "../shopify.server";
+import type {
+  BundleItemInput,
+  BundlePerformance,
+} from "../models/bundles.server";
+import {
+  createBundle,
+  deleteBundle,
+  getBundlePerformance,
+  listBundles,
+  parseBundleItems,
+  updateBundle,
+} from "../models/bundles.server";
+import { getShopCurrency } from "../models/currency.server";
+import type { RevenueBasis } from "../models/revenue";
+import {
+  REVENUE_BASES,
+  parseRevenueBasis,
+  revenueBasisLabel,
+} from "../models/revenue";
+
+type LoaderData = {
+  range: {
+    start: string;
+    end: string;
+  };
+  basis: RevenueBasis;
+  currencyCode: string;
+  bundles: Array<{
+    id: string;
+    name: string;
+    discountCode: string | null;
+    items: BundleItemInput[];
+    performance: BundlePerformance | null;
+  }>;
+};
+
+const DEFAULT_RANGE_DAYS = 90;
+const MAX_NAME_LENGTH = 255;
+const BUNDLE_NOT_FOUND = { ok: false, error: "Bundle not found." };
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+const parseDateParam = (value: string | null, fallback: Date) => {
+  if (!value) return fallback;
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return Number.isNaN(parsed.getTime()) ? fallback : parsed;
+};
+
+const getDateRange = (url: URL) => {
+  const today = new Date();
+  const endDefault = new Date(
+    Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate()),
+  );
+  const startDefault = new Date(endDefault);
+  startDefault.setUTCDate(startDefault.getUTCDate() - (DEFAULT_RANGE_DAYS - 1));
+
+  const startDate = parseDateParam(url.searchParams.get("start"), startDefault);
+  const endDate = parseDateParam(url.searchParams.get("end"), endDefault);
+  const normalizedEnd = new Date(endDate);
+  normalizedEnd.setUTCHours(23, 59, 59);
+
+  if (startDate > normalizedEnd) {
+    const fallbackEnd = new Date(endDefault);
+    fallbackEnd.setUTCHours(23, 59, 59);
+    return { start: startDefault, end: fallbackEnd };
+  }
+
+  return { start: startDate, end: normalizedEnd };
+};
+
+const formatCurrency = (value: number | null, currencyCode: string) => {
+  if (value === null || !Number.isFinite(value)) return "-";
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: currencyCode || "USD",
+    maximumFractionDigits: 2,
+  }).format(value);
+};
+
+const formatPercent = (value: number | null) =>
+  value === null ? "-" : `${(value * 100).toFixed(1)}%`;
+
+const formatCustomerGroup = (
+  group: BundlePerformance["firstOrderWithBundle"],
+  currencyCode: string,
+) =>
+  `${formatCurrency(group.averageClv, currencyCode)} (${group.customers} customers${
+    group.notConverted ? `, ${group.notConverted} not converted` : ""
+  })`;
+
+const parseBundleForm = (formData: FormData) => {
+  const name = String(formData.get("bundle_name") || "").trim();
+  const discountCode = String(formData.get("discount_code") || "").trim();
+  if (!name) return { error: "Bundle name is required." };
+  if (name.length > MAX_NAME_LENGTH || discountCode.length > MAX_NAME_LENGTH) {
+    return {
+      error: `Names and discount codes can be at most ${MAX_NAME_LENGTH} characters.`,
+    };
+  }
+  return { name, discountCode: discountCode || null };
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const intent = String(formData.get("intent") || "");
+  const shop = session.shop;
+
+  if (intent === "create") {
+    const fields = parseBundleForm(formData);
+    if ("error" in fields) return { ok: false, error: fields.error };
+
+    const items = parseBundleItems(String(formData.get("items") || ""));
+    if (items.length < 2) {
+      return {
+        ok: false,
+        error: "A bundle needs at least two products or variants.",
+      };
+    }
+
+    await createBundle(shop, { ...fields, items });
+    return { ok: true, message: `Saved the ${fields.name} bundle.` };
+  }
+
+  const id = String(formData.get("bundle_id") || "");
+
+  if (intent === "update") {
+    const fields = parseBundleForm(formData);
+    if ("error" in fields) return { ok: false, error: fields.error };
+    return (await updateBundle(shop, id, fields))
+      ? { ok: true }
+      : BUNDLE_NOT_FOUND;
+  }
+
+  if (intent === "delete") {
+    return (await deleteBundle(shop, id)) ? { ok: true } : BUNDLE_NOT_FOUND;
+  }
+
+  return { ok: false, error: "Unknown action." };
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const url = new URL(request.url);
+  const { start, end } = getDateRange(url);
+  const basis = parseRevenueBasis(url.searchParams.get("basis"));
+
+  const [bundles, shopCurrencyCode] = await Promise.all([
+    listBundles(session.shop),
+    getShopCurrency(session.shop),
+  ]);
+  const performance = await getBundlePerformance(session.shop, bundles, {
+    start,
+    end,
+    basis,
+  });
+
+  const data: LoaderData = {
+    range: {
+      start: toDateInput(start),
+      end: toDateInput(end),
+    },
+    basis,
+    currencyCode: shopCurrencyCode || "USD",
+    bundles: bundles.map((bundle) => ({
+      id: bundle.id,
+      name: bundle.name,
+      discountCode: bundle.discountCode,
+      items: bundle.items.map((item) => ({
+        productId: item.productId,
+        variantId: item.variantId,
+        title: item.title,
+      })),
+      performance:
+        performance.find((entry) => entry.bundleId === bundle.id) || null,
+    })),
+  };
+
+  return data;
+};
+
+export default function Bundles() {
+  const data = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const shopify = useAppBridge();
+  const [items, setItems] = useState<BundleItemInput[]>([]);
+
+  // Picking every variant of a product adds the product itself, so any of
+  // its variants completes the bundle.
+  const chooseItems = async () => {
+    const selection = await shopify.resourcePicker({
+      type: "product",
+      multiple: true,
+    });
+    if (!selection) return;
+
+    setItems(
+      selection.flatMap((product) =>
+        product.variants.length &&
+        product.variants.length < product.totalVariants
+          ? product.variants.map((variant) => ({
+              productId: product.id,
+              variantId: variant.id || null,
+              title:
+                variant.displayName || `${product.title} - ${variant.title}`,
+            }))
+          : [{ productId: product.id, variantId: null, title: product.title }],
+      ),
+    );
+  };
+
+  return (
+    <s-page heading="Bundles">
+      {actionData && !actionData.ok && (
+        <s-banner tone="critical">{actionData.error}</s-banner>
+      )}
+      {actionData?.message && (
+        <s-banner tone="success">{actionData.message}</s-banner>
+      )}
+
+      <s-section heading="Bundle performance">
+        <Form method="get">
+          <s-stack direction="inline" gap="base" alignItems="center">
+            <label>
+              <s-text>Orders from</s-text>
+              <input type="date" name="start" defaultValue={data.range.start} />
+            </label>
+            <label>
+              <s-text>Orders to</s-text>
+              <input type="date" name="end" defaultValue={data.range.end} />
+            </label>
+            <label>
+              <s-text>Revenue basis</s-text>
+              <select name="basis" defaultValue={data.basis}>
+                {REVENUE_BASES.map((basis) => (
+                  <option key={basis.key} value={basis.key}>
+                    {basis.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <s-button type="submit">Update</s-button>
+          </s-stack>
+        </Form>
+        {data.bundles.length === 0 ? (
+          <s-paragraph>
+            No bundles yet. Create one below or save one from{" "}
+            <s-link href="/app/bundle-suggestions">bundle suggestions</s-link>.
+          </s-paragraph>
+        ) : (
+          <s-box padding="base" borderWidth="base" borderRadius="base">
+            <table style={{ width: "100%", borderCollapse: "collapse" }}>
+              <thead>
+                <tr>
+                  <th align="left">Bundle</th>
+                  <th align="right">Bundle orders</th>
+                  <th align="right">Attach rate</th>
+                  <th align="right">Bundle revenue</th>
+                  <th align="right">First order with bundle</th>
+                  <th align="right">First order without bundle</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.bundles.map((bundle) => (
+                  <tr key={bundle.id}>
+                    <td>
+                      <s-stack direction="block" gap="small-200">
+                        <s-text type="strong">{bundle.name}</s-text>
+                        <s-text>
+                          {bundle.items.map((item) => item.title).join(" + ")}
+                        </s-text>
+                        {bundle.discountCode && (
+                          <s-text>Discount code: {bundle.discountCode}</s-text>
+                        )}
+                      </s-stack>
+                    </td>
+                    <td align="right">{bundle.performance?.orders ?? "-"}</td>
+                    <td align="right">
+                      {formatPercent(bundle.performance?.attachRate ?? null)}
+                    </td>
+                    <td align="right">
+                      {formatCurrency(
+                        bundle.performance?.revenue ?? null,
+                        data.currencyCode,
+                      )}
+                    </td>
+                    <td align="right">
+                      {bundle.performance
+                        ? formatCustomerGroup(
+                            bundle.performance.firstOrderWithBundle,
+                            data.currencyCode,
+                          )
+                        : "-"}
+                    </td>
+                    <td align="right">
+                      {bundle.performance
+                        ? formatCustomerGroup(
+                            bundle.performance.firstOrderWithoutBundle,
+                            data.currencyCode,
+                          )
+                        : "-"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </s-box>
+        )}
+      </s-section>
+
+      <s-section heading="New bundle">
+        <Form method="post">
+          <input type="hidden" name="intent" value="create" />
+          <input type="hidden" name="items" value={JSON.stringify(items)} />
+          <s-stack direction="block" gap="base">
+            <s-stack direction="inline" gap="base" alignItems="center">
+              <label>
+                <s-text>Bundle name</s-text>
+                <input
+                  type="text"
+                  name="bundle_name"
+                  placeholder="Starter kit"
+                />
+              </label>
+              <label>
+                <s-text>Discount code (optional)</s-text>
+                <input type="text" name="discount_code" placeholder="KIT10" />
+              </label>
+              <s-button onClick={chooseItems}>
+                {items.length ? "Change products" : "Choose products"}
+              </s-button>
+              <s-button type="submit" disabled={items.length < 2}>
+                Save bundle
+              </s-button>
+            </s-stack>
+            {items.length > 0 && (
+              <s-paragraph>
+                {items.map((item) => item.title).join(" + ")}
+              </s-paragraph>
+            )}
+          </s-stack>
+        </Form>
+      </s-section>
+
+      {data.bundles.length > 0 && (
+        <s-section heading="Manage bundles">
+          <s-stack direction="block" gap="base">
+            {data.bundles.map((bundle) => (
+              <s-stack
+                key={bundle.id}
+                direction="inline"
+                gap="base"
+                alignItems="center"
+              >
+                <Form method="post">
+                  <input type="hidden" name="intent" value="update" />
+                  <input type="hidden" name="bundle_id" value={bundle.id} />
+                  <s-stack direction="inline" gap="base" alignItems="center">
+                    <input
+                      type="text"
+                      name="bundle_name"
+                      defaultValue={bundle.name}
+                      aria-label="Bundle name"
+                    />
+                    <input
+                      type="text"
+                      name="discount_code"
+                      defaultValue={bundle.discountCode || ""}
+                      placeholder="Discount code"
+                      aria-label="Discount code"
+                    />
+                    <s-button type="submit" variant="secondary">
+                      Save
+                    </s-button>
+                  </s-stack>
+                </Form>
+                <Form method="post">
+                  <input type="hidden" name="intent" value="delete" />
+                  <input type="hidden" name="bundle_id" value={bundle.id} />
+                  <s-button type="submit" variant="tertiary" tone="critical">
+                    Delete
+                  </s-button>
+                </Form>
+              </s-stack>
+            ))}
+          </s-stack>
+        </s-section>
+      )}
+
+      <s-section heading="Notes">
+        <s-paragraph>
+          A bundle order is an order, not cancelled, that contains every item of
+          the bundle. A product in a bundle matches any of its variants; a
+          variant only matches itself. Attach rate is the share of orders with
+          at least one bundle item that contain the whole bundle. Bundle revenue
+          is what the bundle&apos;s items brought in after discounts in those
+          orders.
+        </s-paragraph>
+        <s-paragraph>
+          The first order columns compare customers whose first order falls in
+          the range: the average lifetime spend of those whose first order
+          contained the whole bundle, and of those whose first order did not, on
+          the {revenueBasisLabel(data.basis).toLowerCase()} revenue basis.
+        </s-paragraph>
+        <s-paragraph>
+          Discount codes are kept for reference. Orders are matched to a bundle
+          by their items, whether or not the code was used.
+        </s-paragraph>
+      </s-section>
+    </s-page>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
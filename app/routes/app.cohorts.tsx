@@ -0,0 +1,345 @@
+import type { HeadersFunction, LoaderFunctionArgs } from "react-router";
+import { Form, useLoaderData } from "react-router";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import { authenticate } from "../shopify.server";
+import type {
+  CohortGranularity,
+  CohortRow,
+} from "../models/cohorts.server";
+import { buildCohortMatrix } from "../models/cohorts.server";
+
+type CohortMetric = "retention" | "revenue";
+type CohortMode = "absolute" | "percentage";
+
+type LoaderData = {
+  range: {
+    start: string;
+    end: string;
+  };
+  granularity: CohortGranularity;
+  metric: CohortMetric;
+  mode: CohortMode;
+  currencyCode: string;
+  maxPeriods: number;
+  rows: CohortRow[];
+};
+
+const DEFAULT_RANGE_MONTHS = 12;
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+const parseDateParam = (value: string | null, fallback: Date) => {
+  if (!value) return fallback;
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return Number.isNaN(parsed.getTime()) ? fallback : parsed;
+};
+
+const getDateRange = (url: URL) => {
+  const today = new Date();
+  const endDefault = new Date(
+    Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate()),
+  );
+  const startDefault = new Date(
+    Date.UTC(
+      today.getUTCFullYear(),
+      today.getUTCMonth() - (DEFAULT_RANGE_MONTHS - 1),
+      1,
+    ),
+  );
+
+  const startDate = parseDateParam(url.searchParams.get("start"), startDefault);
+  const endDate = parseDateParam(url.searchParams.get("end"), endDefault);
+  const normalizedEnd = new Date(endDate);
+  normalizedEnd.setUTCHours(23, 59, 59);
+
+  if (startDate > normalizedEnd) {
+    const fallbackEnd = new Date(endDefault);
+    fallbackEnd.setUTCHours(23, 59, 59);
+    return { start: startDefault, end: fallbackEnd };
+  }
+
+  return { start: startDate, end: normalizedEnd };
+};
+
+const parseGranularity = (value: string | null): CohortGranularity =>
+  value === "week" ? "week" : "month";
+
+const parseMetric = (value: string | null): CohortMetric =>
+  value === "revenue" ? "revenue" : "retention";
+
+const parseMode = (value: string | null): CohortMode =>
+  value === "absolute" ? "absolute" : "percentage";
+
+const formatCurrency = (value: number, currencyCode: string) => {
+  if (!Number.isFinite(value)) return "-";
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: currencyCode || "USD",
+    maximumFractionDigits: 0,
+  }).format(value);
+};
+
+const escapeCsv = (value: string | number | null) => {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  if (/[",\n]/.test(text)) {
+    return `"${text.replace(/"/g, "\"\"")}"`;
+  }
+  return text;
+};
+
+/**
+ * Returns the number shown in a cell. Retention percentages are relative to
+ * the cohort size; revenue percentages are relative to the revenue the cohort
+ * generated in its acquisition period.
+ */
+const cellValue = (
+  row: CohortRow,
+  index: number,
+  metric: CohortMetric,
+  mode: CohortMode,
+) => {
+  const cell = row.periods[index];
+  if (!cell) return null;
+
+  if (metric === "retention") {
+    if (mode === "absolute") return cell.activeCustomers;
+    return row.customers ? (cell.activeCustomers / row.customers) * 100 : 0;
+  }
+
+  if (mode === "absolute") return cell.cumulativeRevenue;
+  const baseline = row.periods[0]?.revenue || 0;
+  return baseline ? (cell.cumulativeRevenue / baseline) * 100 : null;
+};
+
+const formatCell = (
+  value: number | null,
+  metric: CohortMetric,
+  mode: CohortMode,
+  currencyCode: string,
+) => {
+  if (value === null) return "";
+  if (mode === "percentage") return `${value.toFixed(1)}%`;
+  if (metric === "revenue") return formatCurrency(value, currencyCode);
+  return String(value);
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const url = new URL(request.url);
+  const { start, end } = getDateRange(url);
+  const granularity = parseGranularity(url.searchParams.get("granularity"));
+  const metric = parseMetric(url.searchParams.get("metric"));
+  const mode = parseMode(url.searchParams.get("mode"));
+  const exportCsv = url.searchParams.get("export") === "csv";
+
+  const matrix = await buildCohortMatrix(session.shop, {
+    start,
+    end,
+    granularity,
+  });
+
+  if (exportCsv) {
+    const periodPrefix = granularity === "month" ? "Month" : "Week";
+    const rows = [
+      [
+        "Cohort",
+        "Customers",
+        ...Array.from(
+          { length: matrix.maxPeriods },
+          (_, index) => `${periodPrefix}${index}`,
+        ),
+      ],
+      ...matrix.rows.map((row) => [
+        row.cohort,
+        row.customers,
+        ...Array.from({ length: matrix.maxPeriods }, (_, index) => {
+          const value = cellValue(row, index, metric, mode);
+          if (value === null) return "";
+          return mode === "percentage" || metric === "revenue"
+            ? value.toFixed(2)
+            : value;
+        }),
+      ]),
+    ];
+
+    const csv = rows.map((row) => row.map(escapeCsv).join(",")).join("\n");
+    const filename = `cohorts-${metric}-${mode}-${new Date()
+      .toISOString()
+      .slice(0, 10)}.csv`;
+
+    return new Response(csv, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  }
+
+  const data: LoaderData = {
+    range: {
+      start: toDateInput(start),
+      end: toDateInput(end),
+    },
+    granularity,
+    metric,
+    mode,
+    currencyCode: matrix.currencyCode,
+    maxPeriods: matrix.maxPeriods,
+    rows: matrix.rows,
+  };
+
+  return data;
+};
+
+export default function Cohorts() {
+  const data = useLoaderData<typeof loader>();
+  const periodPrefix = data.granularity === "month" ? "Month" : "Week";
+
+  const values = data.rows.flatMap((row) =>
+    row.periods.map((_, index) =>
+      cellValue(row, index, data.metric, data.mode),
+    ),
+  );
+  const maxValue = Math.max(
+    0,
+    ...values.filter((value): value is number => value !== null),
+  );
+
+  const exportParams = new URLSearchParams({
+    start: data.range.start,
+    end: data.range.end,
+    granularity: data.granularity,
+    metric: data.metric,
+    mode: data.mode,
+    export: "csv",
+  });
+
+  return (
+    <s-page heading="Cohort retention">
+      <s-section heading="Cohorts">
+        <Form method="get">
+          <s-stack direction="inline" gap="base" alignItems="center">
+            <label>
+              <s-text>First order start</s-text>
+              <input type="date" name="start" defaultValue={data.range.start} />
+            </label>
+            <label>
+              <s-text>First order end</s-text>
+              <input type="date" name="end" defaultValue={data.range.end} />
+            </label>
+            <label>
+              <s-text>Group by</s-text>
+              <select name="granularity" defaultValue={data.granularity}>
+                <option value="month">First-order month</option>
+                <option value="week">First-order week</option>
+              </select>
+            </label>
+            <label>
+              <s-text>Metric</s-text>
+              <select name="metric" defaultValue={data.metric}>
+                <option value="retention">Returning customers</option>
+                <option value="revenue">Cumulative revenue</option>
+              </select>
+            </label>
+            <label>
+              <s-text>Show as</s-text>
+              <select name="mode" defaultValue={data.mode}>
+                <option value="percentage">Percentage</option>
+                <option value="absolute">Absolute</option>
+              </select>
+            </label>
+            <s-button type="submit">Update</s-button>
+          </s-stack>
+        </Form>
+        <s-stack direction="inline" gap="base" alignItems="center">
+          <s-link href={`?${exportParams.toString()}`}>Export CSV</s-link>
+        </s-stack>
+      </s-section>
+
+      <s-section heading="Retention matrix">
+        {data.rows.length === 0 ? (
+          <s-paragraph>No customers placed a first order in this range.</s-paragraph>
+        ) : (
+          <s-box padding="base" borderWidth="base" borderRadius="base">
+            <div style={{ overflowX: "auto" }}>
+              <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                <thead>
+                  <tr>
+                    <th align="left">Cohort</th>
+                    <th align="right">Customers</th>
+                    {Array.from({ length: data.maxPeriods }, (_, index) => (
+                      <th key={index} align="right">
+                        {periodPrefix} {index}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.rows.map((row) => (
+                    <tr key={row.cohort}>
+                      <td>{row.cohort}</td>
+                      <td align="right">{row.customers}</td>
+                      {Array.from({ length: data.maxPeriods }, (_, index) => {
+                        const value = cellValue(
+                          row,
+                          index,
+                          data.metric,
+                          data.mode,
+                        );
+                        const intensity =
+                          value !== null && maxValue ? value / maxValue : 0;
+                        return (
+                          <td
+                            key={index}
+                            align="right"
+                            style={{
+                              padding: "4px 6px",
+                              background:
+                                value === null
+                                  ? "transparent"
+                                  : `rgba(45, 108, 223, ${(
+                                      0.08 +
+                                      intensity * 0.72
+                                    ).toFixed(2)})`,
+                              color: intensity > 0.6 ? "#fff" : undefined,
+                            }}
+                          >
+                            {formatCell(
+                              value,
+                              data.metric,
+                              data.mode,
+                              data.currencyCode,
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </s-box>
+        )}
+      </s-section>
+
+      <s-section heading="Notes">
+        <s-paragraph>
+          Customers are grouped by the {data.granularity} of their first order.
+          {periodPrefix} 0 is the acquisition {data.granularity}; later columns
+          count the customers who ordered again in that {data.granularity} and
+          the revenue the cohort has generated up to it. Cancelled orders are
+          excluded.
+        </s-paragraph>
+        <s-paragraph>
+          Revenue percentages compare cumulative revenue with the revenue from
+          the cohort&apos;s acquisition {data.granularity}.
+        </s-paragraph>
+      </s-section>
+    </s-page>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
@@ -0,0 +1,239 @@
+import type {
+  ActionFunctionArgs,
+  HeadersFunction,
+  LoaderFunctionArgs,
+} from "react-router";
+import { Form, useActionData, useLoaderData } from "react-router";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import { authenticate } from "../shopify.server";
+import { getShopCurrency } from "../models/currency.server";
+import {
+  deleteCostOverride,
+  getCostCoverage,
+  saveCostOverride,
+} from "../models/gross-profit.server";
+
+type LoaderData = {
+  currencyCode: string;
+  missing: Array<{
+    variantId: string;
+    title: string;
+    unitsSold: number;
+    revenue: number;
+  }>;
+  overrides: Array<{
+    variantId: string;
+    title: string;
+    unitCost: number;
+    updatedAt: string;
+  }>;
+};
+
+const formatCurrency = (value: number, currencyCode: string) => {
+  if (!Number.isFinite(value)) return "-";
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: currencyCode || "USD",
+    maximumFractionDigits: 2,
+  }).format(value);
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const intent = String(formData.get("intent") || "");
+  const variantId = String(formData.get("variant_id") || "");
+
+  if (!variantId) {
+    return { ok: false, error: "Variant is required." };
+  }
+
+  if (intent === "save") {
+    const unitCost = Number(formData.get("unit_cost"));
+    if (!Number.isFinite(unitCost) || unitCost < 0) {
+      return { ok: false, error: "Unit cost must be zero or more." };
+    }
+
+    const title = String(formData.get("title") || "").trim() || null;
+    await saveCostOverride(session.shop, variantId, unitCost, title);
+    return { ok: true };
+  }
+
+  if (intent === "delete") {
+    await deleteCostOverride(session.shop, variantId);
+    return { ok: true };
+  }
+
+  return { ok: false, error: "Unknown action." };
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const [coverage, shopCurrencyCode] = await Promise.all([
+    getCostCoverage(session.shop),
+    getShopCurrency(session.shop),
+  ]);
+
+  const data: LoaderData = {
+    currencyCode: shopCurrencyCode || "USD",
+    missing: coverage.missing,
+    overrides: coverage.overrides,
+  };
+
+  return data;
+};
+
+export default function Costs() {
+  const data = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+
+  return (
+    <s-page heading="Product costs">
+      {actionData && !actionData.ok && (
+        <s-banner tone="critical">{actionData.error}</s-banner>
+      )}
+
+      <s-section heading="Variants without a cost">
+        {data.missing.length === 0 ? (
+          <s-paragraph>Every variant sold so far has a unit cost.</s-paragraph>
+        ) : (
+          <s-box padding="base" borderWidth="base" borderRadius="base">
+            <table style={{ width: "100%", borderCollapse: "collapse" }}>
+              <thead>
+                <tr>
+                  <th align="left">Item</th>
+                  <th align="right">Units sold</th>
+                  <th align="right">Revenue</th>
+                  <th align="right">Unit cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.missing.map((item) => (
+                  <tr key={item.variantId}>
+                    <td>{item.title}</td>
+                    <td align="right">{item.unitsSold}</td>
+                    <td align="right">
+                      {formatCurrency(item.revenue, data.currencyCode)}
+                    </td>
+                    <td align="right">
+                      <Form method="post">
+                        <input type="hidden" name="intent" value="save" />
+                        <input
+                          type="hidden"
+                          name="variant_id"
+                          value={item.variantId}
+                        />
+                        <input type="hidden" name="title" value={item.title} />
+                        <s-stack
+                          direction="inline"
+                          gap="base"
+                          alignItems="center"
+                        >
+                          <input
+                            type="number"
+                            name="unit_cost"
+                            min={0}
+                            step="0.01"
+                            required
+                          />
+                          <s-button type="submit">Save</s-button>
+                        </s-stack>
+                      </Form>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </s-box>
+        )}
+      </s-section>
+
+      <s-section heading="Manual cost overrides">
+        {data.overrides.length === 0 ? (
+          <s-paragraph>No manual costs yet.</s-paragraph>
+        ) : (
+          <s-box padding="base" borderWidth="base" borderRadius="base">
+            <table style={{ width: "100%", borderCollapse: "collapse" }}>
+              <thead>
+                <tr>
+                  <th align="left">Item</th>
+                  <th align="left">Updated</th>
+                  <th align="right">Unit cost</th>
+                  <th align="right"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.overrides.map((override) => (
+                  <tr key={override.variantId}>
+                    <td>{override.title}</td>
+                    <td>{override.updatedAt.slice(0, 10)}</td>
+                    <td align="right">
+                      <Form method="post">
+                        <input type="hidden" name="intent" value="save" />
+                        <input
+                          type="hidden"
+                          name="variant_id"
+                          value={override.variantId}
+                        />
+                        <input
+                          type="hidden"
+                          name="title"
+                          value={override.title}
+                        />
+                        <s-stack
+                          direction="inline"
+                          gap="base"
+                          alignItems="center"
+                        >
+                          <input
+                            type="number"
+                            name="unit_cost"
+                            min={0}
+                            step="0.01"
+                            required
+                            defaultValue={override.unitCost}
+                          />
+                          <s-button type="submit">Update</s-button>
+                        </s-stack>
+                      </Form>
+                    </td>
+                    <td align="right">
+                      <Form method="post">
+                        <input type="hidden" name="intent" value="delete" />
+                        <input
+                          type="hidden"
+                          name="variant_id"
+                          value={override.variantId}
+                        />
+                        <s-button type="submit" variant="tertiary">
+                          Remove
+                        </s-button>
+                      </Form>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </s-box>
+        )}
+      </s-section>
+
+      <s-section heading="Notes">
+        <s-paragraph>
+          Gross profit LTV uses the unit cost set on each variant&apos;s
+          inventory item in Shopify. A manual cost entered here replaces the
+          Shopify cost for that variant, including on past orders. Line items
+          with no cost count towards revenue but not towards gross profit.
+        </s-paragraph>
+        <s-paragraph>
+          Costs are read when orders are synced, so a cost changed in Shopify
+          applies to past orders after the next resync.
+        </s-paragraph>
+      </s-section>
+    </s-page>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
@@ -0,0 +1,238 @@
+import type { HeadersFunction, LoaderFunctionArgs } from "react-router";
+import { useLoaderData } from "react-router";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import { authenticate } from "../shopify.server";
+import { customerGid } from "../models/customer";
+import type { CustomerDetail } from "../models/customer-detail.server";
+import { fetchCustomerDetail } from "../models/customer-detail.server";
+import { getShopCurrency } from "../models/currency.server";
+
+type LoaderData = CustomerDetail;
+
+const formatCurrency = (value: number, currencyCode: string) => {
+  if (!Number.isFinite(value)) return "-";
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: currencyCode || "USD",
+    maximumFractionDigits: 2,
+  }).format(value);
+};
+
+const formatDays = (days: number | null) =>
+  days === null ? "-" : `${days.toFixed(days < 10 ? 1 : 0)} days`;
+
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+  const id = customerGid(params.id);
+  if (!id) {
+    throw new Response("Customer not found", { status: 404 });
+  }
+
+  const [customer, shopCurrencyCode] = await Promise.all([
+    fetchCustomerDetail(admin, id),
+    getShopCurrency(session.shop),
+  ]);
+  if (!customer) {
+    throw new Response("Customer not found", { status: 404 });
+  }
+
+  const data: LoaderData = {
+    ...customer,
+    currencyCode: customer.currencyCode || shopCurrencyCode || "USD",
+  };
+
+  return data;
+};
+
+export default function CustomerDetailPage() {
+  const data = useLoaderData<typeof loader>();
+  const paidOrders = data.orders.filter((order) => !order.cancelled);
+
+  return (
+    <s-page heading={data.name}>
+      <s-link slot="breadcrumb-actions" href="/app/report">
+        Customer report
+      </s-link>
+
+      <s-section heading="Profile">
+        <s-stack direction="block" gap="base">
+          <s-paragraph>Email: {data.email || "-"}</s-paragraph>
+          <s-paragraph>Phone: {data.phone || "-"}</s-paragraph>
+          <s-paragraph>
+            Customer since: {data.createdAt.slice(0, 10)}
+          </s-paragraph>
+          <s-stack direction="inline" gap="small-200" alignItems="center">
+            <s-text>Tags:</s-text>
+            {data.tags.length === 0 ? (
+              <s-text>None</s-text>
+            ) : (
+              data.tags.map((tag) => <s-badge key={tag}>{tag}</s-badge>)
+            )}
+          </s-stack>
+        </s-stack>
+      </s-section>
+
+      <s-section heading="Summary">
+        <s-box padding="base" borderWidth="base" borderRadius="base">
+          <table style={{ width: "100%", borderCollapse: "collapse" }}>
+            <thead>
+              <tr>
+                <th align="left">Orders</th>
+                <th align="right">Total spent</th>
+                <th align="right">Average order value</th>
+                <th align="right">Average days between orders</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                <td>{paidOrders.length}</td>
+                <td align="right">
+                  {formatCurrency(data.totalSpent, data.currencyCode)}
+                </td>
+                <td align="right">
+                  {data.averageOrderValue === null
+                    ? "-"
+                    : formatCurrency(data.averageOrderValue, data.currencyCode)}
+                </td>
+                <td align="right">
+                  {formatDays(data.averageDaysBetweenOrders)}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        </s-box>
+      </s-section>
+
+      <s-section heading="Addresses">
+        {data.addresses.length === 0 ? (
+          <s-paragraph>No addresses on file.</s-paragraph>
+        ) : (
+          <s-stack direction="inline" gap="base">
+            {data.addresses.map((address) => (
+              <s-box
+                key={address.id}
+                padding="base"
+                borderWidth="base"
+                borderRadius="base"
+              >
+                <s-stack direction="block" gap="small-200">
+                  {address.isDefault && <s-badge tone="info">Default</s-badge>}
+                  {address.lines.map((line, index) => (
+                    <s-text key={index}>{line}</s-text>
+                  ))}
+                </s-stack>
+              </s-box>
+            ))}
+          </s-stack>
+        )}
+      </s-section>
+
+      <s-section heading="Order timeline">
+        {data.orders.length === 0 ? (
+          <s-paragraph>This customer has not placed an order.</s-paragraph>
+        ) : (
+          <s-box padding="base" borderWidth="base" borderRadius="base">
+            <table style={{ width: "100%", borderCollapse: "collapse" }}>
+              <thead>
+                <tr>
+                  <th align="left">Order</th>
+                  <th align="left">Date</th>
+                  <th align="left">Status</th>
+                  <th align="right">Total</th>
+                  <th align="right">Refunded</th>
+                  <th align="right">Days since previous</th>
+                  <th align="right">Cumulative spend</th>
+                  <th align="left"></th>
+                  <th align="left">Journey</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.orders.map((order) => (
+                  <tr key={order.id}>
+                    <td>{order.name}</td>
+                    <td>{order.createdAt.slice(0, 10)}</td>
+                    <td>
+                      {order.cancelled
+                        ? "Cancelled"
+                        : order.financialStatus || "-"}
+                    </td>
+                    <td align="right">
+                      {formatCurrency(order.total, data.currencyCode)}
+                    </td>
+                    <td align="right">
+                      {order.refunded
+                        ? formatCurrency(order.refunded, data.currencyCode)
+                        : "-"}
+                    </td>
+                    <td align="right">
+                      {formatDays(order.daysSincePrevious)}
+                    </td>
+                    <td align="right">
+                      {formatCurrency(order.cumulativeSpend, data.currencyCode)}
+                    </td>
+                    <td style={{ minWidth: "120px" }}>
+                      <div
+                        style={{
+                          height: "8px",
+                          width: `${data.totalSpent ? (order.cumulativeSpend / data.totalSpent) * 100 : 0}%`,
+                          background: "#2d6cdf",
+                          borderRadius: "999px",
+                        }}
+                      />
+                    </td>
+                    <td>
+                      {!order.journey?.ready ? (
+                        "Not available"
+                      ) : (
+                        <s-stack direction="block" gap="small-200">
+                          <s-text>
+                            First visit:{" "}
+                            {order.journey.firstVisit?.channel || "Unknown"}
+                          </s-text>
+                          {order.journey.firstVisit?.landingPage && (
+                            <s-text>
+                              Landing page: {order.journey.firstVisit.landingPage}
+                            </s-text>
+                          )}
+                          {order.journey.lastVisit && (
+                            <s-text>
+                              Last visit: {order.journey.lastVisit.channel}
+                            </s-text>
+                          )}
+                          {order.journey.daysToConversion !== null && (
+                            <s-text>
+                              Days to conversion:{" "}
+                              {order.journey.daysToConversion}
+                            </s-text>
+                          )}
+                        </s-stack>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </s-box>
+        )}
+      </s-section>
+
+      <s-section heading="Notes">
+        <s-paragraph>
+          This page reads the customer and their orders directly from Shopify,
+          so it reflects changes made since the last sync. Amounts are in the
+          shop currency ({data.currencyCode}).
+        </s-paragraph>
+        <s-paragraph>
+          Cumulative spend, average order value and days between orders leave
+          out cancelled orders and subtract refunds. Journey details come from
+          the customer journey Shopify records for each order and may be
+          unavailable for orders created outside the online store.
+        </s-paragraph>
+      </s-section>
+    </s-page>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
@@ -0,0 +1,344 @@
+import type { HeadersFunction, LoaderFunctionArgs } from "react-router";
+import { Form, useLoaderData } from "react-router";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import { authenticate } from "../shopify.server";
+import type { GatewayRow } from "../models/gateway-products.server";
+import { buildGatewayReport } from "../models/gateway-products.server";
+import type { GatewayDimension, GatewaySort } from "../models/gateway-products";
+import {
+  GATEWAY_DIMENSIONS,
+  GATEWAY_SORTS,
+  SECOND_ORDER_DAYS,
+  parseGatewayDimension,
+  parseGatewaySort,
+} from "../models/gateway-products";
+import { getShopCurrency } from "../models/currency.server";
+import type { RevenueBasis } from "../models/revenue";
+import {
+  REVENUE_BASES,
+  parseRevenueBasis,
+  revenueBasisLabel,
+} from "../models/revenue";
+
+type LoaderData = {
+  range: {
+    start: string;
+    end: string;
+  };
+  dimension: GatewayDimension;
+  basis: RevenueBasis;
+  sort: GatewaySort;
+  minCustomers: number;
+  currencyCode: string;
+  newCustomers: number;
+  analyzedCustomers: number;
+  hiddenGroups: number;
+  rows: GatewayRow[];
+};
+
+const DEFAULT_RANGE_DAYS = 365;
+const DEFAULT_MIN_CUSTOMERS = 5;
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+const parseDateParam = (value: string | null, fallback: Date) => {
+  if (!value) return fallback;
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return Number.isNaN(parsed.getTime()) ? fallback : parsed;
+};
+
+const getDateRange = (url: URL) => {
+  const today = new Date();
+  const endDefault = new Date(
+    Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate()),
+  );
+  const startDefault = new Date(endDefault);
+  startDefault.setUTCDate(startDefault.getUTCDate() - (DEFAULT_RANGE_DAYS - 1));
+
+  const startDate = parseDateParam(url.searchParams.get("start"), startDefault);
+  const endDate = parseDateParam(url.searchParams.get("end"), endDefault);
+  const normalizedEnd = new Date(endDate);
+  normalizedEnd.setUTCHours(23, 59, 59);
+
+  if (startDate > normalizedEnd) {
+    const fallbackEnd = new Date(endDefault);
+    fallbackEnd.setUTCHours(23, 59, 59);
+    return { start: startDefault, end: fallbackEnd };
+  }
+
+  return { start: startDate, end: normalizedEnd };
+};
+
+const parseMinCustomers = (value: string | null) => {
+  const parsed = Number(value);
+  return value && Number.isInteger(parsed) && parsed > 0
+    ? parsed
+    : DEFAULT_MIN_CUSTOMERS;
+};
+
+const formatCurrency = (value: number, currencyCode: string) => {
+  if (!Number.isFinite(value)) return "-";
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: currencyCode || "USD",
+    maximumFractionDigits: 2,
+  }).format(value);
+};
+
+const formatPercent = (value: number | null) =>
+  value === null ? "-" : `${(value * 100).toFixed(1)}%`;
+
+const escapeCsv = (value: string | number | null) => {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  if (/[",\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+  const url = new URL(request.url);
+  const { start, end } = getDateRange(url);
+  const dimension = parseGatewayDimension(url.searchParams.get("dimension"));
+  const basis = parseRevenueBasis(url.searchParams.get("basis"));
+  const sort = parseGatewaySort(url.searchParams.get("sort"));
+  const minCustomers = parseMinCustomers(url.searchParams.get("min_customers"));
+  const exportCsv = url.searchParams.get("export") === "csv";
+
+  const [report, shopCurrencyCode] = await Promise.all([
+    buildGatewayReport(admin, session.shop, {
+      start,
+      end,
+      dimension,
+      basis,
+      sort,
+      minCustomers,
+    }),
+    getShopCurrency(session.shop),
+  ]);
+
+  if (exportCsv) {
+    const csvRows = [
+      [
+        "Group",
+        "Customers",
+        "RepeatCustomers",
+        "RepeatRate",
+        "AverageSubsequentSpend",
+        "SubsequentSpend",
+        "SecondOrderEligible",
+        `SecondOrderRate${SECOND_ORDER_DAYS}d`,
+      ],
+      ...report.rows.map((row) => [
+        row.label,
+        row.customers,
+        row.repeatCustomers,
+        row.repeatRate.toFixed(4),
+        row.averageSubsequentSpend.toFixed(2),
+        row.subsequentSpend.toFixed(2),
+        row.secondOrderEligible,
+        row.secondOrderRate === null ? null : row.secondOrderRate.toFixed(4),
+      ]),
+    ];
+
+    const csv = csvRows.map((row) => row.map(escapeCsv).join(",")).join("\n");
+    const filename = `gateway-${dimension}-${new Date()
+      .toISOString()
+      .slice(0, 10)}.csv`;
+
+    return new Response(csv, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  }
+
+  const data: LoaderData = {
+    range: {
+      start: toDateInput(start),
+      end: toDateInput(end),
+    },
+    dimension,
+    basis,
+    sort,
+    minCustomers,
+    currencyCode: shopCurrencyCode || "USD",
+    ...report,
+  };
+
+  return data;
+};
+
+export default function GatewayProducts() {
+  const data = useLoaderData<typeof loader>();
+  const maxSpend = Math.max(
+    0,
+    ...data.rows.map((row) => row.averageSubsequentSpend),
+  );
+  const dimensionLabel =
+    GATEWAY_DIMENSIONS.find((dimension) => dimension.key === data.dimension)
+      ?.label || data.dimension;
+
+  const exportParams = new URLSearchParams({
+    start: data.range.start,
+    end: data.range.end,
+    dimension: data.dimension,
+    basis: data.basis,
+    sort: data.sort,
+    min_customers: String(data.minCustomers),
+    export: "csv",
+  });
+
+  return (
+    <s-page heading="Gateway products">
+      <s-section heading="First purchases">
+        <Form method="get">
+          <s-stack direction="inline" gap="base" alignItems="center">
+            <label>
+              <s-text>First order start</s-text>
+              <input type="date" name="start" defaultValue={data.range.start} />
+            </label>
+            <label>
+              <s-text>First order end</s-text>
+              <input type="date" name="end" defaultValue={data.range.end} />
+            </label>
+            <label>
+              <s-text>Group by</s-text>
+              <select name="dimension" defaultValue={data.dimension}>
+                {GATEWAY_DIMENSIONS.map((dimension) => (
+                  <option key={dimension.key} value={dimension.key}>
+                    {dimension.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              <s-text>Sort by</s-text>
+              <select name="sort" defaultValue={data.sort}>
+                {GATEWAY_SORTS.map((sort) => (
+                  <option key={sort.key} value={sort.key}>
+                    {sort.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              <s-text>Min customers</s-text>
+              <input
+                type="number"
+                name="min_customers"
+                min={1}
+                defaultValue={data.minCustomers}
+              />
+            </label>
+            <label>
+              <s-text>Revenue basis</s-text>
+              <select name="basis" defaultValue={data.basis}>
+                {REVENUE_BASES.map((basis) => (
+                  <option key={basis.key} value={basis.key}>
+                    {basis.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <s-button type="submit">Update</s-button>
+          </s-stack>
+        </Form>
+        <s-stack direction="inline" gap="base" alignItems="center">
+          <s-paragraph>
+            {data.analyzedCustomers} of {data.newCustomers} new customers have
+            first-order line items to group.
+            {data.hiddenGroups > 0 &&
+              ` ${data.hiddenGroups} groups with fewer than ${data.minCustomers} customers are hidden.`}
+          </s-paragraph>
+          <s-link href={`?${exportParams.toString()}`}>Export CSV</s-link>
+        </s-stack>
+      </s-section>
+
+      <s-section heading={`First orders by ${dimensionLabel.toLowerCase()}`}>
+        {data.rows.length === 0 ? (
+          <s-paragraph>
+            No first orders in this range match the current settings.
+          </s-paragraph>
+        ) : (
+          <s-box padding="base" borderWidth="base" borderRadius="base">
+            <table style={{ width: "100%", borderCollapse: "collapse" }}>
+              <thead>
+                <tr>
+                  <th align="left">{dimensionLabel}</th>
+                  <th align="right">Customers</th>
+                  <th align="right">Repeat rate</th>
+                  <th align="right">
+                    {SECOND_ORDER_DAYS}-day second order rate
+                  </th>
+                  <th align="right">
+                    Average subsequent spend ({revenueBasisLabel(data.basis)})
+                  </th>
+                  <th align="left"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.rows.map((row) => (
+                  <tr key={row.key}>
+                    <td>{row.label}</td>
+                    <td align="right">{row.customers}</td>
+                    <td align="right">{formatPercent(row.repeatRate)}</td>
+                    <td align="right">
+                      {formatPercent(row.secondOrderRate)}
+                      {row.secondOrderEligible < row.customers &&
+                        ` (${row.secondOrderEligible} eligible)`}
+                    </td>
+                    <td align="right">
+                      {formatCurrency(
+                        row.averageSubsequentSpend,
+                        data.currencyCode,
+                      )}
+                    </td>
+                    <td style={{ minWidth: "120px" }}>
+                      <div
+                        style={{
+                          height: "8px",
+                          width: `${maxSpend ? (row.averageSubsequentSpend / maxSpend) * 100 : 0}%`,
+                          background: "#2d6cdf",
+                          borderRadius: "999px",
+                        }}
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </s-box>
+        )}
+      </s-section>
+
+      <s-section heading="Notes">
+        <s-paragraph>
+          Customers are grouped by the items in their first order, found the
+          same way as new customers on the dashboard. A customer whose first
+          order holds items from several groups counts towards each of them, so
+          group sizes can add up to more than the number of new customers.
+          Custom items and items whose product was deleted are grouped by title.
+        </s-paragraph>
+        <s-paragraph>
+          Subsequent spend is the revenue, on the selected revenue basis, of the
+          orders placed after the first one, excluding cancelled orders. Repeat
+          rate is the share of customers with at least one such order. The{" "}
+          {SECOND_ORDER_DAYS}-day second order rate only counts customers whose
+          first order is at least {SECOND_ORDER_DAYS} days old.
+        </s-paragraph>
+        <s-paragraph>
+          Variant names and collections are read from Shopify when the report
+          loads. A product in several collections counts towards each one.
+        </s-paragraph>
+      </s-section>
+    </s-page>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
@@ -3,37 +3,102 @@ import type {
   HeadersFunction,
   LoaderFunctionArgs,
 } from "react-router";
-import { Form, useLoaderData } from "react-router";
+import { useEffect, useState } from "react";
+import {
+  Form,
+  useActionData,
+  useLoaderData,
+  useRevalidator,
+} from "react-router";
 import { boundary } from "@shopify/shopify-app-react-router/server";
 import { authenticate } from "../shopify.server";
-import prisma from "../db.server";
-
-type Money = {
-  amount: string;
-  currencyCode: string;
-};
-
-type CustomerNode = {
-  id: string;
-  displayName: string | null;
-  email: string | null;
-  createdAt?: string | null;
-  numberOfOrders: number | null;
-  tags?: string[] | null;
-  amountSpent: Money | null;
-  orders?: {
-    nodes?: Array<{
-      createdAt?: string | null;
-    }>;
-  } | null;
-};
+import { customerPath } from "../models/customer";
+import { ensureSync } from "../models/sync.server";
+import type {
+  ReportCustomer,
+  SortKey,
+  TagsMode,
+} from "../models/customer-report.server";
+import {
+  parseReportFilters,
+  runCustomerReport,
+} from "../models/customer-report.server";
+import { exportResponse } from "../models/report-export.server";
+import type { ExportColumn, ExportFormat } from "../models/report-export";
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  EXPORT_COLUMNS,
+  EXPORT_FORMATS,
+  parseExportColumns,
+  parseExportFormat,
+} from "../models/report-export";
+import type { TagAction } from "../models/customer-tags.server";
+import {
+  createTagOperation,
+  listTagOperations,
+  parseTagAction,
+  previewTagOperation,
+  startTagOperation,
+  undoTagOperation,
+} from "../models/customer-tags.server";
+import {
+  createPreset,
+  deletePreset,
+  duplicatePreset,
+  getDefaultPreset,
+  listPresets,
+  movePreset,
+  overwritePreset,
+  renamePreset,
+  setDefaultPreset,
+} from "../models/report-presets.server";
+import type { ReportRunStatus } from "../models/report-runs.server";
+import {
+  findOrStartReportRun,
+  getReportRunPage,
+  parseRunSummary,
+  resumeReportRun,
+  startNewReportRun,
+} from "../models/report-runs.server";
+import {
+  presetSegmentQuery,
+  publishPresetSegment,
+} from "../models/shopify-segment.server";
+import type {
+  FilterExpression,
+  FilterField,
+  FilterGroup,
+  FilterOperator,
+} from "../models/filter-expression";
+import {
+  FILTER_FIELDS,
+  MAX_FILTER_CONDITIONS,
+  MAX_FILTER_DEPTH,
+  countFilterConditions,
+  emptyFilterGroup,
+  filterFieldType,
+  filterOperators,
+  newFilterCondition,
+  parseFilterExpression,
+  serializeFilterExpression,
+} from "../models/filter-expression";
+import type { RevenueBasis } from "../models/revenue";
+import { REVENUE_BASES, revenueBasisLabel } from "../models/revenue";
+import type { RfmSegment } from "../models/rfm";
+import { RFM_SEGMENTS, segmentLabel } from "../models/rfm";
 
-type SortKey = "ltv_desc" | "ltv_asc" | "orders_desc" | "orders_asc";
-type TagsMode = "any" | "all";
 type ReportPreset = {
   id: string;
   name: string;
   params: string;
+  isDefault: boolean;
+  segment: {
+    id: string | null;
+    publishedAt: string | null;
+    query: string;
+    unsupported: string[];
+    differences: string[];
+  };
 };
 
 type LoaderData = {
@@ -48,30 +113,62 @@ type LoaderData = {
   maxOrders: string;
   minSpent: string;
   maxSpent: string;
+  minProfit: string;
+  maxProfit: string;
   createdStart: string;
   createdEnd: string;
   firstOrderStart: string;
   firstOrderEnd: string;
+  minDaysSince: string;
+  maxDaysSince: string;
+  lapsed: boolean;
+  highClv: boolean;
+  segment: RfmSegment | "";
+  basis: RevenueBasis;
+  filter: string;
   presets: ReportPreset[];
+  tagOperations: Array<{
+    id: string;
+    tag: string;
+    action: TagAction;
+    status: string;
+    total: number;
+    processed: number;
+    failed: number;
+    error: string | null;
+    createdAt: string;
+    isUndo: boolean;
+    canUndo: boolean;
+  }>;
+  run: {
+    id: string;
+    status: ReportRunStatus;
+    pagesFetched: number;
+    pagesTotal: number;
+    error: string | null;
+    completedAt: string | null;
+  };
   charts: {
     ltvBuckets: Array<{ label: string; count: number }>;
     orderBuckets: Array<{ label: string; count: number }>;
   };
+  segments: Array<{
+    key: RfmSegment;
+    label: string;
+    customers: number;
+    totalClv: number;
+  }>;
   totalCustomers: number;
   currencyCode: string;
-  customers: Array<{
-    id: string;
-    name: string;
-    email: string;
-    totalSpent: number;
-    ordersCount: number;
-    createdAt: string | null;
-    firstOrderDate: string | null;
-    tags: string[];
-  }>;
+  missingCostLineItems: number;
+  notConvertedCustomers: number;
+  lastSyncedAt: string | null;
+  customers: ReportCustomer[];
 };
 
 const PAGE_SIZE_OPTIONS = [50, 100, 250, 500];
+const POLL_INTERVAL_MS = 3000;
+const MAX_TAG_LENGTH = 255;
 const DEFAULT_PAGE_SIZE = 250;
 const CONFIG_KEYS = [
   "sort",
@@ -83,10 +180,19 @@ const CONFIG_KEYS = [
   "max_orders",
   "min_spent",
   "max_spent",
+  "min_profit",
+  "max_profit",
   "created_start",
   "created_end",
   "first_order_start",
   "first_order_end",
+  "min_days_since",
+  "max_days_since",
+  "lapsed",
+  "high_clv",
+  "segment",
+  "basis",
+  "filter",
 ] as const;
 
 const parseNumber = (value: string | null, fallback: number) => {
@@ -95,44 +201,6 @@ const parseNumber = (value: string | null, fallback: number) => {
   return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
 };
 
-const parseSort = (value: string | null): SortKey => {
-  if (
-    value === "ltv_desc" ||
-    value === "ltv_asc" ||
-    value === "orders_desc" ||
-    value === "orders_asc"
-  ) {
-    return value;
-  }
-
-  return "ltv_desc";
-};
-
-const normalizeQuery = (value: string | null) =>
-  (value || "").trim().toLowerCase();
-
-const parseOptionalNumber = (value: string | null) => {
-  if (!value) return null;
-  const parsed = Number(value);
-  return Number.isFinite(parsed) ? parsed : null;
-};
-
-const parseDate = (value: string | null, endOfDay = false) => {
-  if (!value) return null;
-  const suffix = endOfDay ? "T23:59:59Z" : "T00:00:00Z";
-  const parsed = new Date(`${value}${suffix}`);
-  return Number.isNaN(parsed.getTime()) ? null : parsed;
-};
-
-const parseTags = (value: string | null) =>
-  (value || "")
-    .split(",")
-    .map((tag) => tag.trim().toLowerCase())
-    .filter(Boolean);
-
-const parseTagsMode = (value: string | null): TagsMode =>
-  value === "all" ? "all" : "any";
-
 const buildConfig = (params: URLSearchParams) => {
   const config: Record<string, string> = {};
   for (const key of CONFIG_KEYS) {
@@ -155,6 +223,14 @@ const configToParams = (config: Record<string, string>) => {
   return params.toString();
 };
 
+const parsePresetParams = (config: string) => {
+  try {
+    return configToParams(JSON.parse(config || "{}"));
+  } catch {
+    return "";
+  }
+};
+
 const formatCurrency = (value: number, currencyCode: string) => {
   if (!Number.isFinite(value)) return "-";
   return new Intl.NumberFormat("en-US", {
@@ -164,154 +240,54 @@ const formatCurrency = (value: number, currencyCode: string) => {
   }).format(value);
 };
 
-const escapeCsv = (value: string | number | null) => {
-  if (value === null || value === undefined) return "";
-  const text = String(value);
-  if (/[",\n]/.test(text)) {
-    return `"${text.replace(/"/g, "\"\"")}"`;
+const configFromForm = (formData: FormData) => {
+  const config: Record<string, string> = {};
+  for (const key of CONFIG_KEYS) {
+    const value = formData.get(key);
+    if (typeof value === "string" && value.length > 0) {
+      config[key] = value;
+    }
   }
-  return text;
+  return config;
 };
 
-const buildBuckets = (values: number[], edges: number[]) => {
-  const buckets = edges.map((edge, index) => ({
-    label:
-      index === edges.length - 1
-        ? `${edge}+`
-        : `${edge}-${edges[index + 1] - 1}`,
-    count: 0,
-  }));
-
-  for (const value of values) {
-    const index = edges.findIndex((edge, i) => {
-      const next = edges[i + 1];
-      if (next === undefined) return value >= edge;
-      return value >= edge && value < next;
-    });
-    const bucketIndex = index === -1 ? buckets.length - 1 : index;
-    buckets[bucketIndex].count += 1;
-  }
-
-  return buckets;
+type ActionData = {
+  ok: boolean;
+  error?: string;
+  message?: string;
+  tagPreview?: {
+    tag: string;
+    action: TagAction;
+    matching: number;
+    changes: number;
+  };
 };
 
-const fetchAllCustomers = async (admin: any) => {
-  let hasNextPage = true;
-  let after: string | null = null;
-  let currencyCode = "USD";
-  const customers: Array<{
-    id: string;
-    name: string;
-    email: string;
-    totalSpent: number;
-    ordersCount: number;
-    createdAt: string | null;
-    firstOrderDate: string | null;
-    tags: string[];
-  }> = [];
-
-  while (hasNextPage) {
-    const response = await admin.graphql(
-      `#graphql
-        query Customers($first: Int!, $after: String) {
-          customers(first: $first, after: $after) {
-            pageInfo {
-              hasNextPage
-              endCursor
-            }
-            nodes {
-              id
-              displayName
-              email
-              createdAt
-              numberOfOrders
-              tags
-              amountSpent {
-                amount
-                currencyCode
-              }
-              orders(first: 1, sortKey: CREATED_AT) {
-                nodes {
-                  createdAt
-                }
-              }
-            }
-          }
-        }`,
-      {
-        variables: {
-          first: 250,
-          after,
-        },
-      },
-    );
-
-    const json = await response.json();
-    if (json.errors) {
-      throw new Error(JSON.stringify(json.errors));
-    }
-
-    const nodes = json.data.customers.nodes as CustomerNode[];
-    for (const customer of nodes) {
-      const amount = Number(customer.amountSpent?.amount || 0);
-      const ordersCount = customer.numberOfOrders || 0;
-      const name = customer.displayName || customer.email || "Unknown";
-      const email = customer.email || "-";
-      const createdAt = customer.createdAt || null;
-      const firstOrderDate = customer.orders?.nodes?.[0]?.createdAt || null;
-      const tags = (customer.tags || []).map((tag) => tag.toLowerCase());
-
-      if (customer.amountSpent?.currencyCode) {
-        currencyCode = customer.amountSpent.currencyCode;
-      }
-
-      customers.push({
-        id: customer.id,
-        name,
-        email,
-        totalSpent: amount,
-        ordersCount,
-        createdAt,
-        firstOrderDate,
-        tags,
-      });
-    }
-
-    hasNextPage = json.data.customers.pageInfo.hasNextPage;
-    after = json.data.customers.pageInfo.endCursor;
+const parseTagInput = (formData: FormData) => {
+  const tag = String(formData.get("tag") || "").trim();
+  const tagAction = parseTagAction(String(formData.get("tag_action") || ""));
+  if (!tag) return { error: "Enter a tag." };
+  if (tag.includes(",")) return { error: "Tags cannot contain commas." };
+  if (tag.length > MAX_TAG_LENGTH) {
+    return { error: `Tags can be at most ${MAX_TAG_LENGTH} characters.` };
   }
-
-  return { customers, currencyCode };
+  if (!tagAction) return { error: "Choose whether to add or remove the tag." };
+  return { tag, tagAction };
 };
 
-const sortCustomers = (
-  customers: LoaderData["customers"],
-  sort: SortKey,
-) => {
-  const sorted = [...customers];
-
-  switch (sort) {
-    case "ltv_asc":
-      sorted.sort((a, b) => a.totalSpent - b.totalSpent || a.ordersCount - b.ordersCount);
-      break;
-    case "ltv_desc":
-      sorted.sort((a, b) => b.totalSpent - a.totalSpent || b.ordersCount - a.ordersCount);
-      break;
-    case "orders_asc":
-      sorted.sort((a, b) => a.ordersCount - b.ordersCount || a.totalSpent - b.totalSpent);
-      break;
-    case "orders_desc":
-      sorted.sort((a, b) => b.ordersCount - a.ordersCount || b.totalSpent - a.totalSpent);
-      break;
-  }
-
-  return sorted;
+const PRESET_NOT_FOUND: ActionData = {
+  ok: false,
+  error: "Saved report not found.",
 };
 
-export const action = async ({ request }: ActionFunctionArgs) => {
-  const { session } = await authenticate.admin(request);
+export const action = async ({
+  request,
+}: ActionFunctionArgs): Promise<ActionData> => {
+  const { admin, session } = await authenticate.admin(request);
   const formData = await request.formData();
   const intent = String(formData.get("intent") || "");
+  const id = String(formData.get("preset_id") || "");
+  const shop = session.shop;
 
   if (intent === "save") {
     const name = String(formData.get("report_name") || "").trim();
@@ -319,125 +295,174 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       return { ok: false, error: "Report name is required." };
     }
 
-    const config: Record<string, string> = {};
-    for (const key of CONFIG_KEYS) {
-      const value = formData.get(key);
-      if (typeof value === "string" && value.length > 0) {
-        config[key] = value;
-      }
+    await createPreset(shop, name, configFromForm(formData));
+    return { ok: true };
+  }
+
+  if (intent === "rename") {
+    const name = String(formData.get("report_name") || "").trim();
+    if (!name) {
+      return { ok: false, error: "Report name is required." };
     }
+    return (await renamePreset(shop, id, name))
+      ? { ok: true }
+      : PRESET_NOT_FOUND;
+  }
 
-    await prisma.reportPreset.create({
-      data: {
-        shop: session.shop,
-        name,
-        config: JSON.stringify(config),
-      },
-    });
+  if (intent === "overwrite") {
+    return (await overwritePreset(shop, id, configFromForm(formData)))
+      ? { ok: true }
+      : PRESET_NOT_FOUND;
+  }
 
-    return { ok: true };
+  if (intent === "duplicate") {
+    return (await duplicatePreset(shop, id)) ? { ok: true } : PRESET_NOT_FOUND;
   }
 
-  if (intent === "delete") {
-    const id = String(formData.get("preset_id") || "");
-    if (id) {
-      await prisma.reportPreset.delete({
-        where: { id },
-      });
-    }
-    return { ok: true };
+  if (intent === "set_default" || intent === "clear_default") {
+    const updated = await setDefaultPreset(
+      shop,
+      intent === "set_default" ? id : null,
+    );
+    return updated ? { ok: true } : PRESET_NOT_FOUND;
   }
 
-  return { ok: false, error: "Unknown action." };
-};
+  if (intent === "move_up" || intent === "move_down") {
+    const moved = await movePreset(
+      shop,
+      id,
+      intent === "move_up" ? "up" : "down",
+    );
+    return moved ? { ok: true } : PRESET_NOT_FOUND;
+  }
 
-export const loader = async ({ request }: LoaderFunctionArgs) => {
-  const { admin, session } = await authenticate.admin(request);
-  const url = new URL(request.url);
+  if (intent === "delete") {
+    return (await deletePreset(shop, id)) ? { ok: true } : PRESET_NOT_FOUND;
+  }
 
-  const sort = parseSort(url.searchParams.get("sort"));
-  const perPageParam = url.searchParams.get("per_page");
-  const page = parseNumber(url.searchParams.get("page"), 1);
-  const query = normalizeQuery(url.searchParams.get("q"));
-  const tags = url.searchParams.get("tags") || "";
-  const tagsMode = parseTagsMode(url.searchParams.get("tags_mode"));
-  const minOrders = url.searchParams.get("min_orders") || "";
-  const maxOrders = url.searchParams.get("max_orders") || "";
-  const minSpent = url.searchParams.get("min_spent") || "";
-  const maxSpent = url.searchParams.get("max_spent") || "";
-  const createdStart = url.searchParams.get("created_start") || "";
-  const createdEnd = url.searchParams.get("created_end") || "";
-  const firstOrderStart = url.searchParams.get("first_order_start") || "";
-  const firstOrderEnd = url.searchParams.get("first_order_end") || "";
-  const exportCsv = url.searchParams.get("export") === "csv";
-
-  const tagsList = parseTags(tags);
-  const minOrdersValue = parseOptionalNumber(minOrders);
-  const maxOrdersValue = parseOptionalNumber(maxOrders);
-  const minSpentValue = parseOptionalNumber(minSpent);
-  const maxSpentValue = parseOptionalNumber(maxSpent);
-  const createdStartDate = parseDate(createdStart, false);
-  const createdEndDate = parseDate(createdEnd, true);
-  const firstOrderStartDate = parseDate(firstOrderStart, false);
-  const firstOrderEndDate = parseDate(firstOrderEnd, true);
-
-  const { customers, currencyCode } = await fetchAllCustomers(admin);
-  const filtered = customers.filter((customer) => {
-    if (query) {
-      const name = customer.name.toLowerCase();
-      const email = customer.email.toLowerCase();
-      if (!name.includes(query) && !email.includes(query)) {
-        return false;
-      }
-    }
+  if (intent === "publish_segment") {
+    const result = await publishPresetSegment(admin, shop, id);
+    return "error" in result
+      ? { ok: false, error: result.error }
+      : { ok: true, message: "Shopify segment saved." };
+  }
 
-    if (minOrdersValue !== null && customer.ordersCount < minOrdersValue) {
-      return false;
+  if (intent === "tag_preview" || intent === "tag_apply") {
+    const input = parseTagInput(formData);
+    if ("error" in input) {
+      return { ok: false, error: input.error };
     }
 
-    if (maxOrdersValue !== null && customer.ordersCount > maxOrdersValue) {
-      return false;
-    }
+    const config = configFromForm(formData);
+    const { customers } = await runCustomerReport(
+      shop,
+      parseReportFilters(new URLSearchParams(config)),
+    );
 
-    if (minSpentValue !== null && customer.totalSpent < minSpentValue) {
-      return false;
+    if (intent === "tag_preview") {
+      return {
+        ok: true,
+        tagPreview: {
+          tag: input.tag,
+          action: input.tagAction,
+          ...previewTagOperation(customers, input.tag, input.tagAction),
+        },
+      };
     }
 
-    if (maxSpentValue !== null && customer.totalSpent > maxSpentValue) {
-      return false;
-    }
+    const operation = await createTagOperation(shop, {
+      tag: input.tag,
+      action: input.tagAction,
+      config,
+      customers,
+    });
+    await startTagOperation(operation.id);
+    return {
+      ok: true,
+      message: `Tagging started for ${operation.total} customers.`,
+    };
+  }
+
+  if (intent === "run_resume") {
+    const runId = String(formData.get("run_id") || "");
+    return (await resumeReportRun(shop, runId))
+      ? { ok: true, message: "Report resumed." }
+      : { ok: false, error: "That report cannot be resumed." };
+  }
+
+  if (intent === "run_refresh") {
+    await startNewReportRun(
+      shop,
+      parseReportFilters(new URLSearchParams(configFromForm(formData))),
+    );
+    return { ok: true, message: "Rebuilding the report." };
+  }
 
-    if (tagsList.length) {
-      const hasTag = (tag: string) => customer.tags.includes(tag);
-      const matches =
-        tagsMode === "all"
-          ? tagsList.every(hasTag)
-          : tagsList.some(hasTag);
-      if (!matches) return false;
+  if (intent === "tag_undo") {
+    const operationId = String(formData.get("operation_id") || "");
+    const undo = await undoTagOperation(shop, operationId);
+    if (!undo) {
+      return { ok: false, error: "That tag change cannot be undone." };
     }
+    await startTagOperation(undo.id);
+    return {
+      ok: true,
+      message: `Undoing the tag change for ${undo.total} customers.`,
+    };
+  }
+
+  return { ok: false, error: "Unknown action." };
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, session, redirect } = await authenticate.admin(request);
+  const url = new URL(request.url);
 
-    if (createdStartDate || createdEndDate) {
-      if (!customer.createdAt) return false;
-      const createdAt = new Date(customer.createdAt);
-      if (createdStartDate && createdAt < createdStartDate) return false;
-      if (createdEndDate && createdAt > createdEndDate) return false;
+  // A bare /app/report opens the shop's default preset, if it has one.
+  const hasReportParams =
+    url.searchParams.has("page") ||
+    CONFIG_KEYS.some((key) => url.searchParams.has(key));
+  if (!hasReportParams) {
+    const defaultPreset = await getDefaultPreset(session.shop);
+    const params = defaultPreset ? parsePresetParams(defaultPreset.config) : "";
+    if (params) {
+      return redirect(`/app/report?${params}`);
     }
+  }
+
+  const filters = parseReportFilters(url.searchParams);
+  const perPageParam = url.searchParams.get("per_page");
+  const page = parseNumber(url.searchParams.get("page"), 1);
+  const exportParam = url.searchParams.get("export");
+
+  const sync = await ensureSync(admin, session.shop);
+  const run = await findOrStartReportRun(
+    session.shop,
+    filters,
+    sync.lastSyncedAt,
+  );
+  const summary = run.status === "completed" ? parseRunSummary(run) : null;
 
-    if (firstOrderStartDate || firstOrderEndDate) {
-      if (!customer.firstOrderDate) return false;
-      const firstOrderDate = new Date(customer.firstOrderDate);
-      if (firstOrderStartDate && firstOrderDate < firstOrderStartDate) {
-        return false;
-      }
-      if (firstOrderEndDate && firstOrderDate > firstOrderEndDate) {
-        return false;
-      }
+  if (exportParam) {
+    const exportOptions = {
+      format: parseExportFormat(exportParam),
+      columns: parseExportColumns(url.searchParams.getAll("columns")),
+      basis: filters.basis,
+    };
+    if (summary) {
+      return exportResponse(run.id, exportOptions);
     }
+    // Exports are read from a finished run, never built in the request.
+    return new Response(
+      "The report is still building. Export it again once it has finished.",
+      {
+        status: 409,
+        headers: { "Content-Type": "text/plain; charset=utf-8" },
+      },
+    );
+  }
 
-    return true;
-  });
-  const sorted = sortCustomers(filtered, sort);
-  const totalCustomers = sorted.length;
+  const totalCustomers = summary?.totalCustomers ?? 0;
   const isAll = perPageParam === "all";
   const perPage =
     perPageParam && perPageParam !== "all"
@@ -452,104 +477,366 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   const totalPages = Math.max(1, Math.ceil(totalCustomers / safePerPage));
   const currentPage = Math.min(Math.max(1, page), totalPages);
   const startIndex = (currentPage - 1) * safePerPage;
-  const endIndex = startIndex + safePerPage;
-
-  const presets = await prisma.reportPreset.findMany({
-    where: { shop: session.shop },
-    orderBy: { createdAt: "desc" },
-  });
-
-  const presetsData: ReportPreset[] = presets.map((preset) => {
-    let params = "";
-    try {
-      params = configToParams(JSON.parse(preset.config || "{}"));
-    } catch {
-      params = "";
-    }
 
-    return {
-      id: preset.id,
-      name: preset.name,
-      params,
-    };
-  });
-
-  const ltvBuckets = buildBuckets(
-    sorted.map((customer) => customer.totalSpent),
-    [0, 50, 100, 250, 500, 1000, 2000, 5000, 10000],
-  );
-
-  const orderBuckets = buildBuckets(
-    sorted.map((customer) => customer.ordersCount),
-    [0, 1, 2, 3, 5, 10, 20, 50],
-  );
-
-  if (exportCsv) {
-    const rows = [
-      [
-        "Customer",
-        "Email",
-        "Orders",
-        "TotalSpent",
-        "CustomerCreatedAt",
-        "FirstOrderDate",
-        "Tags",
-      ],
-      ...sorted.map((customer) => [
-        customer.name,
-        customer.email,
-        customer.ordersCount,
-        customer.totalSpent,
-        customer.createdAt || "",
-        customer.firstOrderDate || "",
-        customer.tags.join(", "),
-      ]),
-    ];
-
-    const csv = rows.map((row) => row.map(escapeCsv).join(",")).join("\n");
-    const filename = `customer-report-${new Date()
-      .toISOString()
-      .slice(0, 10)}.csv`;
-
-    return new Response(csv, {
-      headers: {
-        "Content-Type": "text/csv; charset=utf-8",
-        "Content-Disposition": `attachment; filename="${filename}"`,
-      },
-    });
-  }
+  const [presets, tagOperations, customers] = await Promise.all([
+    listPresets(session.shop),
+    listTagOperations(session.shop),
+    summary ? getReportRunPage(run.id, startIndex, safePerPage) : [],
+  ]);
+  const presetsData: ReportPreset[] = presets.map((preset) => ({
+    id: preset.id,
+    name: preset.name,
+    params: parsePresetParams(preset.config),
+    isDefault: preset.isDefault,
+    segment: {
+      id: preset.segmentId,
+      publishedAt: preset.segmentPublishedAt?.toISOString() || null,
+      ...presetSegmentQuery(preset.config),
+    },
+  }));
 
   const data: LoaderData = {
-    sort,
+    ...filters,
     page: currentPage,
     perPage: safePerPage,
     perPageSelection: isAll ? "all" : String(safePerPage),
-    query,
-    tags,
-    tagsMode,
-    minOrders,
-    maxOrders,
-    minSpent,
-    maxSpent,
-    createdStart,
-    createdEnd,
-    firstOrderStart,
-    firstOrderEnd,
+    segment: filters.segment || "",
     presets: presetsData,
-    charts: {
-      ltvBuckets,
-      orderBuckets,
+    tagOperations: tagOperations.map((operation) => ({
+      id: operation.id,
+      tag: operation.tag,
+      action: operation.action as TagAction,
+      status: operation.status,
+      total: operation.total,
+      processed: operation.processed,
+      failed: operation.failed,
+      error: operation.error,
+      createdAt: operation.createdAt.toISOString(),
+      isUndo: Boolean(operation.undoOfId),
+      canUndo:
+        !operation.undoOfId &&
+        !operation.undoneAt &&
+        operation.processed > operation.failed &&
+        (operation.status === "completed" || operation.status === "failed"),
+    })),
+    run: {
+      id: run.id,
+      status: run.status as ReportRunStatus,
+      pagesFetched: run.pagesFetched,
+      pagesTotal: run.pagesTotal,
+      error: run.error,
+      completedAt: run.completedAt?.toISOString() || null,
     },
+    charts: summary?.charts || { ltvBuckets: [], orderBuckets: [] },
+    segments: summary?.segments || [],
     totalCustomers,
-    currencyCode,
-    customers: sorted.slice(startIndex, endIndex),
+    currencyCode: summary?.currencyCode || "USD",
+    missingCostLineItems: summary?.missingCostLineItems || 0,
+    notConvertedCustomers: summary?.notConvertedCustomers || 0,
+    lastSyncedAt: sync.lastSyncedAt,
+    customers,
   };
 
   return data;
 };
 
+function FilterValueInput({
+  field,
+  value,
+  label,
+  onChange,
+}: {
+  field: FilterField;
+  value: string;
+  label: string;
+  onChange: (value: string) => void;
+}) {
+  const type = filterFieldType(field);
+
+  if (type === "boolean") {
+    return (
+      <select
+        value={value}
+        aria-label={label}
+        onChange={(event) => onChange(event.target.value)}
+      >
+        <option value="true">Yes</option>
+        <option value="false">No</option>
+      </select>
+    );
+  }
+
+  if (type === "segment") {
+    return (
+      <select
+        value={value}
+        aria-label={label}
+        onChange={(event) => onChange(event.target.value)}
+      >
+        {RFM_SEGMENTS.map((definition) => (
+          <option key={definition.key} value={definition.key}>
+            {definition.label}
+          </option>
+        ))}
+      </select>
+    );
+  }
+
+  return (
+    <input
+      type={type === "number" ? "number" : type === "date" ? "date" : "text"}
+      step={type === "number" ? "any" : undefined}
+      value={value}
+      aria-label={label}
+      onChange={(event) => onChange(event.target.value)}
+    />
+  );
+}
+
+function FilterNodeEditor({
+  node,
+  depth,
+  canAdd,
+  onChange,
+  onRemove,
+}: {
+  node: FilterExpression;
+  depth: number;
+  canAdd: boolean;
+  onChange: (node: FilterExpression) => void;
+  onRemove?: () => void;
+}) {
+  const negate = (
+    <label>
+      <input
+        type="checkbox"
+        checked={node.negate}
+        onChange={(event) =>
+          onChange({ ...node, negate: event.target.checked })
+        }
+      />
+      <s-text>Not</s-text>
+    </label>
+  );
+
+  if (node.type === "condition") {
+    return (
+      <s-stack direction="inline" gap="base" alignItems="center">
+        {negate}
+        <select
+          value={node.field}
+          aria-label="Field"
+          onChange={(event) =>
+            onChange({
+              ...newFilterCondition(event.target.value as FilterField),
+              negate: node.negate,
+            })
+          }
+        >
+          {FILTER_FIELDS.map((field) => (
+            <option key={field.key} value={field.key}>
+              {field.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={node.operator}
+          aria-label="Operator"
+          onChange={(event) =>
+            onChange({
+              ...node,
+              operator: event.target.value as FilterOperator,
+            })
+          }
+        >
+          {filterOperators(node.field).map((operator) => (
+            <option key={operator.key} value={operator.key}>
+              {operator.label}
+            </option>
+          ))}
+        </select>
+        {node.operator !== "empty" && (
+          <FilterValueInput
+            field={node.field}
+            value={node.value}
+            label="Value"
+            onChange={(value) => onChange({ ...node, value })}
+          />
+        )}
+        {node.operator === "between" && (
+          <>
+            <s-text>and</s-text>
+            <FilterValueInput
+              field={node.field}
+              value={node.valueTo}
+              label="Upper value"
+              onChange={(valueTo) => onChange({ ...node, valueTo })}
+            />
+          </>
+        )}
+        {onRemove && (
+          <s-button variant="tertiary" onClick={onRemove}>
+            Remove
+          </s-button>
+        )}
+      </s-stack>
+    );
+  }
+
+  const group = node;
+  const updateChild = (index: number, child: FilterExpression) =>
+    onChange({
+      ...group,
+      children: group.children.map((current, position) =>
+        position === index ? child : current,
+      ),
+    });
+  const addChild = (child: FilterExpression) =>
+    onChange({ ...group, children: [...group.children, child] });
+
+  return (
+    <s-box padding="base" borderWidth="base" borderRadius="base">
+      <s-stack direction="block" gap="base">
+        <s-stack direction="inline" gap="base" alignItems="center">
+          {negate}
+          <select
+            value={group.combinator}
+            aria-label="Match"
+            onChange={(event) =>
+              onChange({
+                ...group,
+                combinator: event.target.value === "or" ? "or" : "and",
+              })
+            }
+          >
+            <option value="and">All of these</option>
+            <option value="or">Any of these</option>
+          </select>
+          {onRemove && (
+            <s-button variant="tertiary" onClick={onRemove}>
+              Remove group
+            </s-button>
+          )}
+        </s-stack>
+        {group.children.map((child, index) => (
+          <FilterNodeEditor
+            key={index}
+            node={child}
+            depth={depth + 1}
+            canAdd={canAdd}
+            onChange={(updated) => updateChild(index, updated)}
+            onRemove={() =>
+              onChange({
+                ...group,
+                children: group.children.filter(
+                  (_, position) => position !== index,
+                ),
+              })
+            }
+          />
+        ))}
+        <s-stack direction="inline" gap="base" alignItems="center">
+          <s-button
+            variant="secondary"
+            disabled={!canAdd}
+            onClick={() => addChild(newFilterCondition())}
+          >
+            Add condition
+          </s-button>
+          {depth < MAX_FILTER_DEPTH && (
+            <s-button
+              variant="secondary"
+              disabled={!canAdd}
+              onClick={() =>
+                addChild({
+                  ...emptyFilterGroup(),
+                  combinator: group.combinator === "and" ? "or" : "and",
+                  children: [newFilterCondition()],
+                })
+              }
+            >
+              Add group
+            </s-button>
+          )}
+        </s-stack>
+      </s-stack>
+    </s-box>
+  );
+}
+
+/**
+ * Edits the report's filter expression and applies it with the rest of the
+ * current settings. Mounted per `filter` value so navigating resets it.
+ */
+function FilterBuilder({
+  filter,
+  baseParams,
+}: {
+  filter: string;
+  baseParams: URLSearchParams;
+}) {
+  const parsed = parseFilterExpression(filter);
+  const [expression, setExpression] = useState<FilterGroup>(
+    () => parsed || emptyFilterGroup(),
+  );
+  const clearParams = new URLSearchParams(baseParams);
+  clearParams.delete("filter");
+
+  return (
+    <Form method="get">
+      {CONFIG_KEYS.filter((key) => key !== "filter").map((key) => (
+        <input
+          key={key}
+          type="hidden"
+          name={key}
+          value={baseParams.get(key) || ""}
+        />
+      ))}
+      <input
+        type="hidden"
+        name="filter"
+        value={serializeFilterExpression(expression)}
+      />
+      <s-stack direction="block" gap="base">
+        {filter && !parsed && (
+          <s-banner tone="warning">
+            The filter in this link could not be read and is not applied.
+          </s-banner>
+        )}
+        <FilterNodeEditor
+          node={expression}
+          depth={0}
+          canAdd={countFilterConditions(expression) < MAX_FILTER_CONDITIONS}
+          onChange={(next) => {
+            if (next.type === "group") setExpression(next);
+          }}
+        />
+        <s-stack direction="inline" gap="base" alignItems="center">
+          <s-button type="submit">Apply filter</s-button>
+          {filter && (
+            <s-link href={`?${clearParams.toString()}`}>Clear filter</s-link>
+          )}
+        </s-stack>
+      </s-stack>
+    </Form>
+  );
+}
+
 export default function Report() {
   const data = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const revalidator = useRevalidator();
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("csv");
+  const [exportColumns, setExportColumns] = useState<ExportColumn[]>(
+    DEFAULT_EXPORT_COLUMNS,
+  );
+  const tagging = data.tagOperations.some(
+    (operation) =>
+      operation.status === "pending" || operation.status === "running",
+  );
+  const building =
+    data.run.status === "pending" || data.run.status === "running";
+  const polling = tagging || building;
   const totalPages = Math.max(1, Math.ceil(data.totalCustomers / data.perPage));
   const startRow = data.totalCustomers === 0 ? 0 : (data.page - 1) * data.perPage + 1;
   const endRow = Math.min(data.page * data.perPage, data.totalCustomers);
@@ -578,6 +865,12 @@ export default function Report() {
   if (data.maxSpent) {
     baseParams.set("max_spent", data.maxSpent);
   }
+  if (data.minProfit) {
+    baseParams.set("min_profit", data.minProfit);
+  }
+  if (data.maxProfit) {
+    baseParams.set("max_profit", data.maxProfit);
+  }
   if (data.createdStart) {
     baseParams.set("created_start", data.createdStart);
   }
@@ -590,6 +883,25 @@ export default function Report() {
   if (data.firstOrderEnd) {
     baseParams.set("first_order_end", data.firstOrderEnd);
   }
+  if (data.minDaysSince) {
+    baseParams.set("min_days_since", data.minDaysSince);
+  }
+  if (data.maxDaysSince) {
+    baseParams.set("max_days_since", data.maxDaysSince);
+  }
+  if (data.lapsed) {
+    baseParams.set("lapsed", "1");
+  }
+  if (data.highClv) {
+    baseParams.set("high_clv", "1");
+  }
+  if (data.segment) {
+    baseParams.set("segment", data.segment);
+  }
+  baseParams.set("basis", data.basis);
+  if (data.filter) {
+    baseParams.set("filter", data.filter);
+  }
 
   const prevParams = new URLSearchParams(baseParams);
   prevParams.set("page", String(Math.max(1, data.page - 1)));
@@ -597,11 +909,76 @@ export default function Report() {
   const nextParams = new URLSearchParams(baseParams);
   nextParams.set("page", String(Math.min(totalPages, data.page + 1)));
 
+  // Top-spending repeat customers overdue for their next order, most
+  // valuable first.
+  const lapsedParams = new URLSearchParams({
+    lapsed: "1",
+    high_clv: "1",
+    sort: "ltv_desc",
+    per_page: data.perPageSelection,
+    basis: data.basis,
+  });
+
   const exportParams = new URLSearchParams(baseParams);
-  exportParams.set("export", "csv");
+  exportParams.set("export", exportFormat);
+  exportParams.set("columns", exportColumns.join(","));
+
+  const toggleExportColumn = (column: ExportColumn, checked: boolean) =>
+    setExportColumns((current) =>
+      parseExportColumns(
+        checked
+          ? [...current, column]
+          : current.filter((key) => key !== column),
+      ),
+    );
+
+  useEffect(() => {
+    if (!polling) return;
+    const timer = setInterval(() => {
+      if (revalidator.state === "idle") revalidator.revalidate();
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [polling, revalidator]);
+
+  const configInputs = CONFIG_KEYS.map((key) => (
+    <input
+      key={key}
+      type="hidden"
+      name={key}
+      value={baseParams.get(key) || ""}
+    />
+  ));
+  const tagPreview = actionData?.tagPreview;
 
   return (
     <s-page heading="Customer report">
+      {actionData && !actionData.ok && (
+        <s-banner tone="critical">{actionData.error}</s-banner>
+      )}
+      {actionData?.message && (
+        <s-banner tone="success">{actionData.message}</s-banner>
+      )}
+      {building && (
+        <s-banner tone="info">
+          Building report: {data.run.pagesFetched} of {data.run.pagesTotal}{" "}
+          pages of customers read.
+        </s-banner>
+      )}
+      {data.run.status === "failed" && (
+        <s-banner tone="critical">
+          <s-stack direction="inline" gap="base" alignItems="center">
+            <s-text>
+              The report stopped after {data.run.pagesFetched} of{" "}
+              {data.run.pagesTotal} pages: {data.run.error || "Unknown error."}
+            </s-text>
+            <Form method="post">
+              <input type="hidden" name="intent" value="run_resume" />
+              <input type="hidden" name="run_id" value={data.run.id} />
+              <s-button type="submit">Resume</s-button>
+            </Form>
+          </s-stack>
+        </s-banner>
+      )}
       <s-section heading="Sort & display">
         <Form method="get">
           <s-stack direction="inline" gap="base" align="center">
@@ -637,6 +1014,36 @@ export default function Report() {
                 <option value="ltv_asc">LTV low → high</option>
                 <option value="orders_desc">Orders high → low</option>
                 <option value="orders_asc">Orders low → high</option>
+                <option value="predicted_desc">
+                  Predicted CLV high → low
+                </option>
+                <option value="predicted_asc">
+                  Predicted CLV low → high
+                </option>
+                <option value="alive_desc">P(alive) high → low</option>
+                <option value="alive_asc">P(alive) low → high</option>
+                <option value="profit_desc">
+                  Gross profit LTV high → low
+                </option>
+                <option value="profit_asc">
+                  Gross profit LTV low → high
+                </option>
+                <option value="days_since_desc">
+                  Days since last order high → low
+                </option>
+                <option value="days_since_asc">
+                  Days since last order low → high
+                </option>
+              </select>
+            </label>
+            <label>
+              <s-text>Revenue basis</s-text>
+              <select name="basis" defaultValue={data.basis}>
+                {REVENUE_BASES.map((basis) => (
+                  <option key={basis.key} value={basis.key}>
+                    {basis.label}
+                  </option>
+                ))}
               </select>
             </label>
             <label>
@@ -656,12 +1063,69 @@ export default function Report() {
             <s-button type="submit">Run report</s-button>
           </s-stack>
         </Form>
-        <s-paragraph>
-          Showing {startRow}-{endRow} of {data.totalCustomers} customers.
-        </s-paragraph>
-        <s-stack direction="inline" gap="base" align="center">
-          <s-link href={`?${exportParams.toString()}`}>Export CSV</s-link>
+        <s-stack direction="inline" gap="base" alignItems="center">
+          <s-paragraph>
+            {data.run.status === "completed"
+              ? `Showing ${startRow}-${endRow} of ${data.totalCustomers} customers.`
+              : "Results appear once the report has been built."}
+          </s-paragraph>
+          {data.run.completedAt && (
+            <s-text>
+              Built {new Date(data.run.completedAt).toLocaleString()}
+            </s-text>
+          )}
+          <Form method="post">
+            <input type="hidden" name="intent" value="run_refresh" />
+            {configInputs}
+            <s-button type="submit" disabled={building}>
+              Refresh results
+            </s-button>
+          </Form>
         </s-stack>
+        <s-box padding="base" borderWidth="base" borderRadius="base">
+          <s-stack direction="block" gap="base">
+            <s-stack direction="inline" gap="base" alignItems="center">
+              <label>
+                <s-text>Export format</s-text>
+                <select
+                  value={exportFormat}
+                  onChange={(event) =>
+                    setExportFormat(parseExportFormat(event.target.value))
+                  }
+                >
+                  {EXPORT_FORMATS.map((format) => (
+                    <option key={format.key} value={format.key}>
+                      {format.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {data.run.status === "completed" ? (
+                <s-link href={`?${exportParams.toString()}`}>
+                  Export {data.totalCustomers} customers
+                </s-link>
+              ) : (
+                <s-text>
+                  Export is available once the report has finished.
+                </s-text>
+              )}
+            </s-stack>
+            <s-stack direction="inline" gap="base" alignItems="center">
+              {EXPORT_COLUMNS.map((column) => (
+                <label key={column.key}>
+                  <input
+                    type="checkbox"
+                    checked={exportColumns.includes(column.key)}
+                    onChange={(event) =>
+                      toggleExportColumn(column.key, event.target.checked)
+                    }
+                  />
+                  <s-text>{column.label}</s-text>
+                </label>
+              ))}
+            </s-stack>
+          </s-stack>
+        </s-box>
       </s-section>
 
       <s-section heading="Saved reports">
@@ -683,27 +1147,165 @@ export default function Report() {
             <s-button type="submit">Save report</s-button>
           </s-stack>
         </Form>
+        <s-link href="/app/schedules">Email saved reports on a schedule</s-link>
         {data.presets.length === 0 ? (
           <s-paragraph>No saved reports yet.</s-paragraph>
         ) : (
           <s-stack direction="block" gap="base">
-            {data.presets.map((preset) => (
+            {data.presets.map((preset, index) => (
               <s-box
                 key={preset.id}
                 padding="base"
                 borderWidth="base"
                 borderRadius="base"
               >
-                <s-stack direction="inline" gap="base" align="center">
-                  <s-heading>{preset.name}</s-heading>
-                  <s-link href={`?${preset.params}`}>Open</s-link>
-                  <Form method="post">
-                    <input type="hidden" name="intent" value="delete" />
-                    <input type="hidden" name="preset_id" value={preset.id} />
-                    <s-button type="submit" variant="tertiary">
-                      Delete
-                    </s-button>
-                  </Form>
+                <s-stack direction="block" gap="base">
+                  <s-stack direction="inline" gap="base" alignItems="center">
+                    <s-heading>{preset.name}</s-heading>
+                    {preset.isDefault && <s-badge tone="info">Default</s-badge>}
+                    <s-link href={`?${preset.params}`}>Open</s-link>
+                  </s-stack>
+                  <s-stack direction="inline" gap="base" alignItems="center">
+                    {preset.segment.unsupported.length ? (
+                      <s-text>
+                        Cannot be published as a Shopify segment:{" "}
+                        {preset.segment.unsupported.join(", ")}.
+                      </s-text>
+                    ) : (
+                      <>
+                        <s-text>Segment query: {preset.segment.query}</s-text>
+                        <s-text>
+                          The segment approximates the report:{" "}
+                          {preset.segment.differences.join(". ")}.
+                        </s-text>
+                        <Form method="post">
+                          <input
+                            type="hidden"
+                            name="intent"
+                            value="publish_segment"
+                          />
+                          <input
+                            type="hidden"
+                            name="preset_id"
+                            value={preset.id}
+                          />
+                          <s-button type="submit" variant="secondary">
+                            {preset.segment.id
+                              ? "Update Shopify segment"
+                              : "Publish as Shopify segment"}
+                          </s-button>
+                        </Form>
+                      </>
+                    )}
+                    {preset.segment.id && (
+                      <s-link
+                        href={`shopify://admin/customers/segments/${preset.segment.id.split("/").pop()}`}
+                        target="_blank"
+                      >
+                        View segment in Shopify
+                      </s-link>
+                    )}
+                    {preset.segment.publishedAt ? (
+                      <s-text>
+                        Published{" "}
+                        {new Date(preset.segment.publishedAt).toLocaleString()}
+                      </s-text>
+                    ) : (
+                      preset.segment.id && (
+                        <s-badge tone="warning">
+                          Filters changed since the segment was published
+                        </s-badge>
+                      )
+                    )}
+                  </s-stack>
+                  <s-stack direction="inline" gap="base" alignItems="center">
+                    <Form method="post">
+                      <input type="hidden" name="intent" value="rename" />
+                      <input type="hidden" name="preset_id" value={preset.id} />
+                      <s-stack
+                        direction="inline"
+                        gap="base"
+                        alignItems="center"
+                      >
+                        <input
+                          type="text"
+                          name="report_name"
+                          required
+                          defaultValue={preset.name}
+                          aria-label={`Rename ${preset.name}`}
+                        />
+                        <s-button type="submit" variant="secondary">
+                          Rename
+                        </s-button>
+                      </s-stack>
+                    </Form>
+                    <Form method="post">
+                      <input type="hidden" name="intent" value="overwrite" />
+                      <input type="hidden" name="preset_id" value={preset.id} />
+                      {CONFIG_KEYS.map((key) => (
+                        <input
+                          key={key}
+                          type="hidden"
+                          name={key}
+                          value={baseParams.get(key) || ""}
+                        />
+                      ))}
+                      <s-button type="submit" variant="secondary">
+                        Update with current filters
+                      </s-button>
+                    </Form>
+                    <Form method="post">
+                      <input type="hidden" name="intent" value="duplicate" />
+                      <input type="hidden" name="preset_id" value={preset.id} />
+                      <s-button type="submit" variant="secondary">
+                        Duplicate
+                      </s-button>
+                    </Form>
+                    <Form method="post">
+                      <input
+                        type="hidden"
+                        name="intent"
+                        value={preset.isDefault ? "clear_default" : "set_default"}
+                      />
+                      <input type="hidden" name="preset_id" value={preset.id} />
+                      <s-button type="submit" variant="secondary">
+                        {preset.isDefault ? "Clear default" : "Set as default"}
+                      </s-button>
+                    </Form>
+                    {index > 0 && (
+                      <Form method="post">
+                        <input type="hidden" name="intent" value="move_up" />
+                        <input
+                          type="hidden"
+                          name="preset_id"
+                          value={preset.id}
+                        />
+                        <s-button type="submit" variant="tertiary">
+                          Move up
+                        </s-button>
+                      </Form>
+                    )}
+                    {index < data.presets.length - 1 && (
+                      <Form method="post">
+                        <input type="hidden" name="intent" value="move_down" />
+                        <input
+                          type="hidden"
+                          name="preset_id"
+                          value={preset.id}
+                        />
+                        <s-button type="submit" variant="tertiary">
+                          Move down
+                        </s-button>
+                      </Form>
+                    )}
+                    <Form method="post">
+                      <input type="hidden" name="intent" value="delete" />
+                      <input type="hidden" name="preset_id" value={preset.id} />
+                      <s-button type="submit" variant="tertiary">
+                        Delete
+                      </s-button>
+                    </Form>
+                  </s-stack>
                 </s-stack>
               </s-box>
             ))}
@@ -711,6 +1313,113 @@ export default function Report() {
         )}
       </s-section>
 
+      <s-section heading="Tag matching customers">
+        <Form method="post">
+          <input type="hidden" name="intent" value="tag_preview" />
+          {configInputs}
+          <s-stack direction="inline" gap="base" alignItems="center">
+            <label>
+              <s-text>Tag</s-text>
+              <input
+                type="text"
+                name="tag"
+                required
+                maxLength={MAX_TAG_LENGTH}
+                placeholder="vip-winback"
+                defaultValue={tagPreview?.tag}
+              />
+            </label>
+            <label>
+              <s-text>Action</s-text>
+              <select name="tag_action" defaultValue={tagPreview?.action || "add"}>
+                <option value="add">Add tag</option>
+                <option value="remove">Remove tag</option>
+              </select>
+            </label>
+            <s-button type="submit" variant="secondary">
+              Preview
+            </s-button>
+          </s-stack>
+        </Form>
+        {tagPreview && (
+          <s-box padding="base" borderWidth="base" borderRadius="base">
+            <s-stack direction="inline" gap="base" alignItems="center">
+              <s-paragraph>
+                {tagPreview.action === "add" ? "Adding" : "Removing"} &quot;
+                {tagPreview.tag}&quot; would change {tagPreview.changes} of the{" "}
+                {tagPreview.matching} matching customers.
+              </s-paragraph>
+              {tagPreview.changes > 0 && (
+                <Form method="post">
+                  <input type="hidden" name="intent" value="tag_apply" />
+                  <input type="hidden" name="tag" value={tagPreview.tag} />
+                  <input
+                    type="hidden"
+                    name="tag_action"
+                    value={tagPreview.action}
+                  />
+                  {configInputs}
+                  <s-button type="submit">
+                    Apply to {tagPreview.changes} customers
+                  </s-button>
+                </Form>
+              )}
+            </s-stack>
+          </s-box>
+        )}
+        {data.tagOperations.length > 0 && (
+          <s-box padding="base" borderWidth="base" borderRadius="base">
+            <table style={{ width: "100%", borderCollapse: "collapse" }}>
+              <thead>
+                <tr>
+                  <th align="left">Started</th>
+                  <th align="left">Change</th>
+                  <th align="left">Status</th>
+                  <th align="right">Progress</th>
+                  <th align="right">Failed</th>
+                  <th align="right"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.tagOperations.map((operation) => (
+                  <tr key={operation.id}>
+                    <td>{new Date(operation.createdAt).toLocaleString()}</td>
+                    <td>
+                      {operation.action === "add" ? "Add" : "Remove"} &quot;
+                      {operation.tag}&quot;
+                      {operation.isUndo && " (undo)"}
+                    </td>
+                    <td>
+                      {operation.status}
+                      {operation.error && `: ${operation.error}`}
+                    </td>
+                    <td align="right">
+                      {operation.processed} / {operation.total}
+                    </td>
+                    <td align="right">{operation.failed}</td>
+                    <td align="right">
+                      {operation.canUndo && (
+                        <Form method="post">
+                          <input type="hidden" name="intent" value="tag_undo" />
+                          <input
+                            type="hidden"
+                            name="operation_id"
+                            value={operation.id}
+                          />
+                          <s-button type="submit" variant="tertiary">
+                            Undo
+                          </s-button>
+                        </Form>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </s-box>
+        )}
+      </s-section>
+
       <s-section heading="Advanced filters">
         <Form method="get">
           <s-stack direction="inline" gap="base" align="center">
@@ -719,6 +1428,8 @@ export default function Report() {
             <input type="hidden" name="per_page" value={data.perPageSelection} />
             <input type="hidden" name="tags" value={data.tags} />
             <input type="hidden" name="tags_mode" value={data.tagsMode} />
+            <input type="hidden" name="basis" value={data.basis} />
+            <input type="hidden" name="filter" value={data.filter} />
             <label>
               <s-text>Min orders</s-text>
               <input
@@ -761,6 +1472,26 @@ export default function Report() {
                 defaultValue={data.maxSpent}
               />
             </label>
+            <label>
+              <s-text>Min gross profit</s-text>
+              <input
+                type="number"
+                name="min_profit"
+                step="0.01"
+                placeholder="0"
+                defaultValue={data.minProfit}
+              />
+            </label>
+            <label>
+              <s-text>Max gross profit</s-text>
+              <input
+                type="number"
+                name="max_profit"
+                step="0.01"
+                placeholder="2000"
+                defaultValue={data.maxProfit}
+              />
+            </label>
             <label>
               <s-text>Customer created start</s-text>
               <input
@@ -793,15 +1524,84 @@ export default function Report() {
                 defaultValue={data.firstOrderEnd}
               />
             </label>
+            <label>
+              <s-text>Min days since last order</s-text>
+              <input
+                type="number"
+                name="min_days_since"
+                min={0}
+                placeholder="0"
+                defaultValue={data.minDaysSince}
+              />
+            </label>
+            <label>
+              <s-text>Max days since last order</s-text>
+              <input
+                type="number"
+                name="max_days_since"
+                min={0}
+                placeholder="365"
+                defaultValue={data.maxDaysSince}
+              />
+            </label>
+            <label>
+              <input
+                type="checkbox"
+                name="lapsed"
+                value="1"
+                defaultChecked={data.lapsed}
+              />
+              <s-text>Lapsed only</s-text>
+            </label>
+            <label>
+              <input
+                type="checkbox"
+                name="high_clv"
+                value="1"
+                defaultChecked={data.highClv}
+              />
+              <s-text>Top spenders only</s-text>
+            </label>
+            <label>
+              <s-text>RFM segment</s-text>
+              <select name="segment" defaultValue={data.segment}>
+                <option value="">All segments</option>
+                {RFM_SEGMENTS.map((definition) => (
+                  <option key={definition.key} value={definition.key}>
+                    {definition.label}
+                  </option>
+                ))}
+              </select>
+            </label>
             <s-button type="submit">Apply filters</s-button>
           </s-stack>
         </Form>
+        <s-stack direction="inline" gap="base" alignItems="center">
+          <s-link href={`?${lapsedParams.toString()}`}>
+            Lapsed high-CLV customers
+          </s-link>
+          <s-text>
+            Repeat customers in the top fifth by spend who have gone quiet for
+            half again as long as they usually do between orders, highest spend
+            first.
+          </s-text>
+        </s-stack>
+      </s-section>
+
+      <s-section heading="Filter builder">
+        <FilterBuilder
+          key={data.filter}
+          filter={data.filter}
+          baseParams={baseParams}
+        />
       </s-section>
 
       <s-section heading="Distribution charts">
         <s-stack direction="inline" gap="base" align="start">
           <s-box padding="base" borderWidth="base" borderRadius="base">
-            <s-heading>LTV distribution</s-heading>
+            <s-heading>
+              LTV distribution ({revenueBasisLabel(data.basis)})
+            </s-heading>
             <div style={{ display: "grid", gap: "6px", minWidth: "240px" }}>
               {data.charts.ltvBuckets.map((bucket) => (
                 <div key={bucket.label} style={{ display: "flex", gap: "8px" }}>
@@ -868,6 +1668,54 @@ export default function Report() {
         </s-stack>
       </s-section>
 
+      <s-section heading="RFM segments">
+        <s-box padding="base" borderWidth="base" borderRadius="base">
+          <table style={{ width: "100%", borderCollapse: "collapse" }}>
+            <thead>
+              <tr>
+                <th align="left">Segment</th>
+                <th align="right">Customers</th>
+                <th align="right">Total CLV</th>
+                <th align="right">Average CLV</th>
+                <th align="right"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.segments.map((summary) => {
+                const segmentParams = new URLSearchParams(baseParams);
+                segmentParams.set("segment", summary.key);
+                return (
+                  <tr key={summary.key}>
+                    <td>{summary.label}</td>
+                    <td align="right">{summary.customers}</td>
+                    <td align="right">
+                      {formatCurrency(summary.totalClv, data.currencyCode)}
+                    </td>
+                    <td align="right">
+                      {formatCurrency(
+                        summary.customers
+                          ? summary.totalClv / summary.customers
+                          : 0,
+                        data.currencyCode,
+                      )}
+                    </td>
+                    <td align="right">
+                      {data.segment === summary.key ? (
+                        <s-text>Selected</s-text>
+                      ) : (
+                        <s-link href={`?${segmentParams.toString()}`}>
+                          View
+                        </s-link>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </s-box>
+      </s-section>
+
       <s-section heading="Results">
         {data.totalCustomers === 0 ? (
           <s-paragraph>No customers found yet.</s-paragraph>
@@ -879,18 +1727,79 @@ export default function Report() {
                   <th align="left">Customer</th>
                   <th align="left">Email</th>
                   <th align="right">Orders</th>
-                  <th align="right">Total spent</th>
+                  <th align="right">
+                    Total spent ({revenueBasisLabel(data.basis)})
+                  </th>
+                  <th align="right">Gross profit LTV</th>
+                  <th align="right">Predicted CLV (12m)</th>
+                  <th align="right">P(alive)</th>
+                  <th align="right">Last order</th>
+                  <th align="right">Days since</th>
+                  <th align="right">Expected next order</th>
+                  <th align="left">Segment</th>
                 </tr>
               </thead>
               <tbody>
                 {data.customers.map((customer) => (
                   <tr key={customer.id}>
-                    <td>{customer.name}</td>
+                    <td>
+                      <s-link href={customerPath(customer.id)}>
+                        {customer.name}
+                      </s-link>
+                    </td>
                     <td>{customer.email}</td>
                     <td align="right">{customer.ordersCount}</td>
                     <td align="right">
                       {formatCurrency(customer.totalSpent, data.currencyCode)}
                     </td>
+                    <td align="right">
+                      {formatCurrency(customer.grossProfit, data.currencyCode)}
+                    </td>
+                    <td align="right">
+                      {customer.predictedClv === null
+                        ? "-"
+                        : formatCurrency(
+                            customer.predictedClv,
+                            data.currencyCode,
+                          )}
+                    </td>
+                    <td align="right">
+                      {customer.probabilityAlive === null
+                        ? "-"
+                        : `${(customer.probabilityAlive * 100).toFixed(0)}%`}
+                    </td>
+                    <td align="right">
+                      {customer.lastOrderDate
+                        ? customer.lastOrderDate.slice(0, 10)
+                        : "-"}
+                    </td>
+                    <td align="right">
+                      {customer.daysSinceLastOrder ?? "-"}
+                    </td>
+                    <td align="right">
+                      {customer.expectedNextOrderDate ? (
+                        <s-stack
+                          direction="inline"
+                          gap="small-200"
+                          alignItems="center"
+                          justifyContent="end"
+                        >
+                          {customer.lapsed && (
+                            <s-badge tone="warning">Lapsed</s-badge>
+                          )}
+                          <s-text>
+                            {customer.expectedNextOrderDate.slice(0, 10)}
+                          </s-text>
+                        </s-stack>
+                      ) : (
+                        "-"
+                      )}
+                    </td>
+                    <td>
+                      {customer.rfm
+                        ? `${segmentLabel(customer.rfm.segment)} (${customer.rfm.recency}${customer.rfm.frequency}${customer.rfm.monetary})`
+                        : "-"}
+                    </td>
                   </tr>
                 ))}
               </tbody>
@@ -917,8 +1826,95 @@ export default function Report() {
         <s-paragraph>
           This report sorts customers by total spent or order count. Because
           Shopify no longer supports sorting customers by total spent or order
-          count in the API, the report fetches customers and sorts them inside
-          the app. Large stores may take longer to load.
+          count in the API, the report reads the app&apos;s synced copy of your
+          customers and sorts them inside the app. Amounts are shown in the
+          shop currency ({data.currencyCode}).
+          {data.notConvertedCustomers > 0 &&
+            ` ${data.notConvertedCustomers} customers have orders in another currency and are not converted, so they are left out.`}
+        </s-paragraph>
+        <s-paragraph>
+          The revenue basis applies to total spent everywhere in this report,
+          including sorting, the spend filters, the LTV histogram and RFM
+          monetary scores. Net of refunds subtracts refunded amounts; net
+          merchandise also subtracts shipping and taxes.
+        </s-paragraph>
+        <s-paragraph>
+          Gross profit LTV is line item revenue after discounts minus the unit
+          cost of each variant sold, using manual costs from Product costs where
+          set. It is not affected by the revenue basis.
+          {data.missingCostLineItems > 0 &&
+            ` ${data.missingCostLineItems} line items have no cost yet and add no profit.`}
+        </s-paragraph>
+        <s-paragraph>
+          RFM scores rank every customer with an order into quintiles (1-5) for
+          recency of last order, number of orders and total spent, relative to
+          the rest of the shop. Segments are assigned from the recency score and
+          the average of the frequency and monetary scores.
+        </s-paragraph>
+        <s-paragraph>
+          Predicted CLV (12m) and P(alive) come from BG/NBD and Gamma-Gamma
+          models fitted to the shop&apos;s order history. They are blank until
+          the shop has enough repeat customers to fit the models.
+        </s-paragraph>
+        <s-paragraph>
+          Expected next order adds a customer&apos;s usual gap between orders,
+          the time from their first to their last order divided by the gaps in
+          between, to their last order date. Customers with a single order have
+          no cadence yet. A customer is lapsed once the days since their last
+          order exceed one and a half times that gap. Top spenders are the
+          customers with an RFM monetary score of 5, the top fifth of the shop
+          by spend.
+        </s-paragraph>
+        <s-paragraph>
+          The filter builder combines conditions on any customer field with
+          nested all-of and any-of groups, each of which can be negated with
+          Not. It applies on top of the search, tag and advanced filters, and is
+          saved with the report. Conditions without a value yet are ignored.
+          Text and tag matches ignore case, dates are compared by UTC day, and
+          P(alive) is entered as a percentage.
+        </s-paragraph>
+        <s-paragraph>
+          Reports are built in the background, 500 customers at a time, and the
+          results are kept for 15 minutes or until the next sync. A report
+          interrupted by a restart picks up where it stopped. Refresh results
+          rebuilds the report straight away.
+        </s-paragraph>
+        <s-paragraph>
+          Exports include every customer matching the filters, in the current
+          sort order, with the columns ticked above. NDJSON writes one JSON
+          object per customer with numbers and tag lists kept as JSON values.
+        </s-paragraph>
+        <s-paragraph>
+          Publishing a saved report creates a Shopify customer segment named
+          after it, or updates the segment it was published to before. Search,
+          gross profit, RFM segment, lapsed, top spender and net-basis spend
+          filters have no equivalent in Shopify segments, so reports using them
+          cannot be published. In the filter builder, only order count,
+          gross-basis spend, exact tags, customer created, first and last order
+          dates and days since last order conditions translate, without Not. A
+          published segment approximates the report rather than matching it
+          exactly: Shopify compares its own amount spent, counts dates in the
+          shop&apos;s time zone and includes customers whose spend is not in the
+          shop currency. Renaming or updating a saved report does not change its
+          segment until it is published again.
+        </s-paragraph>
+        <s-paragraph>
+          Tagging applies to every customer matching the current filters, not
+          just this page. Customers that already have the tag (or, when
+          removing, do not have it) are skipped, and undo reverses the change
+          only for the customers it updated. Report tags refresh as Shopify
+          sends customer update webhooks.
+        </s-paragraph>
+        <s-paragraph>
+          Saved reports are listed in the order shown here. Opening the report
+          without any filters loads the default saved report, if one is set.
+        </s-paragraph>
+        <s-paragraph>
+          Last synced:{" "}
+          {data.lastSyncedAt
+            ? new Date(data.lastSyncedAt).toLocaleString()
+            : "Never"}
+          . Resync from the analytics dashboard to pick up recent changes.
         </s-paragraph>
       </s-section>
     </s-page>
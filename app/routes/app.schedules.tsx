@@ -0,0 +1,367 @@
+import type {
+  ActionFunctionArgs,
+  HeadersFunction,
+  LoaderFunctionArgs,
+} from "react-router";
+import { Form, useActionData, useLoaderData } from "react-router";
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import { authenticate } from "../shopify.server";
+import { adminGraphql } from "../admin-graphql.server";
+import prisma from "../db.server";
+import {
+  deleteReportSchedule,
+  deliverReportSchedule,
+  invalidRecipients,
+  isValidTimeZone,
+  parseRecipients,
+  saveReportSchedule,
+} from "../models/report-schedule.server";
+import { PRESET_ORDER } from "../models/report-presets.server";
+import {
+  MAX_MONTH_DAY,
+  SCHEDULE_FREQUENCIES,
+  WEEKDAYS,
+  describeSchedule,
+  parseScheduleFrequency,
+} from "../models/schedule";
+
+type LoaderData = {
+  timezone: string;
+  smtpConfigured: boolean;
+  presets: Array<{
+    id: string;
+    name: string;
+    schedule: {
+      frequency: string;
+      hour: number;
+      minute: number;
+      weekday: number | null;
+      monthDay: number | null;
+      timezone: string;
+      recipients: string;
+      enabled: boolean;
+      nextRunAt: string;
+      lastRunAt: string | null;
+      lastError: string | null;
+    } | null;
+  }>;
+};
+
+type ActionData = { ok: boolean; message?: string; error?: string };
+
+const fetchShopTimezone = async (admin: AdminApiContext) => {
+  const data = await adminGraphql(
+    admin,
+    `#graphql
+      query ShopTimezone {
+        shop {
+          ianaTimezone
+        }
+      }`,
+  );
+
+  return data.shop.ianaTimezone || "UTC";
+};
+
+const parseTime = (value: string) => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  if (!match) return null;
+  const hour = Number(match[1]);
+  const minute = Number(match[2]);
+  return hour < 24 && minute < 60 ? { hour, minute } : null;
+};
+
+export const action = async ({
+  request,
+}: ActionFunctionArgs): Promise<ActionData> => {
+  const { admin, session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const intent = String(formData.get("intent") || "");
+  const presetId = String(formData.get("preset_id") || "");
+
+  const preset = await prisma.reportPreset.findFirst({
+    where: { id: presetId, shop: session.shop },
+    include: { schedule: true },
+  });
+  if (!preset) {
+    return { ok: false, error: "Saved report not found." };
+  }
+
+  if (intent === "save") {
+    const frequency = parseScheduleFrequency(
+      String(formData.get("frequency") || ""),
+    );
+    const time = parseTime(String(formData.get("time") || ""));
+    const weekday = Number(formData.get("weekday") || 1);
+    const monthDay = Number(formData.get("month_day") || 1);
+    const recipients = parseRecipients(String(formData.get("recipients") || ""));
+    const invalid = invalidRecipients(recipients);
+
+    if (!frequency) {
+      return { ok: false, error: "Choose how often to send the report." };
+    }
+    if (!time) {
+      return { ok: false, error: "Enter a time of day such as 08:00." };
+    }
+    if (!Number.isInteger(weekday) || weekday < 0 || weekday > 6) {
+      return { ok: false, error: "Choose a day of the week." };
+    }
+    if (
+      !Number.isInteger(monthDay) ||
+      monthDay < 1 ||
+      monthDay > MAX_MONTH_DAY
+    ) {
+      return {
+        ok: false,
+        error: `Day of the month must be between 1 and ${MAX_MONTH_DAY}.`,
+      };
+    }
+    if (!recipients.length) {
+      return { ok: false, error: "Add at least one recipient." };
+    }
+    if (invalid.length) {
+      return { ok: false, error: `Invalid email: ${invalid.join(", ")}` };
+    }
+
+    const timezone = await fetchShopTimezone(admin);
+    await saveReportSchedule(session.shop, preset.id, {
+      frequency,
+      ...time,
+      weekday,
+      monthDay,
+      timezone: isValidTimeZone(timezone) ? timezone : "UTC",
+      recipients,
+      enabled: formData.get("enabled") === "on",
+    });
+    return { ok: true, message: `Schedule saved for ${preset.name}.` };
+  }
+
+  if (intent === "delete") {
+    await deleteReportSchedule(session.shop, preset.id);
+    return { ok: true, message: `Schedule removed from ${preset.name}.` };
+  }
+
+  if (intent === "send") {
+    if (!preset.schedule) {
+      return { ok: false, error: "Save a schedule with recipients first." };
+    }
+    try {
+      await deliverReportSchedule(preset.schedule);
+    } catch (error) {
+      return {
+        ok: false,
+        error: error instanceof Error ? error.message : "Delivery failed.",
+      };
+    }
+    return { ok: true, message: `${preset.name} sent.` };
+  }
+
+  return { ok: false, error: "Unknown action." };
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+  const [presets, timezone] = await Promise.all([
+    prisma.reportPreset.findMany({
+      where: { shop: session.shop },
+      orderBy: PRESET_ORDER,
+      include: { schedule: true },
+    }),
+    fetchShopTimezone(admin),
+  ]);
+
+  const data: LoaderData = {
+    timezone,
+    smtpConfigured: Boolean(process.env.SMTP_HOST),
+    presets: presets.map((preset) => ({
+      id: preset.id,
+      name: preset.name,
+      schedule: preset.schedule
+        ? {
+            frequency: preset.schedule.frequency,
+            hour: preset.schedule.hour,
+            minute: preset.schedule.minute,
+            weekday: preset.schedule.weekday,
+            monthDay: preset.schedule.monthDay,
+            timezone: preset.schedule.timezone,
+            recipients: preset.schedule.recipients,
+            enabled: preset.schedule.enabled,
+            nextRunAt: preset.schedule.nextRunAt.toISOString(),
+            lastRunAt: preset.schedule.lastRunAt?.toISOString() || null,
+            lastError: preset.schedule.lastError,
+          }
+        : null,
+    })),
+  };
+
+  return data;
+};
+
+export default function Schedules() {
+  const data = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+
+  return (
+    <s-page heading="Scheduled reports">
+      {actionData?.error && (
+        <s-banner tone="critical">{actionData.error}</s-banner>
+      )}
+      {actionData?.message && (
+        <s-banner tone="success">{actionData.message}</s-banner>
+      )}
+      {!data.smtpConfigured && (
+        <s-banner tone="warning">
+          Email delivery is not configured. Set SMTP_HOST and related settings
+          on the app server before schedules can send.
+        </s-banner>
+      )}
+
+      {data.presets.length === 0 ? (
+        <s-section heading="Saved reports">
+          <s-paragraph>
+            Save a report from the customer report page to schedule it.
+          </s-paragraph>
+          <s-link href="/app/report">Open the customer report</s-link>
+        </s-section>
+      ) : (
+        data.presets.map((preset) => {
+          const schedule = preset.schedule;
+          const time = schedule
+            ? `${String(schedule.hour).padStart(2, "0")}:${String(
+                schedule.minute,
+              ).padStart(2, "0")}`
+            : "08:00";
+
+          return (
+            <s-section key={preset.id} heading={preset.name}>
+              {schedule ? (
+                <s-stack direction="block" gap="base">
+                  <s-paragraph>
+                    {describeSchedule(schedule)} to {schedule.recipients}
+                    {!schedule.enabled && " (paused)"}
+                  </s-paragraph>
+                  <s-paragraph>
+                    Next run:{" "}
+                    {schedule.enabled
+                      ? new Date(schedule.nextRunAt).toLocaleString()
+                      : "-"}
+                    . Last sent:{" "}
+                    {schedule.lastRunAt
+                      ? new Date(schedule.lastRunAt).toLocaleString()
+                      : "Never"}
+                    .
+                  </s-paragraph>
+                  {schedule.lastError && (
+                    <s-paragraph>Last error: {schedule.lastError}</s-paragraph>
+                  )}
+                </s-stack>
+              ) : (
+                <s-paragraph>Not scheduled.</s-paragraph>
+              )}
+              <Form method="post">
+                <input type="hidden" name="intent" value="save" />
+                <input type="hidden" name="preset_id" value={preset.id} />
+                <s-stack direction="inline" gap="base" alignItems="center">
+                  <label>
+                    <s-text>Frequency</s-text>
+                    <select
+                      name="frequency"
+                      defaultValue={schedule?.frequency || "weekly"}
+                    >
+                      {SCHEDULE_FREQUENCIES.map((frequency) => (
+                        <option key={frequency.key} value={frequency.key}>
+                          {frequency.label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label>
+                    <s-text>Time ({schedule?.timezone || data.timezone})</s-text>
+                    <input
+                      type="time"
+                      name="time"
+                      required
+                      defaultValue={time}
+                    />
+                  </label>
+                  <label>
+                    <s-text>Day of week (weekly)</s-text>
+                    <select
+                      name="weekday"
+                      defaultValue={String(schedule?.weekday ?? 1)}
+                    >
+                      {WEEKDAYS.map((weekday, index) => (
+                        <option key={weekday} value={index}>
+                          {weekday}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label>
+                    <s-text>Day of month (monthly)</s-text>
+                    <input
+                      type="number"
+                      name="month_day"
+                      min={1}
+                      max={MAX_MONTH_DAY}
+                      defaultValue={schedule?.monthDay ?? 1}
+                    />
+                  </label>
+                  <label>
+                    <s-text>Recipients</s-text>
+                    <input
+                      type="text"
+                      name="recipients"
+                      placeholder="buyer@example.com, ops@example.com"
+                      defaultValue={schedule?.recipients || ""}
+                    />
+                  </label>
+                  <label>
+                    <input
+                      type="checkbox"
+                      name="enabled"
+                      defaultChecked={schedule?.enabled ?? true}
+                    />
+                    <s-text>Enabled</s-text>
+                  </label>
+                  <s-button type="submit">Save schedule</s-button>
+                </s-stack>
+              </Form>
+              {schedule && (
+                <s-stack direction="inline" gap="base" alignItems="center">
+                  <Form method="post">
+                    <input type="hidden" name="intent" value="send" />
+                    <input type="hidden" name="preset_id" value={preset.id} />
+                    <s-button type="submit" variant="secondary">
+                      Send now
+                    </s-button>
+                  </Form>
+                  <Form method="post">
+                    <input type="hidden" name="intent" value="delete" />
+                    <input type="hidden" name="preset_id" value={preset.id} />
+                    <s-button type="submit" variant="tertiary">
+                      Remove schedule
+                    </s-button>
+                  </Form>
+                </s-stack>
+              )}
+            </s-section>
+          );
+        })
+      )}
+
+      <s-section heading="Notes">
+        <s-paragraph>
+          Scheduled reports run the saved report&apos;s filters and sort
+          against the app&apos;s synced data and email the results as a CSV
+          attachment. Times use the shop&apos;s time zone as set in Shopify.
+        </s-paragraph>
+      </s-section>
+    </s-page>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
@@ -20,6 +20,13 @@ export default function App() {
       <s-app-nav>
         <s-link href="/app">Analytics dashboard</s-link>
         <s-link href="/app/report">Customer report</s-link>
+        <s-link href="/app/bundles">Bundles</s-link>
+        <s-link href="/app/schedules">Scheduled reports</s-link>
+        <s-link href="/app/cohorts">Cohorts</s-link>
+        <s-link href="/app/attribution">Acquisition channels</s-link>
+        <s-link href="/app/gateway">Gateway products</s-link>
+        <s-link href="/app/bundle-suggestions">Bundle suggestions</s-link>
+        <s-link href="/app/costs">Product costs</s-link>
       </s-app-nav>
       <Outlet />
     </AppProvider>
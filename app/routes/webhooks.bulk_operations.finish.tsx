@@ -0,0 +1,15 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { recordFinishedOperation } from "../models/sync.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { payload, shop, topic } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  // Shopify gives up on a webhook after a few seconds, far less than the
+  // download and import take, so the scheduler picks the sync up from here.
+  await recordFinishedOperation(shop, payload.admin_graphql_api_id as string);
+
+  return new Response();
+};
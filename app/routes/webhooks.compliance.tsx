@@ -0,0 +1,36 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { redactCustomer, redactShop } from "../models/shop-data.server";
+
+type CustomerRedactPayload = {
+  customer?: { id?: number | string };
+  orders_to_redact?: Array<number | string>;
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { payload, shop, topic } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  switch (String(topic)) {
+    case "CUSTOMERS_REDACT": {
+      const { customer, orders_to_redact: orderIds = [] } =
+        payload as CustomerRedactPayload;
+      if (customer?.id) {
+        await redactCustomer(
+          shop,
+          `gid://shopify/Customer/${customer.id}`,
+          orderIds.map((id) => `gid://shopify/Order/${id}`),
+        );
+      }
+      break;
+    }
+    case "SHOP_REDACT":
+      await redactShop(shop);
+      break;
+    default:
+      console.warn(`Unhandled compliance webhook topic ${String(topic)}`);
+  }
+
+  return new Response();
+};
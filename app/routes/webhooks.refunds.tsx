@@ -0,0 +1,13 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { processSyncWebhook } from "../models/webhook-sync.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const context = await authenticate.webhook(request);
+
+  console.log(`Received ${context.topic} webhook for ${context.shop}`);
+
+  await processSyncWebhook(context);
+
+  return new Response();
+};
@@ -0,0 +1,45 @@
+import { refitStaleClvModels } from "./models/clv-model.server";
+import { resumeTagOperations } from "./models/customer-tags.server";
+import { resumeReportRuns } from "./models/report-runs.server";
+import { runDueSchedules } from "./models/report-schedule.server";
+import { completeFinishedSyncs } from "./models/sync.server";
+
+declare global {
+  // eslint-disable-next-line no-var
+  var reportSchedulerTimer: ReturnType<typeof setInterval> | undefined;
+}
+
+const POLL_INTERVAL_MS = 60 * 1000;
+
+let running = false;
+
+const tick = async () => {
+  // Skip a tick rather than overlap a slow run.
+  if (running) return;
+  running = true;
+  try {
+    await completeFinishedSyncs();
+    await runDueSchedules();
+    await resumeTagOperations();
+    await resumeReportRuns();
+    await refitStaleClvModels();
+  } catch (error) {
+    console.error("Report scheduler failed", error);
+  } finally {
+    running = false;
+  }
+};
+
+/**
+ * Polls for finished syncs, due report schedules, interrupted tag operations
+ * and report runs and out-of-date CLV models in the background of the app
+ * server. Set REPORT_SCHEDULER=off on instances that should not send email.
+ */
+export const startReportScheduler = () => {
+  if (process.env.REPORT_SCHEDULER === "off" || global.reportSchedulerTimer) {
+    return;
+  }
+
+  global.reportSchedulerTimer = setInterval(tick, POLL_INTERVAL_MS);
+  global.reportSchedulerTimer.unref();
+};
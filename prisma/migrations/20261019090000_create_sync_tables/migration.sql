@@ -0,0 +1,61 @@
+-- CreateTable
+CREATE TABLE "ReportPreset" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "config" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "Customer" (
+    "shop" TEXT NOT NULL,
+    "id" TEXT NOT NULL,
+    "displayName" TEXT,
+    "email" TEXT,
+    "createdAt" DATETIME,
+    "numberOfOrders" INTEGER NOT NULL DEFAULT 0,
+    "amountSpent" REAL NOT NULL DEFAULT 0,
+    "currencyCode" TEXT,
+    "tags" TEXT NOT NULL DEFAULT '[]',
+    "firstOrderAt" DATETIME,
+    "syncedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY ("shop", "id")
+);
+
+-- CreateTable
+CREATE TABLE "Order" (
+    "shop" TEXT NOT NULL,
+    "id" TEXT NOT NULL,
+    "customerId" TEXT,
+    "name" TEXT,
+    "createdAt" DATETIME NOT NULL,
+    "cancelledAt" DATETIME,
+    "totalPrice" REAL NOT NULL DEFAULT 0,
+    "currencyCode" TEXT,
+    "syncedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY ("shop", "id")
+);
+
+-- CreateTable
+CREATE TABLE "SyncState" (
+    "shop" TEXT NOT NULL PRIMARY KEY,
+    "status" TEXT NOT NULL DEFAULT 'idle',
+    "bulkOperationId" TEXT,
+    "startedAt" DATETIME,
+    "lastSyncedAt" DATETIME,
+    "error" TEXT,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "Customer_shop_firstOrderAt_idx" ON "Customer"("shop", "firstOrderAt");
+
+-- CreateIndex
+CREATE INDEX "Order_shop_customerId_idx" ON "Order"("shop", "customerId");
+
+-- CreateIndex
+CREATE INDEX "Order_shop_createdAt_idx" ON "Order"("shop", "createdAt");
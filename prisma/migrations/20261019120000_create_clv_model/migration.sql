@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "ClvModel" (
+    "shop" TEXT NOT NULL PRIMARY KEY,
+    "r" REAL NOT NULL,
+    "alpha" REAL NOT NULL,
+    "a" REAL NOT NULL,
+    "b" REAL NOT NULL,
+    "p" REAL NOT NULL,
+    "q" REAL NOT NULL,
+    "gamma" REAL NOT NULL,
+    "customers" INTEGER NOT NULL,
+    "fittedAt" DATETIME NOT NULL
+);
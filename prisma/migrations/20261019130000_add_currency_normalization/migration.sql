@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Customer" ADD COLUMN "amountSpentShop" REAL;
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN "presentmentCurrencyCode" TEXT;
+ALTER TABLE "Order" ADD COLUMN "presentmentTotal" REAL NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "SyncState" ADD COLUMN "shopCurrencyCode" TEXT;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN "totalDiscounts" REAL NOT NULL DEFAULT 0;
+ALTER TABLE "Order" ADD COLUMN "totalRefunded" REAL NOT NULL DEFAULT 0;
+ALTER TABLE "Order" ADD COLUMN "totalShipping" REAL NOT NULL DEFAULT 0;
+ALTER TABLE "Order" ADD COLUMN "totalTax" REAL NOT NULL DEFAULT 0;
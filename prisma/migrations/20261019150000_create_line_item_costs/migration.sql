@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "LineItem" (
+    "shop" TEXT NOT NULL,
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "productId" TEXT,
+    "variantId" TEXT,
+    "title" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL DEFAULT 0,
+    "discountedTotal" REAL NOT NULL DEFAULT 0,
+    "unitCost" REAL,
+    "syncedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY ("shop", "id")
+);
+
+-- CreateTable
+CREATE TABLE "CostOverride" (
+    "shop" TEXT NOT NULL,
+    "variantId" TEXT NOT NULL,
+    "title" TEXT,
+    "unitCost" REAL NOT NULL,
+    "updatedAt" DATETIME NOT NULL,
+
+    PRIMARY KEY ("shop", "variantId")
+);
+
+-- CreateIndex
+CREATE INDEX "LineItem_shop_orderId_idx" ON "LineItem"("shop", "orderId");
+
+-- CreateIndex
+CREATE INDEX "LineItem_shop_variantId_idx" ON "LineItem"("shop", "variantId");
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "ReportSchedule" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "presetId" TEXT NOT NULL,
+    "frequency" TEXT NOT NULL,
+    "hour" INTEGER NOT NULL,
+    "minute" INTEGER NOT NULL DEFAULT 0,
+    "weekday" INTEGER,
+    "monthDay" INTEGER,
+    "timezone" TEXT NOT NULL,
+    "recipients" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "nextRunAt" DATETIME NOT NULL,
+    "lastRunAt" DATETIME,
+    "lastError" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "ReportSchedule_presetId_fkey" FOREIGN KEY ("presetId") REFERENCES "ReportPreset" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReportSchedule_presetId_key" ON "ReportSchedule"("presetId");
+
+-- CreateIndex
+CREATE INDEX "ReportSchedule_enabled_nextRunAt_idx" ON "ReportSchedule"("enabled", "nextRunAt");
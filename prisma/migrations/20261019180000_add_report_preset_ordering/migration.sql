@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "ReportPreset" ADD COLUMN "isDefault" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "ReportPreset" ADD COLUMN "position" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "ReportPreset_shop_position_idx" ON "ReportPreset"("shop", "position");
@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "TagOperation" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "tag" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "config" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "total" INTEGER NOT NULL,
+    "processed" INTEGER NOT NULL DEFAULT 0,
+    "failed" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "undoOfId" TEXT,
+    "undoneAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "TagOperationCustomer" (
+    "operationId" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "error" TEXT,
+
+    PRIMARY KEY ("operationId", "customerId"),
+    CONSTRAINT "TagOperationCustomer_operationId_fkey" FOREIGN KEY ("operationId") REFERENCES "TagOperation" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "TagOperation_shop_createdAt_idx" ON "TagOperation"("shop", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "TagOperation_status_updatedAt_idx" ON "TagOperation"("status", "updatedAt");
+
+-- CreateIndex
+CREATE INDEX "TagOperationCustomer_operationId_status_idx" ON "TagOperationCustomer"("operationId", "status");
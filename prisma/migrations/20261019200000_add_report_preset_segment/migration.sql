@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "ReportPreset" ADD COLUMN "segmentId" TEXT;
+ALTER TABLE "ReportPreset" ADD COLUMN "segmentPublishedAt" DATETIME;
@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "ReportRun" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "configKey" TEXT NOT NULL,
+    "config" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "cursor" TEXT,
+    "pagesFetched" INTEGER NOT NULL DEFAULT 0,
+    "pagesTotal" INTEGER NOT NULL DEFAULT 0,
+    "summary" TEXT,
+    "error" TEXT,
+    "completedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "ReportRunRow" (
+    "runId" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "position" INTEGER,
+    "data" TEXT NOT NULL,
+
+    PRIMARY KEY ("runId", "customerId"),
+    CONSTRAINT "ReportRunRow_runId_fkey" FOREIGN KEY ("runId") REFERENCES "ReportRun" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ReportRun_shop_configKey_createdAt_idx" ON "ReportRun"("shop", "configKey", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ReportRun_status_updatedAt_idx" ON "ReportRun"("status", "updatedAt");
+
+-- CreateIndex
+CREATE INDEX "ReportRunRow_runId_position_idx" ON "ReportRunRow"("runId", "position");
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "Bundle" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "discountCode" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "BundleItem" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "bundleId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "variantId" TEXT,
+    "title" TEXT NOT NULL,
+    CONSTRAINT "BundleItem_bundleId_fkey" FOREIGN KEY ("bundleId") REFERENCES "Bundle" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "Bundle_shop_name_idx" ON "Bundle"("shop", "name");
+
+-- CreateIndex
+CREATE INDEX "BundleItem_bundleId_idx" ON "BundleItem"("bundleId");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "SyncState" ADD COLUMN "phase" TEXT;
+ALTER TABLE "SyncState" ADD COLUMN "customersUrl" TEXT;